@@ -5,7 +5,7 @@ import type { NextRequest } from 'next/server'
 export async function middleware(req: NextRequest) {
   const res = NextResponse.next()
 
-  // Skip auth check for API routes and static files
+  // Skip auth check for API routes (they authorize per action, see src/lib/auth.ts) and static files
   if (req.nextUrl.pathname.startsWith('/api/') ||
       req.nextUrl.pathname.startsWith('/_next/') ||
       req.nextUrl.pathname.includes('.')) {
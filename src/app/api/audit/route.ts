@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('audit:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { searchParams } = new URL(request.url)
+    
+    // Parse query parameters
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const entity_type = searchParams.get('entity_type')
+    const entity_id = searchParams.get('entity_id')
+    const actor_id = searchParams.get('actor_id')
+    const action = searchParams.get('action')
+    const date_from = searchParams.get('date_from')
+    const date_to = searchParams.get('date_to')
+    
+    const offset = (page - 1) * limit
+    
+    // Build query
+    let query = supabase
+      .from('audit_events')
+      .select(`
+        *,
+        actor:staff_users(*)
+      `, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+    
+    // Apply filters
+    if (entity_type) {
+      query = query.eq('entity_type', entity_type)
+    }
+    
+    if (entity_id) {
+      query = query.eq('entity_id', entity_id)
+    }
+    
+    if (actor_id) {
+      query = query.eq('actor_id', actor_id)
+    }
+    
+    if (action) {
+      query = query.eq('action', action)
+    }
+    
+    if (date_from) {
+      query = query.gte('created_at', date_from)
+    }
+    
+    if (date_to) {
+      query = query.lte('created_at', date_to)
+    }
+    
+    const { data: events, count, error } = await query
+    
+    if (error) {
+      console.error('Error fetching audit events:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch audit events', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: {
+        items: events || [],
+        total: count || 0,
+        page,
+        limit,
+        totalPages: Math.ceil((count || 0) / limit)
+      },
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UpdateConflictCommentSchema } from '@/lib/types'
+import { ambiguousMentions, extractMentions } from '@/lib/mentions'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Only the author may edit a comment; the previous text is kept in the audit log
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const auth = await authorize('conflicts:comment')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: conflictId, commentId } = await params
+    
+    // Validate request body
+    const validation = UpdateConflictCommentSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const { data: currentComment, error: fetchError } = await supabase
+      .from('conflict_comments')
+      .select('*')
+      .eq('id', commentId)
+      .eq('conflict_id', conflictId)
+      .maybeSingle()
+    
+    if (fetchError) {
+      console.error('Error fetching conflict comment:', fetchError)
+      return NextResponse.json(
+        { error: 'Failed to fetch comment', details: fetchError.message },
+        { status: 500 }
+      )
+    }
+    
+    if (!currentComment) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      )
+    }
+    
+    if (currentComment.author_id !== auth.staffUser.id) {
+      return NextResponse.json(
+        { error: 'Only the author can edit a comment' },
+        { status: 403 }
+      )
+    }
+    
+    const { data: staff, error: staffError } = await supabase
+      .from('staff_users')
+      .select('id, email')
+    
+    if (staffError) {
+      console.error('Error fetching staff for mentions:', staffError)
+      return NextResponse.json(
+        { error: 'Failed to resolve mentions', details: staffError.message },
+        { status: 500 }
+      )
+    }
+    
+    const ambiguous = ambiguousMentions(validation.data.body, staff || [])
+    if (ambiguous.length > 0) {
+      return NextResponse.json(
+        { error: `${ambiguous.map(handle => `@${handle}`).join(', ')} matches more than one colleague; mention them by full email instead` },
+        { status: 400 }
+      )
+    }
+    
+    const { data: updatedComment, error } = await supabase
+      .from('conflict_comments')
+      .update({
+        body: validation.data.body,
+        mentions: extractMentions(validation.data.body, staff || []),
+        edited_at: new Date().toISOString()
+      })
+      .eq('id', commentId)
+      .select()
+      .single()
+    
+    if (error) {
+      console.error('Error updating conflict comment:', error)
+      return NextResponse.json(
+        { error: 'Failed to update comment', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'conflict_comment',
+      entityId: commentId,
+      action: 'update',
+      before: currentComment,
+      after: updatedComment
+    })
+    
+    const { id, name, email } = auth.staffUser
+    
+    return NextResponse.json({
+      data: { ...updatedComment, author: { id, name, email } },
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CreateConflictCommentSchema } from '@/lib/types'
+import { ambiguousMentions, extractMentions } from '@/lib/mentions'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+const COMMENT_SELECT = `
+  *,
+  author:staff_users!conflict_comments_author_id_fkey(id, name, email)
+`
+
+// Comments in the order they were written; the client nests replies under their parent
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('conflicts:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { id: conflictId } = await params
+    
+    const { data: conflict, error: conflictError } = await supabase
+      .from('deal_conflicts')
+      .select('id')
+      .eq('id', conflictId)
+      .maybeSingle()
+    
+    if (conflictError) {
+      console.error('Error fetching conflict:', conflictError)
+      return NextResponse.json(
+        { error: 'Failed to fetch conflict', details: conflictError.message },
+        { status: 500 }
+      )
+    }
+    
+    if (!conflict) {
+      return NextResponse.json(
+        { error: 'Conflict not found' },
+        { status: 404 }
+      )
+    }
+    
+    const { data: comments, error } = await supabase
+      .from('conflict_comments')
+      .select(COMMENT_SELECT)
+      .eq('conflict_id', conflictId)
+      .order('created_at', { ascending: true })
+    
+    if (error) {
+      console.error('Error fetching conflict comments:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch comments', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: comments || [],
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Notes can still be added once a conflict is resolved or dismissed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('conflicts:comment')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: conflictId } = await params
+    
+    // Validate request body
+    const validation = CreateConflictCommentSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const { data: conflict, error: conflictError } = await supabase
+      .from('deal_conflicts')
+      .select('id')
+      .eq('id', conflictId)
+      .maybeSingle()
+    
+    if (conflictError) {
+      console.error('Error fetching conflict:', conflictError)
+      return NextResponse.json(
+        { error: 'Failed to fetch conflict', details: conflictError.message },
+        { status: 500 }
+      )
+    }
+    
+    if (!conflict) {
+      return NextResponse.json(
+        { error: 'Conflict not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Threads are one level deep: a reply to a reply joins the top-level comment's thread
+    let parentId: string | null = null
+    if (validation.data.parent_id) {
+      const { data: parent } = await supabase
+        .from('conflict_comments')
+        .select('id, parent_id')
+        .eq('id', validation.data.parent_id)
+        .eq('conflict_id', conflictId)
+        .maybeSingle()
+      
+      if (!parent) {
+        return NextResponse.json(
+          { error: 'The comment being replied to does not belong to this conflict' },
+          { status: 400 }
+        )
+      }
+      
+      parentId = parent.parent_id || parent.id
+    }
+    
+    const { data: staff, error: staffError } = await supabase
+      .from('staff_users')
+      .select('id, email')
+    
+    if (staffError) {
+      console.error('Error fetching staff for mentions:', staffError)
+      return NextResponse.json(
+        { error: 'Failed to resolve mentions', details: staffError.message },
+        { status: 500 }
+      )
+    }
+    
+    const ambiguous = ambiguousMentions(validation.data.body, staff || [])
+    if (ambiguous.length > 0) {
+      return NextResponse.json(
+        { error: `${ambiguous.map(handle => `@${handle}`).join(', ')} matches more than one colleague; mention them by full email instead` },
+        { status: 400 }
+      )
+    }
+    
+    const { data: comment, error } = await supabase
+      .from('conflict_comments')
+      .insert({
+        conflict_id: conflictId,
+        parent_id: parentId,
+        author_id: auth.staffUser.id,
+        body: validation.data.body,
+        mentions: extractMentions(validation.data.body, staff || [])
+      })
+      .select()
+      .single()
+    
+    if (error) {
+      console.error('Error creating conflict comment:', error)
+      return NextResponse.json(
+        { error: 'Failed to create comment', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'conflict_comment',
+      entityId: comment.id,
+      action: 'create',
+      after: comment
+    })
+    
+    const { id, name, email } = auth.staffUser
+    
+    return NextResponse.json({
+      data: { ...comment, author: { id, name, email } },
+      success: true,
+      error: null
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
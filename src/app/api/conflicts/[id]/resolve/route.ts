@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ResolveConflictSchema } from '@/lib/types'
+import { resolveConflict } from '@/lib/conflict-resolution'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('conflicts:update')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: conflictId } = await params
+    
+    // Validate request body
+    const validation = ResolveConflictSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const result = await resolveConflict(supabase, conflictId, validation.data, auth.staffUser.id)
+    
+    if (result.error !== null) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+    
+    if (result.winner) {
+      await recordAuditEvent({
+        actorId: auth.staffUser.id,
+        entityType: 'deal',
+        entityId: validation.data.winning_deal_id,
+        action: 'win_conflict',
+        before: result.winner.previous,
+        after: result.winner.deal
+      })
+    }
+    
+    if (result.loser) {
+      await recordAuditEvent({
+        actorId: auth.staffUser.id,
+        entityType: 'deal',
+        entityId: result.loser.deal.id as string,
+        action: 'lose_conflict',
+        before: result.loser.previous,
+        after: result.loser.deal
+      })
+    }
+    
+    for (const conflict of result.conflicts) {
+      await recordAuditEvent({
+        actorId: auth.staffUser.id,
+        entityType: 'conflict',
+        entityId: conflict.id as string,
+        action: 'resolve',
+        before: result.previousConflicts.find(previous => previous.id === conflict.id),
+        after: conflict
+      })
+    }
+    
+    return NextResponse.json({
+      data: {
+        conflicts: result.conflicts,
+        winning_deal: result.winner?.deal ?? null,
+        losing_deal: result.loser?.deal ?? null
+      },
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { ConflictAssigner } from '@/lib/conflict-assignment'
+import { authorize } from '@/lib/auth'
+
+// Routes every unassigned pending conflict to staff, e.g. after assignment is switched on
+export async function POST() {
+  try {
+    const auth = await authorize('conflicts:update')
+    if (auth.response) return auth.response
+    
+    const summary = await new ConflictAssigner().assignPending()
+    
+    return NextResponse.json({
+      data: summary,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { ConflictAutoResolver } from '@/lib/conflict-auto-resolution'
+import { authorize } from '@/lib/auth'
+
+// Applies the tie-break policies to every pending conflict, e.g. after the policies change
+export async function POST() {
+  try {
+    const auth = await authorize('conflicts:update')
+    if (auth.response) return auth.response
+    
+    const summary = await new ConflictAutoResolver().resolvePending()
+    
+    return NextResponse.json({
+      data: summary,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { getSetting } from '@/lib/settings'
+import type { ConflictQueuePage } from '@/lib/conflict-priority'
+import { ConflictPriority } from '@/lib/types'
+
+// Pending conflicts ranked by priority, with each conflict's SLA status
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('conflicts:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { searchParams } = new URL(request.url)
+    
+    // Parse query parameters
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '25')
+    const priority = searchParams.get('priority')
+    const overdue = searchParams.get('overdue') === 'true'
+    const sort = searchParams.get('sort') || 'priority'
+    
+    if (!['priority', 'oldest'].includes(sort)) {
+      return NextResponse.json(
+        { error: 'Invalid sort', details: 'sort must be one of: priority, oldest' },
+        { status: 400 }
+      )
+    }
+    
+    if (priority && !ConflictPriority.safeParse(priority).success) {
+      return NextResponse.json(
+        { error: 'Invalid priority', details: 'priority must be one of: high, medium, low' },
+        { status: 400 }
+      )
+    }
+    
+    // Ranked and paged in the database; only the page's conflicts are loaded in full
+    const sla = await getSetting('conflict_sla')
+    const { data: queue, error: queueError } = await supabase.rpc('conflict_queue', {
+      p_high_hours: sla.high_hours,
+      p_medium_hours: sla.medium_hours,
+      p_low_hours: sla.low_hours,
+      p_priority: priority,
+      p_overdue: overdue,
+      p_sort: sort,
+      p_limit: limit,
+      p_offset: (page - 1) * limit
+    })
+    
+    if (queueError) {
+      console.error('Error ranking conflict queue:', queueError)
+      return NextResponse.json(
+        { error: 'Failed to fetch conflict queue', details: queueError.message },
+        { status: 500 }
+      )
+    }
+    
+    const { entries, total, summary } = queue as ConflictQueuePage
+    
+    const { data: conflicts, error } = await supabase
+      .from('deal_conflicts')
+      .select(`
+        *,
+        deal:deals!deal_conflicts_deal_id_fkey(
+          *,
+          reseller:resellers!deals_reseller_id_fkey(*),
+          end_user:end_users(*)
+        ),
+        competing_deal:deals!deal_conflicts_competing_deal_id_fkey(
+          *,
+          reseller:resellers!deals_reseller_id_fkey(*),
+          end_user:end_users(*)
+        ),
+        assigned_staff:staff_users!deal_conflicts_assigned_to_staff_fkey(*)
+      `)
+      .in('id', entries.map(entry => entry.conflict_id))
+    
+    if (error) {
+      console.error('Error fetching conflict queue:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch conflict queue', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    // Keep the ranked order; a conflict resolved in between drops out of the page
+    const conflictsById = new Map((conflicts || []).map(conflict => [conflict.id, conflict]))
+    const items = entries
+      .filter(entry => conflictsById.has(entry.conflict_id))
+      .map(({ conflict_id, ...status }) => ({ ...conflictsById.get(conflict_id), ...status }))
+    
+    return NextResponse.json({
+      data: {
+        items,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        summary,
+        sla
+      },
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConflictRescanner } from '@/lib/conflict-rescan'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('conflicts:rescan')
+    if (auth.response) return auth.response
+    
+    const { id: jobId } = await params
+    
+    const rescanner = new ConflictRescanner()
+    const job = await rescanner.getJob(jobId)
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Rescan job not found' },
+        { status: 404 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: job,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Processes the next batch of deals. Call repeatedly until the job is no longer running.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('conflicts:rescan')
+    if (auth.response) return auth.response
+    
+    const { id: jobId } = await params
+    
+    const rescanner = new ConflictRescanner()
+    const result = await rescanner.runNextBatch(jobId)
+    
+    if (result.error !== null) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+    
+    const { job } = result
+    if (result.finished) {
+      await recordAuditEvent({
+        actorId: auth.staffUser.id,
+        entityType: 'conflict_rescan_job',
+        entityId: jobId,
+        action: job.status === 'completed' ? 'complete' : 'fail',
+        after: job
+      })
+    }
+    
+    return NextResponse.json({
+      data: job,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConflictRescanner } from '@/lib/conflict-rescan'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('conflicts:rescan')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '10')
+    
+    const { data: jobs, error } = await supabase
+      .from('conflict_rescan_jobs')
+      .select(`
+        *,
+        started_by_staff:staff_users(*)
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+    
+    if (error) {
+      console.error('Error fetching rescan jobs:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch rescan jobs', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: jobs || [],
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Starts a re-scan job; batches are then processed with POST /api/conflicts/rescan/[id]
+export async function POST() {
+  try {
+    const auth = await authorize('conflicts:rescan')
+    if (auth.response) return auth.response
+    
+    const rescanner = new ConflictRescanner()
+    const result = await rescanner.startJob(auth.staffUser.id)
+    
+    if (result.error !== null) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'conflict_rescan_job',
+      entityId: result.job.id as string,
+      action: 'start',
+      after: result.job
+    })
+    
+    return NextResponse.json({
+      data: result.job,
+      success: true,
+      error: null
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
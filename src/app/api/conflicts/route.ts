@@ -1,9 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { ConflictSeverity, UpdateConflictSchema } from '@/lib/types'
+
+// Postgres raise_exception, raised by set_conflict_status for a conflict it cannot change
+const RAISE_EXCEPTION = 'P0001'
+
+type StatusChange = {
+  conflicts: Record<string, unknown>[]
+  previous_conflicts: Record<string, unknown>[]
+}
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('conflicts:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const { searchParams } = new URL(request.url)
     
     // Parse query parameters
@@ -12,6 +25,22 @@ export async function GET(request: NextRequest) {
     const resolution_status = searchParams.get('resolution_status')
     const conflict_type = searchParams.get('conflict_type')
     const assigned_to_staff = searchParams.get('assigned_to_staff')
+    const severity = searchParams.get('severity')
+    const sort = searchParams.get('sort') || 'created_at'
+    
+    if (!['created_at', 'severity'].includes(sort)) {
+      return NextResponse.json(
+        { error: 'Invalid sort', details: 'sort must be one of: created_at, severity' },
+        { status: 400 }
+      )
+    }
+    
+    if (severity && !ConflictSeverity.safeParse(severity).success) {
+      return NextResponse.json(
+        { error: 'Invalid severity', details: 'severity must be one of: high, medium, low' },
+        { status: 400 }
+      )
+    }
     
     const offset = (page - 1) * limit
     
@@ -38,8 +67,17 @@ export async function GET(request: NextRequest) {
             product:products(*)
           )
         ),
-        assigned_staff:staff_users(*)
-      `)
+        assigned_staff:staff_users!deal_conflicts_assigned_to_staff_fkey(*)
+      `, { count: 'exact' })
+    
+    // Unscored conflicts recorded before severity was persisted sort last
+    if (sort === 'severity') {
+      query = query
+        .order('severity', { ascending: false, nullsFirst: false })
+        .order('similarity_score', { ascending: false, nullsFirst: false })
+    }
+    
+    query = query
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
     
@@ -52,11 +90,18 @@ export async function GET(request: NextRequest) {
       query = query.eq('conflict_type', conflict_type)
     }
     
-    if (assigned_to_staff) {
+    // 'me' is the signed-in staff member, so the page needs no separate lookup
+    if (assigned_to_staff === 'me') {
+      query = query.eq('assigned_to_staff', auth.staffUser.id)
+    } else if (assigned_to_staff) {
       query = query.eq('assigned_to_staff', assigned_to_staff)
     }
     
-    const { data: conflicts, error } = await query
+    if (severity) {
+      query = query.eq('severity', severity)
+    }
+    
+    const { data: conflicts, count: totalCount, error } = await query
     
     if (error) {
       console.error('Error fetching conflicts:', error)
@@ -66,11 +111,6 @@ export async function GET(request: NextRequest) {
       )
     }
     
-    // Get total count for pagination
-    const { count: totalCount } = await supabase
-      .from('deal_conflicts')
-      .select('*', { count: 'exact', head: true })
-    
     return NextResponse.json({
       data: {
         items: conflicts || [],
@@ -93,28 +133,81 @@ export async function GET(request: NextRequest) {
 
 export async function PATCH(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
-    const body = await request.json()
+    const auth = await authorize('conflicts:update')
+    if (auth.response) return auth.response
     
-    const { conflict_id, resolution_status, assigned_to_staff } = body
+    const { supabase } = auth
+    const body = await request.json()
     
-    if (!conflict_id) {
+    // Validate request body
+    const validation = UpdateConflictSchema.safeParse(body)
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Conflict ID is required' },
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
         { status: 400 }
       )
     }
     
-    const updateData: Record<string, unknown> = {}
+    const { conflict_id, resolution_status, assigned_to_staff } = validation.data
+    
+    const { data: currentConflict, error: fetchError } = await supabase
+      .from('deal_conflicts')
+      .select('*')
+      .eq('id', conflict_id)
+      .single()
+    
+    if (fetchError || !currentConflict) {
+      return NextResponse.json(
+        { error: 'Conflict not found' },
+        { status: 404 }
+      )
+    }
     
+    // A resolution has already moved both deals, and changing the status here would not move them back
+    if (resolution_status && currentConflict.resolution_status === 'resolved') {
+      return NextResponse.json(
+        { error: 'A resolved conflict cannot be re-opened or dismissed' },
+        { status: 409 }
+      )
+    }
+    
+    // Dismissing or re-opening changes the pair's row on the competing deal's side too
+    let statusChange: StatusChange = { conflicts: [], previous_conflicts: [] }
     if (resolution_status) {
-      updateData.resolution_status = resolution_status
+      const { data, error: statusError } = await supabase.rpc('set_conflict_status', {
+        p_conflict_id: conflict_id,
+        p_status: resolution_status,
+        p_updated_by: auth.staffUser.id
+      })
+      
+      if (statusError) {
+        if (statusError.code === RAISE_EXCEPTION) {
+          return NextResponse.json(
+            { error: statusError.message },
+            { status: 409 }
+          )
+        }
+        
+        console.error('Error updating conflict status:', statusError)
+        return NextResponse.json(
+          { error: 'Failed to update conflict', details: statusError.message },
+          { status: 500 }
+        )
+      }
+      
+      statusChange = data as StatusChange
     }
     
+    const updateData: Record<string, unknown> = {}
+    
     if (assigned_to_staff !== undefined) {
       updateData.assigned_to_staff = assigned_to_staff
     }
     
+    updateData.updated_by = auth.staffUser.id
     updateData.updated_at = new Date().toISOString()
     
     const { data: updatedConflict, error } = await supabase
@@ -125,15 +218,15 @@ export async function PATCH(request: NextRequest) {
         *,
         deal:deals!deal_conflicts_deal_id_fkey(
           *,
-          reseller:resellers(*),
+          reseller:resellers!deals_reseller_id_fkey(*),
           end_user:end_users(*)
         ),
         competing_deal:deals!deal_conflicts_competing_deal_id_fkey(
           *,
-          reseller:resellers(*),
+          reseller:resellers!deals_reseller_id_fkey(*),
           end_user:end_users(*)
         ),
-        assigned_staff:staff_users(*)
+        assigned_staff:staff_users!deal_conflicts_assigned_to_staff_fkey(*)
       `)
       .single()
     
@@ -145,6 +238,30 @@ export async function PATCH(request: NextRequest) {
       )
     }
     
+    // Audit the row itself, not the joined deals
+    const conflictRow = Object.fromEntries(
+      Object.keys(currentConflict).map(key => [key, updatedConflict[key]])
+    )
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'conflict',
+      entityId: conflict_id,
+      action: 'update',
+      before: currentConflict,
+      after: conflictRow
+    })
+    
+    for (const mirror of statusChange.conflicts.filter(conflict => conflict.id !== conflict_id)) {
+      await recordAuditEvent({
+        actorId: auth.staffUser.id,
+        entityType: 'conflict',
+        entityId: mirror.id as string,
+        action: 'update',
+        before: statusChange.previous_conflicts.find(previous => previous.id === mirror.id),
+        after: mirror
+      })
+    }
+    
     return NextResponse.json({
       data: updatedConflict,
       success: true,
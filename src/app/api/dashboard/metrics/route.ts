@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
+import { authorize } from '@/lib/auth'
 
 export async function GET() {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('dashboard:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     
     // Get deal counts by status
     const { data: dealCounts, error: dealCountsError } = await supabase
@@ -18,7 +21,9 @@ export async function GET() {
           assigned: data?.filter(d => d.status === 'assigned').length || 0,
           disputed: data?.filter(d => d.status === 'disputed').length || 0,
           approved: data?.filter(d => d.status === 'approved').length || 0,
-          rejected: data?.filter(d => d.status === 'rejected').length || 0
+          rejected: data?.filter(d => d.status === 'rejected').length || 0,
+          expired: data?.filter(d => d.status === 'expired').length || 0,
+          withdrawn: data?.filter(d => d.status === 'withdrawn').length || 0
         }
         
         return { data: counts, error: null }
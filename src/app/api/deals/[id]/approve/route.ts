@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApproveDealSchema } from '@/lib/types'
+import { changeDealStatus } from '@/lib/deal-status'
+import { DealExpirer } from '@/lib/deal-expiry'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('deals:decide')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: dealId } = await params
+    
+    // Validate request body
+    const validation = ApproveDealSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    // Deals flagged by eligibility rules need the reviewer to confirm they have seen the flags
+    const { data: flaggedDeal, error: flagsError } = await supabase
+      .from('deals')
+      .select('eligibility_flags')
+      .eq('id', dealId)
+      .maybeSingle()
+    
+    if (flagsError) {
+      console.error('Error fetching eligibility flags:', flagsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch deal', details: flagsError.message },
+        { status: 500 }
+      )
+    }
+    
+    const flags = flaggedDeal?.eligibility_flags || []
+    if (flags.length > 0 && !validation.data.acknowledge_flags) {
+      return NextResponse.json(
+        {
+          error: 'Deal was flagged by eligibility rules; acknowledge the flags to approve it',
+          details: flags
+        },
+        { status: 409 }
+      )
+    }
+    
+    // The protection period starts now and is fixed at approval
+    const expiresAt = await new DealExpirer().expiresAt(dealId)
+    
+    const result = await changeDealStatus(supabase, dealId, 'approved', {
+      reason: validation.data.reason,
+      changedBy: auth.staffUser.id,
+      updates: { expires_at: expiresAt }
+    })
+    
+    if (result.error) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'approve',
+      before: result.previous,
+      after: result.deal
+    })
+    
+    return NextResponse.json({
+      data: result.deal,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
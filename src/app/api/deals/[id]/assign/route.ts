@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
 import { AssignDealSchema } from '@/lib/types'
+import { changeDealStatus } from '@/lib/deal-status'
+import { resolveConflict } from '@/lib/conflict-resolution'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('deals:assign')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const body = await request.json()
     const resolvedParams = await params
     const dealId = resolvedParams.id
@@ -28,7 +34,7 @@ export async function POST(
       )
     }
     
-    const { assigned_reseller_id, reason } = validation.data
+    const { assigned_reseller_id, reason, losing_deal_status, reason_code } = validation.data
     
     // Get current deal details
     const { data: currentDeal, error: fetchError } = await supabase
@@ -44,33 +50,20 @@ export async function POST(
       )
     }
     
-    // Update deal assignment
-    const { data: updatedDeal, error: updateError } = await supabase
-      .from('deals')
-      .update({
+    // Update deal assignment, enforcing the status lifecycle
+    const statusChange = await changeDealStatus(supabase, dealId, 'assigned', {
+      reason: reason || 'Manual assignment',
+      changedBy: auth.staffUser.id,
+      updates: {
         assigned_reseller_id,
-        status: 'assigned',
         assignment_date: new Date().toISOString()
-      })
-      .eq('id', dealId)
-      .select(`
-        *,
-        reseller:resellers(*),
-        end_user:end_users(*),
-        assigned_reseller:resellers!deals_assigned_reseller_id_fkey(*),
-        products:deal_products(
-          *,
-          product:products(*)
-        ),
-        conflicts:deal_conflicts(*)
-      `)
-      .single()
+      }
+    })
     
-    if (updateError) {
-      console.error('Error updating deal assignment:', updateError)
+    if (statusChange.error) {
       return NextResponse.json(
-        { error: 'Failed to assign deal', details: updateError.message },
-        { status: 500 }
+        { error: statusChange.error },
+        { status: statusChange.status }
       )
     }
     
@@ -81,7 +74,7 @@ export async function POST(
         deal_id: dealId,
         old_reseller_id: currentDeal.assigned_reseller_id,
         new_reseller_id: assigned_reseller_id,
-        assigned_by: null, // TODO: Get from auth context
+        assigned_by: auth.staffUser.id,
         reason: reason || 'Manual assignment'
       })
     
@@ -90,22 +83,103 @@ export async function POST(
       // Don't fail the request, just log the error
     }
     
-    // Resolve related conflicts
-    const { error: conflictError } = await supabase
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'assign',
+      before: statusChange.previous,
+      after: statusChange.deal
+    })
+    
+    // Resolve pending conflicts in the deal's favour, whichever side it was recorded on
+    const { data: pendingConflicts, error: conflictsError } = await supabase
       .from('deal_conflicts')
-      .update({
-        resolution_status: 'resolved',
-        updated_at: new Date().toISOString()
-      })
-      .eq('deal_id', dealId)
+      .select('id')
+      .or(`deal_id.eq.${dealId},competing_deal_id.eq.${dealId}`)
+      .eq('resolution_status', 'pending')
+      .order('created_at', { ascending: true })
     
-    if (conflictError) {
-      console.error('Error resolving conflicts:', conflictError)
-      // Don't fail the request, just log the error
+    if (conflictsError) {
+      console.error('Error fetching conflicts to resolve:', conflictsError)
+      return NextResponse.json(
+        { error: 'Deal assigned but failed to fetch its conflicts', details: conflictsError.message },
+        { status: 500 }
+      )
+    }
+    
+    const resolvedConflicts: Record<string, unknown>[] = []
+    const unresolved: { conflict_id: string; error: string }[] = []
+    for (const { id: conflictId } of pendingConflicts || []) {
+      // A resolution closes every row between the same two deals
+      if (resolvedConflicts.some(conflict => conflict.id === conflictId)) continue
+      
+      const result = await resolveConflict(supabase, conflictId, {
+        winning_deal_id: dealId,
+        losing_deal_status,
+        reason_code,
+        rationale: reason || 'Manual assignment'
+      }, auth.staffUser.id)
+      
+      if (result.error !== null) {
+        unresolved.push({ conflict_id: conflictId, error: result.error })
+        continue
+      }
+      
+      if (result.loser) {
+        await recordAuditEvent({
+          actorId: auth.staffUser.id,
+          entityType: 'deal',
+          entityId: result.loser.deal.id as string,
+          action: 'lose_conflict',
+          before: result.loser.previous,
+          after: result.loser.deal
+        })
+      }
+      
+      for (const conflict of result.conflicts) {
+        await recordAuditEvent({
+          actorId: auth.staffUser.id,
+          entityType: 'conflict',
+          entityId: conflict.id as string,
+          action: 'resolve',
+          before: result.previousConflicts.find(previous => previous.id === conflict.id),
+          after: conflict
+        })
+      }
+      resolvedConflicts.push(...result.conflicts)
+    }
+    
+    const { data: updatedDeal, error: updateError } = await supabase
+      .from('deals')
+      .select(`
+        *,
+        reseller:resellers!deals_reseller_id_fkey(*),
+        end_user:end_users(*),
+        assigned_reseller:resellers!deals_assigned_reseller_id_fkey(*),
+        products:deal_products(
+          *,
+          product:products(*)
+        ),
+        conflicts:deal_conflicts!deal_conflicts_deal_id_fkey(*)
+      `)
+      .eq('id', dealId)
+      .single()
+    
+    if (updateError) {
+      console.error('Error fetching assigned deal:', updateError)
+      return NextResponse.json(
+        { error: 'Deal assigned but failed to fetch details', details: updateError.message },
+        { status: 500 }
+      )
     }
     
     return NextResponse.json({
-      data: updatedDeal,
+      data: {
+        deal: updatedDeal,
+        conflicts: resolvedConflicts,
+        unresolved
+      },
       success: true,
       error: null
     })
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DealDecisionSchema } from '@/lib/types'
+import { changeDealStatus } from '@/lib/deal-status'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('deals:decide')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: dealId } = await params
+    
+    // Validate request body
+    const validation = DealDecisionSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const result = await changeDealStatus(supabase, dealId, 'rejected', {
+      reason: validation.data.reason,
+      changedBy: auth.staffUser.id
+    })
+    
+    if (result.error) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'reject',
+      before: result.previous,
+      after: result.deal
+    })
+    
+    return NextResponse.json({
+      data: result.deal,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,403 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UpdateDealProductsSchema } from '@/lib/types'
+import { ConflictDetectionEngine } from '@/lib/conflict-detection'
+import { ConflictAutoResolver } from '@/lib/conflict-auto-resolution'
+import { ConflictAssigner } from '@/lib/conflict-assignment'
+import { EligibilityRuleEngine } from '@/lib/eligibility-rules'
+import { authorize, type RouteHandlerClient } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Only deals that have not been decided yet can be edited or withdrawn
+const EDITABLE_STATUSES = ['pending', 'disputed']
+
+// Postgres raise_exception, used by replace_deal_products once a deal is no longer editable
+const RAISE_EXCEPTION = 'P0001'
+
+type LineItemSnapshotSource = {
+  status: string
+  total_value: number
+  products: { product_id: string; quantity: number; price: number }[]
+}
+
+// The parts of a deal a line item edit can change, for the audit trail
+function lineItemSnapshot(deal: LineItemSnapshotSource) {
+  return {
+    status: deal.status,
+    total_value: deal.total_value,
+    products: deal.products.map(({ product_id, quantity, price }) => ({ product_id, quantity, price }))
+  }
+}
+
+async function fetchDealDetail(supabase: RouteHandlerClient, dealId: string) {
+  const { data: deal, error: dealError } = await supabase
+    .from('deals')
+    .select(`
+      *,
+      reseller:resellers!deals_reseller_id_fkey(*),
+      end_user:end_users(*),
+      assigned_reseller:resellers!deals_assigned_reseller_id_fkey(*),
+      products:deal_products(
+        *,
+        product:products(*)
+      )
+    `)
+    .eq('id', dealId)
+    .maybeSingle()
+
+  if (dealError || !deal) {
+    return { data: null, error: dealError }
+  }
+
+  // Conflicts can reference the deal from either side of the pair
+  const { data: conflicts, error: conflictsError } = await supabase
+    .from('deal_conflicts')
+    .select(`
+      *,
+      deal:deals!deal_conflicts_deal_id_fkey(
+        *,
+        reseller:resellers!deals_reseller_id_fkey(*),
+        end_user:end_users(*)
+      ),
+      competing_deal:deals!deal_conflicts_competing_deal_id_fkey(
+        *,
+        reseller:resellers!deals_reseller_id_fkey(*),
+        end_user:end_users(*)
+      )
+    `)
+    .or(`deal_id.eq.${dealId},competing_deal_id.eq.${dealId}`)
+    .order('created_at', { ascending: false })
+
+  if (conflictsError) {
+    return { data: null, error: conflictsError }
+  }
+
+  const { data: assignmentHistory, error: historyError } = await supabase
+    .from('assignment_history')
+    .select(`
+      *,
+      old_reseller:resellers!assignment_history_old_reseller_id_fkey(*),
+      new_reseller:resellers!assignment_history_new_reseller_id_fkey(*),
+      assigned_by_staff:staff_users(*)
+    `)
+    .eq('deal_id', dealId)
+    .order('created_at', { ascending: false })
+
+  if (historyError) {
+    return { data: null, error: historyError }
+  }
+
+  const { data: statusHistory, error: statusHistoryError } = await supabase
+    .from('deal_status_history')
+    .select(`
+      *,
+      changed_by_staff:staff_users(*)
+    `)
+    .eq('deal_id', dealId)
+    .order('created_at', { ascending: false })
+
+  if (statusHistoryError) {
+    return { data: null, error: statusHistoryError }
+  }
+
+  return {
+    data: {
+      ...deal,
+      conflicts: (conflicts || []).map(({ deal: conflictDeal, competing_deal, ...conflict }) => ({
+        ...conflict,
+        competing_deal: conflict.deal_id === dealId ? competing_deal : conflictDeal
+      })),
+      assignment_history: assignmentHistory || [],
+      status_history: statusHistory || []
+    },
+    error: null
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('deals:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { id: dealId } = await params
+
+    const { data: deal, error } = await fetchDealDetail(supabase, dealId)
+
+    if (error) {
+      console.error('Error fetching deal:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch deal', details: error.message },
+        { status: 500 }
+      )
+    }
+
+    if (!deal) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      data: deal,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('deals:update')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: dealId } = await params
+
+    // Validate request body
+    const validation = UpdateDealProductsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: validation.error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    const { products } = validation.data
+
+    // Get current deal details
+    const { data: currentDeal, error: fetchError } = await supabase
+      .from('deals')
+      .select(`
+        *,
+        end_user:end_users(*),
+        products:deal_products(*)
+      `)
+      .eq('id', dealId)
+      .single()
+
+    if (fetchError || !currentDeal) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!EDITABLE_STATUSES.includes(currentDeal.status)) {
+      return NextResponse.json(
+        { error: `Deals in ${currentDeal.status} status can no longer be edited` },
+        { status: 409 }
+      )
+    }
+
+    // Edited line items have to meet the eligibility rules just like a new submission
+    const eligibility = await new EligibilityRuleEngine().evaluate({
+      reseller_id: currentDeal.reseller_id,
+      end_user: currentDeal.end_user,
+      products
+    })
+    if (!eligibility.eligible) {
+      return NextResponse.json(
+        {
+          error: 'Edited deal does not meet eligibility rules',
+          details: eligibility.violations
+        },
+        { status: 422 }
+      )
+    }
+
+    const totalValue = products.reduce(
+      (sum, product) => sum + (product.quantity * product.price),
+      0
+    )
+
+    // Re-run conflict detection with the edited value
+    const conflictEngine = new ConflictDetectionEngine()
+    const conflictResult = await conflictEngine.detectConflicts({
+      id: dealId,
+      end_user: currentDeal.end_user,
+      reseller_id: currentDeal.reseller_id,
+      total_value: totalValue,
+      submission_date: currentDeal.submission_date,
+      products
+    })
+
+    const { conflicts } = conflictResult
+
+    // High-severity conflicts dispute the deal; an edit that clears them returns it to pending.
+    // The status moves in the same transaction as the line items.
+    const { error: updateError } = await supabase.rpc('replace_deal_products', {
+      p_deal_id: dealId,
+      p_products: products,
+      p_conflicts: conflictEngine.buildConflictRecords(conflicts, dealId),
+      // Any violation left at this point comes from a flag rule
+      p_eligibility_flags: eligibility.violations,
+      p_status: conflicts.some(c => c.severity === 'high') ? 'disputed' : 'pending',
+      p_changed_by: auth.staffUser.id
+    })
+
+    if (updateError) {
+      if (updateError.code === RAISE_EXCEPTION) {
+        return NextResponse.json(
+          { error: updateError.message },
+          { status: 409 }
+        )
+      }
+
+      console.error('Error updating deal products:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update deal', details: updateError.message },
+        { status: 500 }
+      )
+    }
+
+    const autoResolution = await new ConflictAutoResolver().resolvePending(dealId)
+    const assignment = await new ConflictAssigner().assignPending(dealId)
+    
+    const { data: updatedDeal, error: refetchError } = await fetchDealDetail(supabase, dealId)
+
+    if (refetchError || !updatedDeal) {
+      console.error('Error fetching updated deal:', refetchError)
+      return NextResponse.json(
+        { error: 'Deal updated but failed to fetch details', details: refetchError?.message },
+        { status: 500 }
+      )
+    }
+
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'update_line_items',
+      before: lineItemSnapshot(currentDeal),
+      after: lineItemSnapshot(updatedDeal)
+    })
+
+    return NextResponse.json({
+      data: {
+        deal: updatedDeal,
+        conflicts: conflictResult,
+        autoResolution,
+        assignment
+      },
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('deals:withdraw')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { id: dealId } = await params
+
+    const { data: currentDeal, error: fetchError } = await supabase
+      .from('deals')
+      .select('*')
+      .eq('id', dealId)
+      .single()
+
+    if (fetchError || !currentDeal) {
+      return NextResponse.json(
+        { error: 'Deal not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!EDITABLE_STATUSES.includes(currentDeal.status)) {
+      return NextResponse.json(
+        { error: `Deals in ${currentDeal.status} status can no longer be withdrawn` },
+        { status: 409 }
+      )
+    }
+
+    // The deal stays on record as withdrawn, so its conflicts and their discussion are kept;
+    // its pending conflicts are dismissed in the same transaction
+    const { data: withdrawal, error: withdrawError } = await supabase.rpc('withdraw_deal', {
+      p_deal_id: dealId,
+      p_reason: 'Withdrawn by the submitter',
+      p_changed_by: auth.staffUser.id
+    })
+
+    if (withdrawError) {
+      if (withdrawError.code === RAISE_EXCEPTION) {
+        return NextResponse.json(
+          { error: withdrawError.message },
+          { status: 409 }
+        )
+      }
+
+      console.error('Error withdrawing deal:', withdrawError)
+      return NextResponse.json(
+        { error: 'Failed to withdraw deal', details: withdrawError.message },
+        { status: 500 }
+      )
+    }
+
+    const { deal, conflicts, previous_conflicts: previousConflicts } = withdrawal as {
+      deal: Record<string, unknown>
+      conflicts: Record<string, unknown>[]
+      previous_conflicts: Record<string, unknown>[]
+    }
+
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'withdraw',
+      before: currentDeal,
+      after: deal
+    })
+
+    for (const conflict of conflicts) {
+      await recordAuditEvent({
+        actorId: auth.staffUser.id,
+        entityType: 'conflict',
+        entityId: conflict.id as string,
+        action: 'dismiss',
+        before: previousConflicts.find(previous => previous.id === conflict.id),
+        after: conflict
+      })
+    }
+
+    return NextResponse.json({
+      data: deal,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
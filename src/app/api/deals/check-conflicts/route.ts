@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CheckConflictsSchema } from '@/lib/types'
+import { ConflictDetectionEngine } from '@/lib/conflict-detection'
+import { authorize } from '@/lib/auth'
+
+// Dry run: reports the conflicts a submission would raise without writing anything
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('deals:create')
+    if (auth.response) return auth.response
+    
+    const body = await request.json()
+    
+    // Validate request body
+    const validation = CheckConflictsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const dealData = validation.data
+    
+    const totalValue = dealData.products.reduce(
+      (sum, product) => sum + (product.quantity * product.price), 
+      0
+    )
+    
+    const conflictResult = await new ConflictDetectionEngine().detectConflicts({
+      end_user: dealData.end_user,
+      reseller_id: dealData.reseller_id,
+      total_value: totalValue,
+      submission_date: new Date().toISOString(),
+      products: dealData.products
+    })
+    
+    return NextResponse.json({
+      data: conflictResult,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
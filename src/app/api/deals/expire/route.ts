@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DealExpirer } from '@/lib/deal-expiry'
+import { authorize } from '@/lib/auth'
+
+// Scheduled run (see vercel.json). Vercel sends CRON_SECRET as a bearer token.
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    const summary = await new DealExpirer().expireDue()
+    
+    return NextResponse.json({
+      data: summary,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Expires due deals immediately instead of waiting for the schedule
+export async function POST() {
+  try {
+    const auth = await authorize('deals:decide')
+    if (auth.response) return auth.response
+    
+    const summary = await new DealExpirer().expireDue()
+    
+    return NextResponse.json({
+      data: summary,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
 import { CreateDealSchema } from '@/lib/types'
 import { ConflictDetectionEngine } from '@/lib/conflict-detection'
+import { ConflictAutoResolver } from '@/lib/conflict-auto-resolution'
+import { ConflictAssigner } from '@/lib/conflict-assignment'
+import { EligibilityRuleEngine } from '@/lib/eligibility-rules'
+import { normalizeCompanyName } from '@/lib/company-names'
+import { TerritoryHierarchy } from '@/lib/territories'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('deals:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const { searchParams } = new URL(request.url)
     
     // Parse query parameters
@@ -96,7 +105,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('deals:create')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const body = await request.json()
     
     // Validate request body
@@ -113,24 +125,48 @@ export async function POST(request: NextRequest) {
     
     const dealData = validation.data
     
-    // Start transaction
-    const { data: insertedEndUser, error: endUserError } = await supabase
-      .from('end_users')
-      .upsert({
-        id: dealData.end_user.id,
-        company_name: dealData.end_user.company_name,
-        contact_name: dealData.end_user.contact_name,
-        contact_email: dealData.end_user.contact_email,
-        territory: dealData.end_user.territory
-      })
-      .select()
-      .single()
+    // Territories come from the configured hierarchy
+    const territories = await TerritoryHierarchy.load()
+    if (!territories.find(dealData.end_user.territory)) {
+      return NextResponse.json(
+        { error: `Unknown territory: ${dealData.end_user.territory}` },
+        { status: 400 }
+      )
+    }
     
-    if (endUserError) {
-      console.error('Error creating/updating end user:', endUserError)
+    // Only a reseller's own deals can be re-submitted
+    if (dealData.resubmission_of) {
+      const { data: earlierDeal, error: earlierError } = await supabase
+        .from('deals')
+        .select('id, reseller_id')
+        .eq('id', dealData.resubmission_of)
+        .maybeSingle()
+      
+      if (earlierError) {
+        console.error('Error fetching re-submitted deal:', earlierError)
+        return NextResponse.json(
+          { error: 'Failed to fetch re-submitted deal', details: earlierError.message },
+          { status: 500 }
+        )
+      }
+      
+      if (!earlierDeal || earlierDeal.reseller_id !== dealData.reseller_id) {
+        return NextResponse.json(
+          { error: 'Only an existing deal from the same reseller can be re-submitted' },
+          { status: 422 }
+        )
+      }
+    }
+    
+    // Enforce eligibility rules before anything is written
+    const eligibility = await new EligibilityRuleEngine().evaluate(dealData)
+    if (!eligibility.eligible) {
       return NextResponse.json(
-        { error: 'Failed to create end user', details: endUserError.message },
-        { status: 500 }
+        {
+          error: 'Deal does not meet eligibility rules',
+          details: eligibility.violations
+        },
+        { status: 422 }
       )
     }
     
@@ -140,92 +176,70 @@ export async function POST(request: NextRequest) {
       0
     )
     
-    // Create deal
-    const { data: insertedDeal, error: dealError } = await supabase
-      .from('deals')
-      .insert({
-        reseller_id: dealData.reseller_id,
-        end_user_id: insertedEndUser.id,
-        total_value: totalValue,
-        status: 'pending'
-      })
-      .select()
-      .single()
-    
-    if (dealError) {
-      console.error('Error creating deal:', dealError)
-      return NextResponse.json(
-        { error: 'Failed to create deal', details: dealError.message },
-        { status: 500 }
-      )
-    }
-    
-    // Create deal products
-    const dealProducts = dealData.products.map(product => ({
-      deal_id: insertedDeal.id,
-      product_id: product.product_id,
-      quantity: product.quantity,
-      price: product.price
-    }))
-    
-    const { error: productsError } = await supabase
-      .from('deal_products')
-      .insert(dealProducts)
-    
-    if (productsError) {
-      console.error('Error creating deal products:', productsError)
-      // Rollback deal creation
-      await supabase.from('deals').delete().eq('id', insertedDeal.id)
-      return NextResponse.json(
-        { error: 'Failed to create deal products', details: productsError.message },
-        { status: 500 }
-      )
-    }
-    
-    // Detect conflicts
+    // Detect conflicts against the unsaved submission
     const conflictEngine = new ConflictDetectionEngine()
     const conflictResult = await conflictEngine.detectConflicts({
-      end_user: insertedEndUser,
+      resubmission_of: dealData.resubmission_of,
+      end_user: dealData.end_user,
       reseller_id: dealData.reseller_id,
       total_value: totalValue,
-      submission_date: insertedDeal.created_at
+      submission_date: new Date().toISOString(),
+      products: dealData.products
     })
     
-    // Create conflict records if any
-    if (conflictResult.hasConflicts) {
-      await conflictEngine.createConflictRecords(insertedDeal.id, conflictResult.conflicts)
-      
-      // Update deal status to disputed if high-severity conflicts
-      const hasHighSeverityConflicts = conflictResult.conflicts.some(c => c.severity === 'high')
-      if (hasHighSeverityConflicts) {
-        await supabase
-          .from('deals')
-          .update({ status: 'disputed' })
-          .eq('id', insertedDeal.id)
-      }
+    // Deals with high-severity conflicts start out disputed
+    const hasHighSeverityConflicts = conflictResult.conflicts.some(c => c.severity === 'high')
+    
+    // Write end user, deal, line items and conflicts in one transaction
+    const { data: dealId, error: submissionError } = await supabase.rpc('create_deal_submission', {
+      p_reseller_id: dealData.reseller_id,
+      p_end_user: {
+        ...dealData.end_user,
+        normalized_company_name: normalizeCompanyName(dealData.end_user.company_name)
+      },
+      p_products: dealData.products,
+      p_conflicts: conflictEngine.buildConflictRecords(conflictResult.conflicts),
+      p_status: hasHighSeverityConflicts ? 'disputed' : 'pending',
+      p_changed_by: auth.staffUser.id,
+      p_resubmission_of: dealData.resubmission_of ?? null,
+      // Any violation left at this point comes from a flag rule
+      p_eligibility_flags: eligibility.violations
+    })
+    
+    if (submissionError || !dealId) {
+      console.error('Error creating deal submission:', submissionError)
+      return NextResponse.json(
+        { error: 'Failed to create deal', details: submissionError?.message },
+        { status: 500 }
+      )
     }
     
+    // Settle the conflicts a tie-break policy can decide before anyone has to look at them
+    const autoResolution = await new ConflictAutoResolver().resolvePending(dealId)
+    // Whatever is left needs an owner
+    const assignment = await new ConflictAssigner().assignPending(dealId)
+    
     // Fetch the complete deal with relationships
     const { data: completeDeal, error: fetchError } = await supabase
       .from('deals')
       .select(`
         *,
-        reseller:resellers(*),
+        reseller:resellers!deals_reseller_id_fkey(*),
         end_user:end_users(*),
         products:deal_products(
           *,
           product:products(*)
         ),
-        conflicts:deal_conflicts(
+        conflicts:deal_conflicts!deal_conflicts_deal_id_fkey(
           *,
           competing_deal:deals!deal_conflicts_competing_deal_id_fkey(
             *,
-            reseller:resellers(*),
+            reseller:resellers!deals_reseller_id_fkey(*),
             end_user:end_users(*)
           )
         )
       `)
-      .eq('id', insertedDeal.id)
+      .eq('id', dealId)
       .single()
     
     if (fetchError) {
@@ -236,10 +250,21 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'create',
+      after: completeDeal
+    })
+    
     return NextResponse.json({
       data: {
         deal: completeDeal,
-        conflicts: conflictResult
+        conflicts: conflictResult,
+        autoResolution,
+        assignment,
+        eligibility
       },
       success: true,
       error: null
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { UpdateEligibilityRuleSchema, EligibilityRuleConditionsSchemas } from '@/lib/types'
+import type { TerritoryRuleConditions } from '@/lib/types'
+import { unknownRuleTerritories } from '@/lib/eligibility-rules'
+import { TerritoryHierarchy } from '@/lib/territories'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('rules:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: ruleId } = await params
+    
+    // Validate request body
+    const validation = UpdateEligibilityRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const { data: currentRule, error: fetchError } = await supabase
+      .from('eligibility_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .single()
+    
+    if (fetchError || !currentRule) {
+      return NextResponse.json(
+        { error: 'Eligibility rule not found' },
+        { status: 404 }
+      )
+    }
+    
+    const updateData: Record<string, unknown> = { ...validation.data }
+    
+    // Changing the type or the conditions re-validates the conditions against the resulting type
+    if (validation.data.rule_type || validation.data.conditions) {
+      const ruleType = validation.data.rule_type || currentRule.rule_type
+      const conditionsSchema = EligibilityRuleConditionsSchemas[ruleType as keyof typeof EligibilityRuleConditionsSchemas]
+      const conditionsValidation = conditionsSchema.safeParse(
+        validation.data.conditions || currentRule.conditions
+      )
+      
+      if (!conditionsValidation.success) {
+        return NextResponse.json(
+          { 
+            error: `Invalid conditions for ${ruleType} rule`, 
+            details: conditionsValidation.error.issues 
+          },
+          { status: 400 }
+        )
+      }
+      
+      if (ruleType === 'territory') {
+        const unknown = unknownRuleTerritories(
+          conditionsValidation.data as TerritoryRuleConditions,
+          await TerritoryHierarchy.load()
+        )
+        if (unknown.length > 0) {
+          return NextResponse.json(
+            { error: `Unknown territories in rule conditions: ${unknown.join(', ')}` },
+            { status: 400 }
+          )
+        }
+      }
+      
+      updateData.conditions = conditionsValidation.data
+    }
+    
+    const { data: updatedRule, error } = await supabase
+      .from('eligibility_rules')
+      .update(updateData)
+      .eq('id', ruleId)
+      .select()
+      .single()
+    
+    if (error) {
+      console.error('Error updating eligibility rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to update eligibility rule', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'eligibility_rule',
+      entityId: ruleId,
+      action: 'update',
+      before: currentRule,
+      after: updatedRule
+    })
+    
+    return NextResponse.json({
+      data: updatedRule,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('rules:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { id: ruleId } = await params
+    
+    const { data: deletedRule, error } = await supabase
+      .from('eligibility_rules')
+      .delete()
+      .eq('id', ruleId)
+      .select()
+      .maybeSingle()
+    
+    if (error) {
+      console.error('Error deleting eligibility rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete eligibility rule', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    if (!deletedRule) {
+      return NextResponse.json(
+        { error: 'Eligibility rule not found' },
+        { status: 404 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'eligibility_rule',
+      entityId: ruleId,
+      action: 'delete',
+      before: deletedRule
+    })
+    
+    return NextResponse.json({
+      data: deletedRule,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+import { CreateEligibilityRuleSchema } from '@/lib/types'
+import { unknownRuleTerritories } from '@/lib/eligibility-rules'
+import { TerritoryHierarchy } from '@/lib/territories'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('rules:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { searchParams } = new URL(request.url)
+    
+    // Parse query parameters
+    const rule_type = searchParams.get('rule_type')
+    const is_active = searchParams.get('is_active')
+    
+    // Build query
+    let query = supabase
+      .from('eligibility_rules')
+      .select('*')
+      .order('created_at', { ascending: true })
+    
+    // Apply filters
+    if (rule_type) {
+      query = query.eq('rule_type', rule_type)
+    }
+    
+    if (is_active !== null) {
+      query = query.eq('is_active', is_active === 'true')
+    }
+    
+    const { data: rules, error } = await query
+    
+    if (error) {
+      console.error('Error fetching eligibility rules:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch eligibility rules', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: rules || [],
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('rules:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    
+    // Validate request body, including the conditions shape for the rule type
+    const validation = CreateEligibilityRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    if (validation.data.rule_type === 'territory') {
+      const unknown = unknownRuleTerritories(validation.data.conditions, await TerritoryHierarchy.load())
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `Unknown territories in rule conditions: ${unknown.join(', ')}` },
+          { status: 400 }
+        )
+      }
+    }
+    
+    const { data: insertedRule, error } = await supabase
+      .from('eligibility_rules')
+      .insert(validation.data)
+      .select()
+      .single()
+    
+    if (error) {
+      console.error('Error creating eligibility rule:', error)
+      return NextResponse.json(
+        { error: 'Failed to create eligibility rule', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'eligibility_rule',
+      entityId: insertedRule.id,
+      action: 'create',
+      after: insertedRule
+    })
+    
+    return NextResponse.json({
+      data: insertedRule,
+      success: true,
+      error: null
+    }, { status: 201 })
+    
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { EndUserDeduplicator } from '@/lib/end-user-dedupe'
+import { authorize } from '@/lib/auth'
+
+// Clusters of end users that are likely the same customer, largest first
+export async function GET() {
+  try {
+    const auth = await authorize('end_users:read')
+    if (auth.response) return auth.response
+    
+    const clusters = await new EndUserDeduplicator().findClusters()
+    
+    return NextResponse.json({
+      data: clusters,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
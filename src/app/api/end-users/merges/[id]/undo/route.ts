@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Postgres raise_exception, used by undo_end_user_merge for merges that can't be reversed
+const RAISE_EXCEPTION = 'P0001'
+// Raised when a restored end user's territory has since been deleted
+const FOREIGN_KEY_VIOLATION = '23503'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('end_users:merge')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { id: mergeId } = await params
+    
+    const { error: undoError } = await supabase.rpc('undo_end_user_merge', {
+      p_merge_id: mergeId,
+      p_undone_by: auth.staffUser.id
+    })
+    
+    if (undoError) {
+      if (undoError.code === RAISE_EXCEPTION || undoError.code === FOREIGN_KEY_VIOLATION) {
+        return NextResponse.json(
+          { error: undoError.message },
+          { status: 409 }
+        )
+      }
+      
+      console.error('Error undoing end user merge:', undoError)
+      return NextResponse.json(
+        { error: 'Failed to undo merge', details: undoError.message },
+        { status: 500 }
+      )
+    }
+    
+    const { data: merge, error: fetchError } = await supabase
+      .from('end_user_merges')
+      .select('*')
+      .eq('id', mergeId)
+      .single()
+    
+    if (fetchError || !merge) {
+      console.error('Error fetching end user merge:', fetchError)
+      return NextResponse.json(
+        { error: 'Merge undone but failed to fetch the merge record' },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'end_user_merge',
+      entityId: mergeId,
+      action: 'undo',
+      before: { undone_at: null },
+      after: { undone_at: merge.undone_at, restored_end_users: merge.merged_end_users }
+    })
+    
+    return NextResponse.json({
+      data: merge,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MergeEndUsersSchema } from '@/lib/types'
+import { TerritoryHierarchy } from '@/lib/territories'
+import { normalizeCompanyName } from '@/lib/company-names'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Postgres raise_exception, used by merge_end_users for merges that can't go ahead
+const RAISE_EXCEPTION = 'P0001'
+
+const MERGE_SELECT = `
+  *,
+  survivor:end_users!end_user_merges_survivor_id_fkey(id, company_name),
+  merged_by_staff:staff_users!end_user_merges_merged_by_fkey(name),
+  undone_by_staff:staff_users!end_user_merges_undone_by_fkey(name)
+`
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('end_users:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '20')
+    
+    const { data: merges, error } = await supabase
+      .from('end_user_merges')
+      .select(MERGE_SELECT)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+    
+    if (error) {
+      console.error('Error fetching end user merges:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch merges', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: merges || [],
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('end_users:merge')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    
+    // Validate request body
+    const validation = MergeEndUsersSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const { survivor_id, merged_ids, values } = validation.data
+    
+    if (values.territory) {
+      const territories = await TerritoryHierarchy.load()
+      if (!territories.find(values.territory)) {
+        return NextResponse.json(
+          { error: `Unknown territory: ${values.territory}` },
+          { status: 400 }
+        )
+      }
+    }
+    
+    const { data: mergeId, error: mergeError } = await supabase.rpc('merge_end_users', {
+      p_survivor_id: survivor_id,
+      p_merged_ids: [...new Set(merged_ids)],
+      p_values: values.company_name
+        ? { ...values, normalized_company_name: normalizeCompanyName(values.company_name) }
+        : values,
+      p_merged_by: auth.staffUser.id
+    })
+    
+    if (mergeError) {
+      if (mergeError.code === RAISE_EXCEPTION) {
+        return NextResponse.json(
+          { error: mergeError.message },
+          { status: 409 }
+        )
+      }
+      
+      console.error('Error merging end users:', mergeError)
+      return NextResponse.json(
+        { error: 'Failed to merge end users', details: mergeError.message },
+        { status: 500 }
+      )
+    }
+    
+    const { data: merge, error: fetchError } = await supabase
+      .from('end_user_merges')
+      .select(MERGE_SELECT)
+      .eq('id', mergeId)
+      .single()
+    
+    if (fetchError || !merge) {
+      console.error('Error fetching end user merge:', fetchError)
+      return NextResponse.json(
+        { error: 'End users merged but failed to fetch the merge record' },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'end_user_merge',
+      entityId: merge.id,
+      action: 'merge',
+      before: merge.survivor_before,
+      after: { ...merge.survivor_before, ...values, merged_end_users: merge.merged_end_users }
+    })
+    
+    return NextResponse.json({
+      data: merge,
+      success: true,
+      error: null
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
+import { TerritoryHierarchy } from '@/lib/territories'
+import { normalizeCompanyName } from '@/lib/company-names'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('end_users:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const { searchParams } = new URL(request.url)
     
     // Parse query parameters
@@ -67,7 +73,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('end_users:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const body = await request.json()
     
     // Validate required fields
@@ -80,6 +89,15 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
     
+    // Territories come from the configured hierarchy
+    const territories = await TerritoryHierarchy.load()
+    if (!territories.find(territory)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown territory: ${territory}`
+      }, { status: 400 })
+    }
+    
     // Check for duplicate company in same territory
     const { data: existing } = await supabase
       .from('end_users')
@@ -100,6 +118,7 @@ export async function POST(request: NextRequest) {
       .from('end_users')
       .insert([{
         company_name,
+        normalized_company_name: normalizeCompanyName(company_name),
         contact_name,
         contact_email,
         territory
@@ -116,6 +135,14 @@ export async function POST(request: NextRequest) {
       }, { status: 500 })
     }
     
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'end_user',
+      entityId: endUser.id,
+      action: 'create',
+      after: endUser
+    })
+    
     return NextResponse.json({
       success: true,
       data: endUser,
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 import { ProductSchema } from '@/lib/types'
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('products:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const { searchParams } = new URL(request.url)
     
     // Parse query parameters
@@ -68,7 +72,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('products:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const body = await request.json()
     
     // Validate request body
@@ -99,6 +106,14 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'product',
+      entityId: insertedProduct.id,
+      action: 'create',
+      after: insertedProduct
+    })
+    
     return NextResponse.json({
       data: insertedProduct,
       success: true,
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createServerComponentClient } from '@/lib/supabase'
+import { TerritoryHierarchy } from '@/lib/territories'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
 import { ResellerSchema } from '@/lib/types'
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('resellers:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const { searchParams } = new URL(request.url)
     
     // Parse query parameters
@@ -78,7 +83,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createServerComponentClient()
+    const auth = await authorize('resellers:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
     const body = await request.json()
     
     // Validate request body
@@ -95,6 +103,15 @@ export async function POST(request: NextRequest) {
     
     const resellerData = validation.data
     
+    // Territories come from the configured hierarchy
+    const territories = await TerritoryHierarchy.load()
+    if (!territories.find(resellerData.territory)) {
+      return NextResponse.json(
+        { error: `Unknown territory: ${resellerData.territory}` },
+        { status: 400 }
+      )
+    }
+    
     const { data: insertedReseller, error } = await supabase
       .from('resellers')
       .insert(resellerData)
@@ -109,6 +126,14 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'reseller',
+      entityId: insertedReseller.id,
+      action: 'create',
+      after: insertedReseller
+    })
+    
     return NextResponse.json({
       data: insertedReseller,
       success: true,
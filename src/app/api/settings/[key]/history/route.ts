@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSettingHistory, isSettingKey } from '@/lib/settings'
+import { authorize } from '@/lib/auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await authorize('settings:read')
+    if (auth.response) return auth.response
+    
+    const { key } = await params
+    
+    if (!isSettingKey(key)) {
+      return NextResponse.json(
+        { error: `Unknown setting: ${key}` },
+        { status: 404 }
+      )
+    }
+    
+    const versions = await getSettingHistory(key)
+    
+    return NextResponse.json({
+      data: versions,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SETTING_SCHEMAS, getSetting, isSettingKey, updateSetting } from '@/lib/settings'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await authorize('settings:read')
+    if (auth.response) return auth.response
+    
+    const { key } = await params
+    
+    if (!isSettingKey(key)) {
+      return NextResponse.json(
+        { error: `Unknown setting: ${key}` },
+        { status: 404 }
+      )
+    }
+    
+    const value = await getSetting(key)
+    
+    return NextResponse.json({
+      data: value,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const auth = await authorize('settings:manage')
+    if (auth.response) return auth.response
+    
+    const body = await request.json()
+    const { key } = await params
+    
+    if (!isSettingKey(key)) {
+      return NextResponse.json(
+        { error: `Unknown setting: ${key}` },
+        { status: 404 }
+      )
+    }
+    
+    // Validate request body
+    const validation = SETTING_SCHEMAS[key].safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid setting value',
+          details: validation.error.issues
+        },
+        { status: 400 }
+      )
+    }
+    
+    const previous = await getSetting(key)
+    const value = await updateSetting(key, validation.data, auth.staffUser.id)
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'setting',
+      entityId: key,
+      action: 'update',
+      before: previous,
+      after: value
+    })
+    
+    return NextResponse.json({
+      data: value,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UpdateStaffTerritoriesSchema } from '@/lib/types'
+import { TerritoryHierarchy } from '@/lib/territories'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Replaces the territories a staff member is routed conflicts for
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('staff:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: staffId } = await params
+    
+    // Validate request body
+    const validation = UpdateStaffTerritoriesSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const territoryIds = [...new Set(validation.data.territory_ids)]
+    
+    const territories = await TerritoryHierarchy.load()
+    const unknown = territoryIds.filter(id => !territories.find(id))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: 'Territory not found', details: unknown },
+        { status: 400 }
+      )
+    }
+    
+    const { data: staffUser, error: staffError } = await supabase
+      .from('staff_users')
+      .select('id, territories:staff_territories(territory_id)')
+      .eq('id', staffId)
+      .maybeSingle()
+    
+    if (staffError) {
+      console.error('Error fetching staff user:', staffError)
+      return NextResponse.json(
+        { error: 'Failed to fetch staff user', details: staffError.message },
+        { status: 500 }
+      )
+    }
+    
+    if (!staffUser) {
+      return NextResponse.json(
+        { error: 'Staff user not found' },
+        { status: 404 }
+      )
+    }
+    
+    const previousIds = (staffUser.territories || []).map((t: { territory_id: string }) => t.territory_id)
+    
+    const { error: deleteError } = await supabase
+      .from('staff_territories')
+      .delete()
+      .eq('staff_id', staffId)
+    
+    if (deleteError) {
+      console.error('Error clearing staff territories:', deleteError)
+      return NextResponse.json(
+        { error: 'Failed to update staff territories', details: deleteError.message },
+        { status: 500 }
+      )
+    }
+    
+    if (territoryIds.length > 0) {
+      const { error: insertError } = await supabase
+        .from('staff_territories')
+        .insert(territoryIds.map(territory_id => ({ staff_id: staffId, territory_id })))
+      
+      if (insertError) {
+        console.error('Error saving staff territories:', insertError)
+        return NextResponse.json(
+          { error: 'Failed to update staff territories', details: insertError.message },
+          { status: 500 }
+        )
+      }
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'staff_user',
+      entityId: staffId,
+      action: 'update_territories',
+      before: { territory_ids: previousIds },
+      after: { territory_ids: territoryIds }
+    })
+    
+    return NextResponse.json({
+      data: { staff_id: staffId, territory_ids: territoryIds },
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { authorize } from '@/lib/auth'
+
+// Staff with their territory expertise and how many pending conflicts each holds
+export async function GET() {
+  try {
+    const auth = await authorize('staff:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    
+    const { data: staff, error } = await supabase
+      .from('staff_users')
+      .select(`
+        *,
+        territories:staff_territories(territory_id)
+      `)
+      .order('name', { ascending: true })
+    
+    if (error) {
+      console.error('Error fetching staff:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch staff', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    const { data: openConflicts, error: conflictsError } = await supabase
+      .from('deal_conflicts')
+      .select('assigned_to_staff')
+      .eq('resolution_status', 'pending')
+      .not('assigned_to_staff', 'is', null)
+    
+    if (conflictsError) {
+      console.error('Error counting open conflicts:', conflictsError)
+      return NextResponse.json(
+        { error: 'Failed to count open conflicts', details: conflictsError.message },
+        { status: 500 }
+      )
+    }
+    
+    const counts = new Map<string, number>()
+    for (const conflict of openConflicts || []) {
+      counts.set(conflict.assigned_to_staff, (counts.get(conflict.assigned_to_staff) || 0) + 1)
+    }
+    
+    return NextResponse.json({
+      data: (staff || []).map(({ territories, ...member }) => ({
+        ...member,
+        territory_ids: (territories || []).map((t: { territory_id: string }) => t.territory_id),
+        open_conflicts: counts.get(member.id) || 0
+      })),
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UpdateTerritorySchema } from '@/lib/types'
+import { TerritoryHierarchy } from '@/lib/territories'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Postgres unique_violation, raised for a duplicate territory name
+const UNIQUE_VIOLATION = '23505'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('territories:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    const { id: territoryId } = await params
+    
+    // Validate request body
+    const validation = UpdateTerritorySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const territories = await TerritoryHierarchy.load()
+    const currentTerritory = territories.find(territoryId)
+    
+    if (!currentTerritory) {
+      return NextResponse.json(
+        { error: 'Territory not found' },
+        { status: 404 }
+      )
+    }
+    
+    const { parent_id } = validation.data
+    
+    if (parent_id) {
+      if (!territories.find(parent_id)) {
+        return NextResponse.json(
+          { error: 'Parent territory not found' },
+          { status: 400 }
+        )
+      }
+      
+      // Moving a territory beneath itself would cut the branch off the tree
+      if (territories.contains(territoryId, parent_id)) {
+        return NextResponse.json(
+          { error: `"${currentTerritory.name}" cannot be moved beneath itself or one of its children` },
+          { status: 400 }
+        )
+      }
+    }
+    
+    const { data: updatedTerritory, error } = await supabase
+      .from('territories')
+      .update(validation.data)
+      .eq('id', territoryId)
+      .select()
+      .single()
+    
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json(
+          { error: `A territory named "${validation.data.name}" already exists` },
+          { status: 409 }
+        )
+      }
+      
+      console.error('Error updating territory:', error)
+      return NextResponse.json(
+        { error: 'Failed to update territory', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'territory',
+      entityId: territoryId,
+      action: 'update',
+      before: currentTerritory,
+      after: updatedTerritory
+    })
+    
+    return NextResponse.json({
+      data: updatedTerritory,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('territories:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const { id: territoryId } = await params
+    
+    const territories = await TerritoryHierarchy.load()
+    const currentTerritory = territories.find(territoryId)
+    
+    if (!currentTerritory) {
+      return NextResponse.json(
+        { error: 'Territory not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Only leaves nobody refers to can go; anything else has to be moved or reassigned first
+    const [children, resellers, endUsers, rules] = await Promise.all([
+      supabase.from('territories').select('*', { count: 'exact', head: true }).eq('parent_id', territoryId),
+      supabase.from('resellers').select('*', { count: 'exact', head: true }).eq('territory_id', territoryId),
+      supabase.from('end_users').select('*', { count: 'exact', head: true }).eq('territory_id', territoryId),
+      supabase.from('eligibility_rules').select('*', { count: 'exact', head: true })
+        .contains('conditions', { allowed_territories: [territoryId] }),
+    ])
+    
+    if (children.count) {
+      return NextResponse.json(
+        { error: `"${currentTerritory.name}" still has ${children.count} child territories` },
+        { status: 409 }
+      )
+    }
+    
+    if (resellers.count || endUsers.count) {
+      return NextResponse.json(
+        { error: `"${currentTerritory.name}" is still assigned to ${resellers.count || 0} resellers and ${endUsers.count || 0} end users` },
+        { status: 409 }
+      )
+    }
+    
+    if (rules.count) {
+      return NextResponse.json(
+        { error: `"${currentTerritory.name}" is still allowed by ${rules.count} eligibility rules` },
+        { status: 409 }
+      )
+    }
+    
+    const { error } = await supabase
+      .from('territories')
+      .delete()
+      .eq('id', territoryId)
+    
+    if (error) {
+      console.error('Error deleting territory:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete territory', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'territory',
+      entityId: territoryId,
+      action: 'delete',
+      before: currentTerritory
+    })
+    
+    return NextResponse.json({
+      data: currentTerritory,
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
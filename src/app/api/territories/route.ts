@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CreateTerritorySchema } from '@/lib/types'
+import { authorize } from '@/lib/auth'
+import { recordAuditEvent } from '@/lib/audit'
+
+// Postgres unique_violation, raised for a duplicate territory name
+const UNIQUE_VIOLATION = '23505'
+
+export async function GET() {
+  try {
+    const auth = await authorize('territories:read')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    
+    const { data: territories, error } = await supabase
+      .from('territories')
+      .select('*')
+      .order('name', { ascending: true })
+    
+    if (error) {
+      console.error('Error fetching territories:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch territories', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      data: territories || [],
+      success: true,
+      error: null
+    })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('territories:manage')
+    if (auth.response) return auth.response
+    
+    const { supabase } = auth
+    const body = await request.json()
+    
+    // Validate request body
+    const validation = CreateTerritorySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid request data', 
+          details: validation.error.issues 
+        },
+        { status: 400 }
+      )
+    }
+    
+    const { data: insertedTerritory, error } = await supabase
+      .from('territories')
+      .insert(validation.data)
+      .select()
+      .single()
+    
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return NextResponse.json(
+          { error: `A territory named "${validation.data.name}" already exists` },
+          { status: 409 }
+        )
+      }
+      
+      console.error('Error creating territory:', error)
+      return NextResponse.json(
+        { error: 'Failed to create territory', details: error.message },
+        { status: 500 }
+      )
+    }
+    
+    await recordAuditEvent({
+      actorId: auth.staffUser.id,
+      entityType: 'territory',
+      entityId: insertedTerritory.id,
+      action: 'create',
+      after: insertedTerritory
+    })
+    
+    return NextResponse.json({
+      data: insertedTerritory,
+      success: true,
+      error: null
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
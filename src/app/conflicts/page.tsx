@@ -6,16 +6,33 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { formatCurrency, formatDate, capitalizeFirst } from '@/lib/utils'
-import { AlertTriangle, Users, MapPin, Clock, CheckCircle, X } from 'lucide-react'
+import { getConflictPriority } from '@/lib/conflict-priority'
+import { RESOLUTION_REASON_LABELS, AUTO_RESOLUTION_POLICY_LABELS } from '@/lib/conflict-resolution'
+import { ConflictCommentThread, type MentionableStaff } from '@/components/conflicts/conflict-comment-thread'
+import type { ResolveConflict, AutoResolutionPolicy } from '@/lib/types'
+import { AlertTriangle, Users, MapPin, Clock, Package, CheckCircle, X, ListOrdered, MessageSquare } from 'lucide-react'
+import Link from 'next/link'
 
 interface Conflict {
   id: string
   conflict_type: string
+  severity: 'high' | 'medium' | 'low' | null
+  similarity_score: number | null
+  reason: string | null
   resolution_status: string
+  winning_deal_id: string | null
+  losing_deal_status: string | null
+  resolution_reason: ResolveConflict['reason_code'] | null
+  resolution_rationale: string | null
+  auto_resolution_policy: AutoResolutionPolicy['policy'] | null
   created_at: string
+  assigned_staff?: {
+    name: string
+  } | null
   deal: {
     id: string
     total_value: number
+    submission_date: string
     reseller: {
       id: string
       name: string
@@ -29,6 +46,7 @@ interface Conflict {
   competing_deal: {
     id: string
     total_value: number
+    submission_date: string
     reseller: {
       id: string
       name: string
@@ -41,17 +59,28 @@ interface Conflict {
   }
 }
 
+type ResolutionForm = ResolveConflict & { conflict_id: string }
+
 export default function ConflictsPage() {
   const [conflicts, setConflicts] = useState<Conflict[]>([])
   const [loading, setLoading] = useState(true)
   const [statusFilter, setStatusFilter] = useState('pending')
   const [typeFilter, setTypeFilter] = useState('')
+  const [severityFilter, setSeverityFilter] = useState('')
+  const [sort, setSort] = useState('severity')
+  const [mineOnly, setMineOnly] = useState(false)
+  const [staff, setStaff] = useState<MentionableStaff[]>([])
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set())
+  const [resolution, setResolution] = useState<ResolutionForm | null>(null)
+  const [resolveError, setResolveError] = useState<string | null>(null)
+  const [resolving, setResolving] = useState(false)
 
   const loadConflicts = useCallback(async () => {
     try {
       setLoading(true)
       const params = new URLSearchParams({
-        limit: '50'
+        limit: '50',
+        sort
       })
 
       if (statusFilter) {
@@ -62,6 +91,14 @@ export default function ConflictsPage() {
         params.append('conflict_type', typeFilter)
       }
 
+      if (severityFilter) {
+        params.append('severity', severityFilter)
+      }
+
+      if (mineOnly) {
+        params.append('assigned_to_staff', 'me')
+      }
+
       const response = await fetch(`/api/conflicts?${params}`)
       if (response.ok) {
         const result = await response.json()
@@ -72,45 +109,80 @@ export default function ConflictsPage() {
     } finally {
       setLoading(false)
     }
-  }, [statusFilter, typeFilter])
+  }, [statusFilter, typeFilter, severityFilter, sort, mineOnly])
 
   useEffect(() => {
     loadConflicts()
-  }, [statusFilter, typeFilter, loadConflicts])
+  }, [statusFilter, typeFilter, severityFilter, sort, mineOnly, loadConflicts])
+
+  // Staff who can be @mentioned in notes
+  useEffect(() => {
+    const loadStaff = async () => {
+      try {
+        const response = await fetch('/api/staff')
+        if (response.ok) {
+          const result = await response.json()
+          setStaff(result.data)
+        }
+      } catch (error) {
+        console.error('Error loading staff:', error)
+      }
+    }
+
+    loadStaff()
+  }, [])
+
+  const toggleThread = (conflictId: string) => {
+    setOpenThreads(current => {
+      const next = new Set(current)
+      if (next.has(conflictId)) {
+        next.delete(conflictId)
+      } else {
+        next.add(conflictId)
+      }
+      return next
+    })
+  }
+
+  const openResolution = (conflictId: string, winningDealId: string) => {
+    setResolution({
+      conflict_id: conflictId,
+      winning_deal_id: winningDealId,
+      losing_deal_status: 'rejected',
+      reason_code: 'first_to_register',
+      rationale: ''
+    })
+    setResolveError(null)
+  }
+
+  const handleResolveConflict = async () => {
+    if (!resolution) return
+    const { conflict_id, ...outcome } = resolution
+    setResolving(true)
+    setResolveError(null)
 
-  const handleResolveConflict = async (conflictId: string, dealId: string, assignedResellerId: string) => {
     try {
-      // Assign the deal
-      const assignResponse = await fetch(`/api/deals/${dealId}/assign`, {
+      const response = await fetch(`/api/conflicts/${conflict_id}/resolve`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          assigned_reseller_id: assignedResellerId,
-          reason: 'Conflict resolution'
-        }),
+        body: JSON.stringify(outcome),
       })
 
-      if (assignResponse.ok) {
-        // Update conflict status
-        const conflictResponse = await fetch('/api/conflicts', {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            conflict_id: conflictId,
-            resolution_status: 'resolved'
-          }),
-        })
-
-        if (conflictResponse.ok) {
-          loadConflicts() // Reload the list
-        }
+      const result = await response.json()
+      if (response.ok) {
+        setResolution(null)
+        loadConflicts() // Reload the list
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setResolveError([result.error, ...issues.map(i => i.message)].join(': '))
       }
     } catch (error) {
       console.error('Error resolving conflict:', error)
+      setResolveError('Error resolving conflict')
+    } finally {
+      setResolving(false)
     }
   }
 
@@ -143,6 +215,8 @@ export default function ConflictsPage() {
         return <MapPin className="h-5 w-5" />
       case 'timing_conflict':
         return <Clock className="h-5 w-5" />
+      case 'product_overlap':
+        return <Package className="h-5 w-5" />
       default:
         return <AlertTriangle className="h-5 w-5" />
     }
@@ -156,22 +230,13 @@ export default function ConflictsPage() {
         return 'text-orange-600 bg-orange-100'
       case 'timing_conflict':
         return 'text-yellow-600 bg-yellow-100'
+      case 'product_overlap':
+        return 'text-purple-600 bg-purple-100'
       default:
         return 'text-gray-600 bg-gray-100'
     }
   }
 
-  const getPriorityLevel = (conflict: Conflict) => {
-    const dealValue = Math.max(conflict.deal.total_value, conflict.competing_deal.total_value)
-    const daysSinceCreated = Math.floor(
-      (new Date().getTime() - new Date(conflict.created_at).getTime()) / (1000 * 60 * 60 * 24)
-    )
-
-    if (dealValue > 100000 || daysSinceCreated > 7) return 'high'
-    if (dealValue > 50000 || daysSinceCreated > 3) return 'medium'
-    return 'low'
-  }
-
   return (
     <MainLayout 
       title="Deal Conflicts" 
@@ -200,7 +265,44 @@ export default function ConflictsPage() {
             <option value="duplicate_end_user">Duplicate End User</option>
             <option value="territory_overlap">Territory Overlap</option>
             <option value="timing_conflict">Timing Conflict</option>
+            <option value="product_overlap">Product Overlap</option>
+          </select>
+
+          <select
+            value={severityFilter}
+            onChange={(e) => setSeverityFilter(e.target.value)}
+            className="px-3 py-2 border rounded-md"
+          >
+            <option value="">All Severities</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value)}
+            className="px-3 py-2 border rounded-md"
+          >
+            <option value="severity">Most Severe First</option>
+            <option value="created_at">Newest First</option>
           </select>
+
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={mineOnly}
+              onChange={(e) => setMineOnly(e.target.checked)}
+            />
+            <span>My conflicts</span>
+          </label>
+
+          <Link href="/conflicts/queue" className="ml-auto">
+            <Button variant="outline">
+              <ListOrdered className="h-4 w-4 mr-2" />
+              Triage Queue
+            </Button>
+          </Link>
         </div>
 
         {/* Conflicts List */}
@@ -219,122 +321,237 @@ export default function ConflictsPage() {
             </Card>
           ) : (
             conflicts.map((conflict) => {
-              const priority = getPriorityLevel(conflict)
+              const priority = getConflictPriority(conflict)
               return (
-                <Card key={conflict.id} className="border-l-4 border-l-orange-400">
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <div className={`p-2 rounded-full ${getConflictColor(conflict.conflict_type)}`}>
-                          {getConflictIcon(conflict.conflict_type)}
-                        </div>
-                        <div>
-                          <CardTitle className="text-lg">
-                            {capitalizeFirst(conflict.conflict_type.replace('_', ' '))}
-                          </CardTitle>
-                          <p className="text-sm text-gray-600">
-                            {conflict.deal.end_user.company_name}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Badge 
-                          variant={priority === 'high' ? 'error' : priority === 'medium' ? 'warning' : 'secondary'}
-                        >
-                          {priority} priority
-                        </Badge>
-                        <Badge variant={conflict.resolution_status === 'pending' ? 'warning' : 'success'}>
-                          {conflict.resolution_status}
-                        </Badge>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {/* Deal 1 */}
-                      <div className="border rounded-lg p-4">
-                        <h4 className="font-semibold mb-3 text-blue-600">Deal #1</h4>
-                        <div className="space-y-2 text-sm">
-                          <div>
-                            <span className="font-medium">End User:</span> {conflict.deal.end_user.company_name}
+                <div key={conflict.id} className="flex flex-col lg:flex-row lg:items-start gap-4">
+                  <Card className="flex-1 border-l-4 border-l-orange-400">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <div className={`p-2 rounded-full ${getConflictColor(conflict.conflict_type)}`}>
+                            {getConflictIcon(conflict.conflict_type)}
                           </div>
                           <div>
-                            <span className="font-medium">Reseller:</span> {conflict.deal.reseller.name}
+                            <CardTitle className="text-lg">
+                              {capitalizeFirst(conflict.conflict_type.replace('_', ' '))}
+                            </CardTitle>
+                            <p className="text-sm text-gray-600">
+                              {conflict.deal.end_user.company_name}
+                              <span className="text-gray-400">
+                                {' '}&middot; {conflict.assigned_staff?.name || 'Unassigned'}
+                              </span>
+                            </p>
                           </div>
-                          <div>
-                            <span className="font-medium">Territory:</span> {conflict.deal.reseller.territory}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {conflict.severity ? (
+                            <Badge
+                              variant={conflict.severity === 'high' ? 'error' : conflict.severity === 'medium' ? 'warning' : 'secondary'}
+                            >
+                              {conflict.severity} severity
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">unscored</Badge>
+                          )}
+                          <Badge 
+                            variant={priority === 'high' ? 'error' : priority === 'medium' ? 'warning' : 'secondary'}
+                          >
+                            {priority} priority
+                          </Badge>
+                          <Badge variant={conflict.resolution_status === 'pending' ? 'warning' : 'success'}>
+                            {conflict.resolution_status}
+                          </Badge>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {(conflict.reason || conflict.similarity_score !== null) && (
+                        <div className="mb-4 text-sm text-gray-700">
+                          {conflict.reason}
+                          {conflict.similarity_score !== null && (
+                            <span className="ml-2 text-gray-500">
+                              ({Math.round(conflict.similarity_score * 100)}% similar)
+                            </span>
+                          )}
+                        </div>
+                      )}
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {/* Deal 1 */}
+                        <div className="border rounded-lg p-4">
+                          <h4 className="font-semibold mb-3 text-blue-600">Deal #1</h4>
+                          <div className="space-y-2 text-sm">
+                            <div>
+                              <span className="font-medium">End User:</span> {conflict.deal.end_user.company_name}
+                            </div>
+                            <div>
+                              <span className="font-medium">Reseller:</span> {conflict.deal.reseller.name}
+                            </div>
+                            <div>
+                              <span className="font-medium">Territory:</span> {conflict.deal.reseller.territory}
+                            </div>
+                            <div>
+                              <span className="font-medium">Value:</span> {formatCurrency(conflict.deal.total_value)}
+                            </div>
                           </div>
-                          <div>
-                            <span className="font-medium">Value:</span> {formatCurrency(conflict.deal.total_value)}
+                          {conflict.resolution_status === 'pending' && (
+                            <Button
+                              className="w-full mt-3"
+                              size="sm"
+                              onClick={() => openResolution(conflict.id, conflict.deal.id)}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Resolve in Favour of This Deal
+                            </Button>
+                          )}
+                        </div>
+
+                        {/* Deal 2 */}
+                        <div className="border rounded-lg p-4">
+                          <h4 className="font-semibold mb-3 text-green-600">Deal #2</h4>
+                          <div className="space-y-2 text-sm">
+                            <div>
+                              <span className="font-medium">End User:</span> {conflict.competing_deal.end_user.company_name}
+                            </div>
+                            <div>
+                              <span className="font-medium">Reseller:</span> {conflict.competing_deal.reseller.name}
+                            </div>
+                            <div>
+                              <span className="font-medium">Territory:</span> {conflict.competing_deal.reseller.territory}
+                            </div>
+                            <div>
+                              <span className="font-medium">Value:</span> {formatCurrency(conflict.competing_deal.total_value)}
+                            </div>
                           </div>
+                          {conflict.resolution_status === 'pending' && (
+                            <Button
+                              className="w-full mt-3"
+                              size="sm"
+                              onClick={() => openResolution(conflict.id, conflict.competing_deal.id)}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Resolve in Favour of This Deal
+                            </Button>
+                          )}
                         </div>
-                        {conflict.resolution_status === 'pending' && (
-                          <Button
-                            className="w-full mt-3"
-                            size="sm"
-                            onClick={() => handleResolveConflict(
-                              conflict.id,
-                              conflict.deal.id,
-                              conflict.deal.reseller.id
-                            )}
-                          >
-                            <CheckCircle className="h-4 w-4 mr-2" />
-                            Assign to This Reseller
-                          </Button>
-                        )}
                       </div>
 
-                      {/* Deal 2 */}
-                      <div className="border rounded-lg p-4">
-                        <h4 className="font-semibold mb-3 text-green-600">Deal #2</h4>
-                        <div className="space-y-2 text-sm">
-                          <div>
-                            <span className="font-medium">End User:</span> {conflict.competing_deal.end_user.company_name}
+                      {resolution?.conflict_id === conflict.id && (
+                        <div className="border rounded-lg p-4 mt-4 space-y-4 bg-gray-50">
+                          <h4 className="font-semibold">
+                            Resolve in favour of {resolution.winning_deal_id === conflict.deal.id
+                              ? conflict.deal.reseller.name
+                              : conflict.competing_deal.reseller.name}
+                          </h4>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium mb-2">Reason</label>
+                              <select
+                                value={resolution.reason_code}
+                                onChange={(e) => setResolution({
+                                  ...resolution,
+                                  reason_code: e.target.value as ResolveConflict['reason_code']
+                                })}
+                                className="w-full p-2 border rounded-md"
+                              >
+                                {Object.entries(RESOLUTION_REASON_LABELS).map(([code, label]) => (
+                                  <option key={code} value={code}>{label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium mb-2">Losing deal becomes</label>
+                              <select
+                                value={resolution.losing_deal_status}
+                                onChange={(e) => setResolution({
+                                  ...resolution,
+                                  losing_deal_status: e.target.value as ResolveConflict['losing_deal_status']
+                                })}
+                                className="w-full p-2 border rounded-md"
+                              >
+                                <option value="rejected">Rejected</option>
+                                <option value="disputed">Disputed</option>
+                              </select>
+                            </div>
                           </div>
                           <div>
-                            <span className="font-medium">Reseller:</span> {conflict.competing_deal.reseller.name}
+                            <label className="block text-sm font-medium mb-2">Rationale</label>
+                            <textarea
+                              value={resolution.rationale}
+                              onChange={(e) => setResolution({ ...resolution, rationale: e.target.value })}
+                              rows={3}
+                              className="w-full p-2 border rounded-md text-sm"
+                              placeholder="Why this deal wins the conflict"
+                            />
                           </div>
-                          <div>
-                            <span className="font-medium">Territory:</span> {conflict.competing_deal.reseller.territory}
+
+                          {resolveError && <p className="text-sm text-red-600">{resolveError}</p>}
+
+                          <div className="flex justify-end space-x-2">
+                            <Button variant="outline" onClick={() => setResolution(null)}>Cancel</Button>
+                            <Button
+                              onClick={handleResolveConflict}
+                              disabled={resolving || !resolution.rationale.trim()}
+                            >
+                              {resolving ? 'Resolving...' : 'Resolve Conflict'}
+                            </Button>
                           </div>
+                        </div>
+                      )}
+
+                      {conflict.resolution_status === 'resolved' && conflict.winning_deal_id && (
+                        <div className="border rounded-lg p-4 mt-4 text-sm space-y-1">
                           <div>
-                            <span className="font-medium">Value:</span> {formatCurrency(conflict.competing_deal.total_value)}
+                            <span className="font-medium">Won by:</span>{' '}
+                            {conflict.winning_deal_id === conflict.deal.id
+                              ? conflict.deal.reseller.name
+                              : conflict.competing_deal.reseller.name}
+                            {conflict.losing_deal_status && (
+                              <span className="text-gray-500"> (losing deal {conflict.losing_deal_status})</span>
+                            )}
+                            {conflict.auto_resolution_policy && (
+                              <Badge variant="secondary" className="ml-2">
+                                Automatic: {AUTO_RESOLUTION_POLICY_LABELS[conflict.auto_resolution_policy]}
+                              </Badge>
+                            )}
                           </div>
+                          {conflict.resolution_reason && (
+                            <div>
+                              <span className="font-medium">Reason:</span>{' '}
+                              {RESOLUTION_REASON_LABELS[conflict.resolution_reason]}
+                            </div>
+                          )}
+                          {conflict.resolution_rationale && (
+                            <div className="text-gray-600">{conflict.resolution_rationale}</div>
+                          )}
                         </div>
-                        {conflict.resolution_status === 'pending' && (
+                      )}
+
+                      {conflict.resolution_status === 'pending' && (
+                        <div className="flex justify-center mt-4">
                           <Button
-                            className="w-full mt-3"
-                            size="sm"
-                            onClick={() => handleResolveConflict(
-                              conflict.id,
-                              conflict.competing_deal.id,
-                              conflict.competing_deal.reseller.id
-                            )}
+                            variant="outline"
+                            onClick={() => handleDismissConflict(conflict.id)}
                           >
-                            <CheckCircle className="h-4 w-4 mr-2" />
-                            Assign to This Reseller
+                            <X className="h-4 w-4 mr-2" />
+                            Dismiss Conflict
                           </Button>
-                        )}
-                      </div>
-                    </div>
-
-                    {conflict.resolution_status === 'pending' && (
-                      <div className="flex justify-center mt-4">
-                        <Button
-                          variant="outline"
-                          onClick={() => handleDismissConflict(conflict.id)}
-                        >
-                          <X className="h-4 w-4 mr-2" />
-                          Dismiss Conflict
+                        </div>
+                      )}
+
+                      <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
+                        <span>Conflict detected on {formatDate(conflict.created_at)}</span>
+                        <Button variant="ghost" size="sm" onClick={() => toggleThread(conflict.id)}>
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          {openThreads.has(conflict.id) ? 'Hide Notes' : 'Notes'}
                         </Button>
                       </div>
-                    )}
-
-                    <div className="mt-4 text-xs text-gray-500">
-                      Conflict detected on {formatDate(conflict.created_at)}
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                  {openThreads.has(conflict.id) && (
+                    <ConflictCommentThread conflictId={conflict.id} staff={staff} className="w-full lg:w-96" />
+                  )}
+                </div>
               )
             })
           )}
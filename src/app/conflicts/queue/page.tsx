@@ -0,0 +1,257 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { MainLayout } from '@/components/layout/main-layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency, formatDateTime, formatDuration, capitalizeFirst } from '@/lib/utils'
+import { AlertTriangle, Clock, Eye } from 'lucide-react'
+import Link from 'next/link'
+
+interface QueueDeal {
+  id: string
+  total_value: number
+  reseller: {
+    name: string
+  }
+  end_user: {
+    company_name: string
+  }
+}
+
+interface QueueItem {
+  id: string
+  conflict_type: string
+  created_at: string
+  priority: 'high' | 'medium' | 'low'
+  sla_hours: number
+  age_hours: number
+  due_at: string
+  overdue: boolean
+  deal: QueueDeal
+  competing_deal: QueueDeal
+  assigned_staff?: {
+    name: string
+  } | null
+}
+
+interface QueueSummary {
+  high: number
+  medium: number
+  low: number
+  overdue: number
+}
+
+const priorityVariant = {
+  high: 'error',
+  medium: 'warning',
+  low: 'secondary',
+} as const
+
+export default function ConflictQueuePage() {
+  const [items, setItems] = useState<QueueItem[]>([])
+  const [summary, setSummary] = useState<QueueSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [priorityFilter, setPriorityFilter] = useState('')
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '25'
+      })
+
+      if (priorityFilter) {
+        params.append('priority', priorityFilter)
+      }
+
+      if (overdueOnly) {
+        params.append('overdue', 'true')
+      }
+
+      const response = await fetch(`/api/conflicts/queue?${params}`)
+      if (response.ok) {
+        const result = await response.json()
+        setItems(result.data.items)
+        setSummary(result.data.summary)
+        setTotalPages(result.data.totalPages)
+      }
+    } catch (error) {
+      console.error('Error loading conflict queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, priorityFilter, overdueOnly])
+
+  useEffect(() => {
+    loadQueue()
+  }, [page, priorityFilter, overdueOnly, loadQueue])
+
+  const getSlaLabel = (item: QueueItem) => {
+    const remaining = Math.round((new Date(item.due_at).getTime() - Date.now()) / (1000 * 60 * 60))
+    return item.overdue
+      ? `Overdue by ${formatDuration(remaining)}`
+      : `Due in ${formatDuration(remaining)}`
+  }
+
+  return (
+    <MainLayout
+      title="Triage Queue"
+      subtitle="Pending conflicts ranked by priority and SLA"
+    >
+      <div className="space-y-6">
+        {/* Summary */}
+        {summary && (
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {(['high', 'medium', 'low'] as const).map((priority) => (
+              <Card key={priority}>
+                <CardContent className="pt-6">
+                  <div className="text-2xl font-bold">{summary[priority]}</div>
+                  <p className="text-sm text-gray-600">{capitalizeFirst(priority)} priority</p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card className={summary.overdue > 0 ? 'border-red-300' : ''}>
+              <CardContent className="pt-6">
+                <div className={`text-2xl font-bold ${summary.overdue > 0 ? 'text-red-600' : ''}`}>
+                  {summary.overdue}
+                </div>
+                <p className="text-sm text-gray-600">Breaching SLA</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex items-center space-x-4">
+          <select
+            value={priorityFilter}
+            onChange={(e) => {
+              setPriorityFilter(e.target.value)
+              setPage(1)
+            }}
+            className="px-3 py-2 border rounded-md"
+          >
+            <option value="">All Priorities</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={overdueOnly}
+              onChange={(e) => {
+                setOverdueOnly(e.target.checked)
+                setPage(1)
+              }}
+            />
+            <span>Breaching SLA only</span>
+          </label>
+        </div>
+
+        {/* Queue */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Conflicts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-8">Loading queue...</div>
+            ) : items.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No pending conflicts matching your criteria
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {items.map((item) => (
+                  <div
+                    key={item.id}
+                    className={`border rounded-lg p-4 ${item.overdue ? 'border-l-4 border-l-red-500 bg-red-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <h3 className="font-semibold">{item.deal.end_user.company_name}</h3>
+                          <Badge variant={priorityVariant[item.priority]}>
+                            {item.priority} priority
+                          </Badge>
+                          <span className="text-sm text-gray-600">
+                            {capitalizeFirst(item.conflict_type.replace('_', ' '))}
+                          </span>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
+                          <div>
+                            <span className="font-medium">Resellers:</span>{' '}
+                            {item.deal.reseller.name} vs {item.competing_deal.reseller.name}
+                          </div>
+                          <div>
+                            <span className="font-medium">Value:</span>{' '}
+                            {formatCurrency(Math.max(item.deal.total_value, item.competing_deal.total_value))}
+                          </div>
+                          <div>
+                            <span className="font-medium">Assigned to:</span>{' '}
+                            {item.assigned_staff?.name || 'Unassigned'}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center space-x-4">
+                        <div className="text-right text-sm">
+                          <p className={`flex items-center justify-end font-medium ${item.overdue ? 'text-red-600' : 'text-gray-700'}`}>
+                            {item.overdue ? <AlertTriangle className="h-4 w-4 mr-1" /> : <Clock className="h-4 w-4 mr-1" />}
+                            {getSlaLabel(item)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDuration(item.sla_hours)} SLA, due {formatDateTime(item.due_at)}
+                          </p>
+                        </div>
+                        <Link href={`/deals/${item.deal.id}`}>
+                          <Button variant="outline" size="sm">
+                            <Eye className="h-4 w-4 mr-2" />
+                            View
+                          </Button>
+                        </Link>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex justify-center space-x-2 mt-6">
+                <Button
+                  variant="outline"
+                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                >
+                  Previous
+                </Button>
+
+                <span className="flex items-center px-4">
+                  Page {page} of {totalPages}
+                </span>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  )
+}
@@ -0,0 +1,595 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { MainLayout } from '@/components/layout/main-layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency, formatDate, formatDateTime, capitalizeFirst } from '@/lib/utils'
+import type { AuditEventWithActor, DealDetail, Product, RuleViolation } from '@/lib/types'
+import { DEAL_STATUS_TRANSITIONS } from '@/lib/deal-status'
+import { ArrowLeft, Edit, Plus, Trash2, AlertTriangle, X, CheckCircle, XCircle } from 'lucide-react'
+
+type LineItem = {
+  product_id: string
+  quantity: number
+  price: number
+}
+
+const EDITABLE_STATUSES = ['pending', 'disputed']
+
+export default function DealDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [deal, setDeal] = useState<DealDetail | null>(null)
+  const [products, setProducts] = useState<Product[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editItems, setEditItems] = useState<LineItem[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [activity, setActivity] = useState<AuditEventWithActor[] | null>(null)
+
+  const loadDeal = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/deals/${id}`)
+      const result = await response.json()
+
+      if (response.ok) {
+        setDeal(result.data)
+      } else {
+        setError(result.error || 'Failed to load deal')
+      }
+    } catch (err) {
+      console.error('Error loading deal:', err)
+      setError('Error loading deal')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  // The audit log is restricted, so the activity card is hidden when it can't be read
+  const loadActivity = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/audit?entity_type=deal&entity_id=${id}`)
+      const result = await response.json()
+
+      setActivity(response.ok ? result.data.items : null)
+    } catch (err) {
+      console.error('Error loading activity:', err)
+      setActivity(null)
+    }
+  }, [id])
+
+  useEffect(() => {
+    loadDeal()
+    loadActivity()
+  }, [loadDeal, loadActivity])
+
+  const startEditing = async () => {
+    if (!deal) return
+
+    if (products.length === 0) {
+      try {
+        const response = await fetch('/api/products')
+        if (response.ok) {
+          const result = await response.json()
+          setProducts(result.data.items)
+        }
+      } catch (err) {
+        console.error('Error loading products:', err)
+      }
+    }
+
+    setEditItems(deal.products.map(item => ({
+      product_id: item.product_id,
+      quantity: item.quantity,
+      price: item.price,
+    })))
+  }
+
+  const updateItem = (index: number, changes: Partial<LineItem>) => {
+    setEditItems(items => items && items.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const handleSave = async () => {
+    if (!editItems) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/deals/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ products: editItems }),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setDeal(result.data.deal)
+        setEditItems(null)
+      } else if (response.status === 422) {
+        // Rejected by eligibility rules
+        const violations = (result.details || []) as RuleViolation[]
+        setError([result.error, ...violations.map(v => v.reason)].join(': '))
+      } else {
+        setError(result.error || 'Failed to update deal')
+      }
+    } catch (err) {
+      console.error('Error updating deal:', err)
+      setError('Error updating deal')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleWithdraw = async () => {
+    if (!confirm('Withdraw this deal registration? This cannot be undone.')) return
+
+    try {
+      const response = await fetch(`/api/deals/${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        router.push('/deals')
+      } else {
+        const result = await response.json()
+        setError(result.error || 'Failed to withdraw deal')
+      }
+    } catch (err) {
+      console.error('Error withdrawing deal:', err)
+      setError('Error withdrawing deal')
+    }
+  }
+
+  const handleDecision = async (action: 'approve' | 'reject') => {
+    if (!deal) return
+
+    // Approving a flagged deal means accepting what the eligibility rules warned about
+    const flags = deal.eligibility_flags
+    const acknowledgeFlags = action === 'approve' && flags.length > 0
+    if (acknowledgeFlags) {
+      const summary = flags.map(flag => `- ${flag.rule_name}: ${flag.reason}`).join('\n')
+      if (!confirm(`This deal was flagged by eligibility rules:\n\n${summary}\n\nApprove it anyway?`)) return
+    }
+
+    const reason = prompt(`Reason for ${action === 'approve' ? 'approving' : 'rejecting'} this deal:`)
+    if (!reason?.trim()) return
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/deals/${id}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(acknowledgeFlags ? { reason, acknowledge_flags: true } : { reason }),
+      })
+
+      if (response.ok) {
+        loadDeal()
+      } else {
+        const result = await response.json()
+        setError(result.error || `Failed to ${action} deal`)
+      }
+    } catch (err) {
+      console.error(`Error trying to ${action} deal:`, err)
+      setError(`Error trying to ${action} deal`)
+    }
+  }
+
+  const getStatusBadgeVariant = (status: string) => {
+    switch (status) {
+      case 'pending': return 'warning'
+      case 'assigned': return 'success'
+      case 'disputed': return 'error'
+      case 'approved': return 'success'
+      case 'rejected': return 'secondary'
+      default: return 'secondary'
+    }
+  }
+
+  if (loading) {
+    return (
+      <MainLayout title="Deal Details">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Loading deal...</div>
+        </div>
+      </MainLayout>
+    )
+  }
+
+  if (!deal) {
+    return (
+      <MainLayout title="Deal Details">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-red-500">{error || 'Deal not found'}</div>
+        </div>
+      </MainLayout>
+    )
+  }
+
+  const isEditable = EDITABLE_STATUSES.includes(deal.status)
+  const allowedTransitions = DEAL_STATUS_TRANSITIONS[deal.status]
+  const editTotal = editItems?.reduce((sum, item) => sum + (item.quantity * item.price), 0) || 0
+
+  return (
+    <MainLayout
+      title={deal.end_user.company_name}
+      subtitle={`Deal registration submitted by ${deal.reseller.name}`}
+    >
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Link href="/deals">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Deals
+            </Button>
+          </Link>
+          <div className="flex space-x-2">
+            {allowedTransitions.includes('approved') && (
+              <Button size="sm" onClick={() => handleDecision('approve')}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            )}
+            {allowedTransitions.includes('rejected') && (
+              <Button variant="outline" size="sm" onClick={() => handleDecision('reject')}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+            )}
+            {isEditable && (
+              <Button variant="destructive" size="sm" onClick={handleWithdraw}>
+                <X className="h-4 w-4 mr-2" />
+                Withdraw Deal
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <Card className="border-red-200 bg-red-50">
+            <CardContent className="py-4 text-sm text-red-700">{error}</CardContent>
+          </Card>
+        )}
+
+        {/* Summary */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-3">
+              <span>Summary</span>
+              <Badge variant={getStatusBadgeVariant(deal.status)}>{deal.status}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <span className="font-medium">End User:</span>
+                <br />
+                {deal.end_user.company_name}
+                <br />
+                <span className="text-gray-600">{deal.end_user.contact_name} ({deal.end_user.contact_email})</span>
+              </div>
+              <div>
+                <span className="font-medium">Submitted by:</span>
+                <br />
+                {deal.reseller.name} ({deal.reseller.tier})
+                <br />
+                <span className="text-gray-600">{deal.reseller.territory}</span>
+              </div>
+              <div>
+                <span className="font-medium">Assigned to:</span>
+                <br />
+                {deal.assigned_reseller ? deal.assigned_reseller.name : 'Not assigned'}
+                {deal.assignment_date && (
+                  <>
+                    <br />
+                    <span className="text-gray-600">on {formatDate(deal.assignment_date)}</span>
+                  </>
+                )}
+              </div>
+              <div>
+                <span className="font-medium">Territory:</span>
+                <br />
+                {deal.end_user.territory}
+              </div>
+              <div>
+                <span className="font-medium">Value:</span>
+                <br />
+                <span className="font-semibold text-green-600">{formatCurrency(deal.total_value)}</span>
+              </div>
+              <div>
+                <span className="font-medium">Submitted:</span>
+                <br />
+                {deal.submission_date && formatDate(deal.submission_date)}
+              </div>
+              {deal.expires_at && (
+                <div>
+                  <span className="font-medium">{deal.status === 'expired' ? 'Protection ended:' : 'Protected until:'}</span>
+                  <br />
+                  {formatDate(deal.expires_at)}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Line Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              Products & Pricing
+              {isEditable && !editItems && (
+                <Button variant="outline" size="sm" onClick={startEditing}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Line Items
+                </Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {editItems ? (
+              <div className="space-y-4">
+                {editItems.map((item, index) => (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 border rounded-lg">
+                    <select
+                      value={item.product_id}
+                      onChange={(e) => {
+                        const product = products.find(p => p.id === e.target.value)
+                        updateItem(index, {
+                          product_id: e.target.value,
+                          ...(product && { price: product.list_price }),
+                        })
+                      }}
+                      className="w-full p-2 border rounded-md"
+                    >
+                      <option value="">Select product...</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={item.quantity}
+                      onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={item.price}
+                      onChange={(e) => updateItem(index, { price: Number(e.target.value) })}
+                    />
+                    <div className="flex items-center">
+                      {editItems.length > 1 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditItems(items => items && items.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between border-t pt-4">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditItems(items => items && [...items, { product_id: '', quantity: 1, price: 0 }])}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Product
+                  </Button>
+                  <span className="text-lg font-medium">Total: {formatCurrency(editTotal)}</span>
+                </div>
+
+                <div className="flex justify-end space-x-4">
+                  <Button variant="outline" onClick={() => setEditItems(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? 'Saving...' : 'Save & Re-check Conflicts'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium">Product</th>
+                    <th className="text-left py-3 px-4 font-medium">Category</th>
+                    <th className="text-right py-3 px-4 font-medium">Quantity</th>
+                    <th className="text-right py-3 px-4 font-medium">Price</th>
+                    <th className="text-right py-3 px-4 font-medium">Subtotal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deal.products.map((item) => (
+                    <tr key={item.id} className="border-b">
+                      <td className="py-3 px-4">{item.product.name}</td>
+                      <td className="py-3 px-4 text-gray-600">{item.product.category}</td>
+                      <td className="py-3 px-4 text-right">{item.quantity}</td>
+                      <td className="py-3 px-4 text-right">{formatCurrency(item.price)}</td>
+                      <td className="py-3 px-4 text-right">{formatCurrency(item.quantity * item.price)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Eligibility Flags */}
+        {deal.eligibility_flags.length > 0 && (
+          <Card className="border-orange-200 bg-orange-50">
+            <CardHeader>
+              <CardTitle className="flex items-center text-orange-800">
+                <AlertTriangle className="mr-2 h-5 w-5" />
+                Eligibility Flags
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {deal.eligibility_flags.map((flag) => (
+                  <div key={flag.rule_id} className="flex items-start space-x-3">
+                    <Badge variant="warning" className="mt-0.5">
+                      flagged
+                    </Badge>
+                    <div>
+                      <p className="text-sm font-medium text-orange-800">{flag.rule_name}</p>
+                      <p className="text-sm text-orange-700">{flag.reason}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Conflicts */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <AlertTriangle className="mr-2 h-5 w-5" />
+              Conflicts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {deal.conflicts.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No conflicts detected for this deal</div>
+            ) : (
+              <div className="space-y-4">
+                {deal.conflicts.map((conflict) => (
+                  <div key={conflict.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <h4 className="font-medium">
+                          {capitalizeFirst(conflict.conflict_type.replace(/_/g, ' '))}
+                        </h4>
+                        <Badge variant={conflict.resolution_status === 'pending' ? 'warning' : 'success'}>
+                          {conflict.resolution_status}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        Competing deal by {conflict.competing_deal.reseller.name} for{' '}
+                        {conflict.competing_deal.end_user.company_name} ({formatCurrency(conflict.competing_deal.total_value)})
+                      </p>
+                    </div>
+                    <Link href={`/deals/${conflict.competing_deal.id}`}>
+                      <Button variant="outline" size="sm">View Deal</Button>
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Status History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Status History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {deal.status_history.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No status changes recorded</div>
+            ) : (
+              <div className="space-y-3">
+                {deal.status_history.map((entry) => (
+                  <div key={entry.id} className="border-l-2 border-gray-200 pl-4 text-sm">
+                    <p>
+                      {entry.from_status ? `${entry.from_status} → ` : ''}
+                      <span className="font-medium">{entry.to_status}</span>
+                    </p>
+                    <p className="text-gray-600">
+                      {entry.reason}
+                      {entry.changed_by_staff && ` · by ${entry.changed_by_staff.name}`}
+                    </p>
+                    {entry.created_at && (
+                      <p className="text-xs text-gray-500">{formatDateTime(entry.created_at)}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Assignment History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Assignment History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {deal.assignment_history.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">This deal has not been assigned yet</div>
+            ) : (
+              <div className="space-y-3">
+                {deal.assignment_history.map((entry) => (
+                  <div key={entry.id} className="border-l-2 border-blue-200 pl-4 text-sm">
+                    <p>
+                      {entry.old_reseller ? `${entry.old_reseller.name} → ` : ''}
+                      <span className="font-medium">{entry.new_reseller?.name || 'Unassigned'}</span>
+                    </p>
+                    <p className="text-gray-600">
+                      {entry.reason}
+                      {entry.assigned_by_staff && ` · by ${entry.assigned_by_staff.name}`}
+                    </p>
+                    {entry.created_at && (
+                      <p className="text-xs text-gray-500">{formatDateTime(entry.created_at)}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Activity */}
+        {activity && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Activity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {activity.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">No activity recorded</div>
+              ) : (
+                <div className="space-y-3">
+                  {activity.map((event) => (
+                    <div key={event.id} className="border-l-2 border-purple-200 pl-4 text-sm">
+                      <p>
+                        <span className="font-medium">{capitalizeFirst(event.action.replace(/_/g, ' '))}</span>
+                        {event.actor && ` · by ${event.actor.name}`}
+                      </p>
+                      {event.changes && Object.keys(event.changes).length > 0 && (
+                        <p className="text-gray-600">
+                          Changed {Object.keys(event.changes).map(field => field.replace(/_/g, ' ')).join(', ')}
+                        </p>
+                      )}
+                      {event.created_at && (
+                        <p className="text-xs text-gray-500">{formatDateTime(event.created_at)}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </MainLayout>
+  )
+}
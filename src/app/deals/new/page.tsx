@@ -9,8 +9,11 @@ import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { CreateDealSchema, type CreateDeal, type Reseller, type Product } from '@/lib/types'
+import { CreateDealSchema, CheckConflictsSchema, type CreateDeal, type Reseller, type Product, type Territory } from '@/lib/types'
+import type { RuleViolation } from '@/lib/types'
+import type { ConflictDetectionResult } from '@/lib/conflict-detection'
 import { formatCurrency } from '@/lib/utils'
+import { TerritoryHierarchy } from '@/lib/territories'
 import { Plus, Trash2, AlertTriangle } from 'lucide-react'
 
 interface ConflictAlert {
@@ -23,9 +26,13 @@ export default function NewDealPage() {
   const router = useRouter()
   const [resellers, setResellers] = useState<Reseller[]>([])
   const [products, setProducts] = useState<Product[]>([])
+  const [territories, setTerritories] = useState<Territory[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [conflicts, setConflicts] = useState<ConflictAlert[]>([])
   const [showConflicts, setShowConflicts] = useState(false)
+  const [ruleViolations, setRuleViolations] = useState<RuleViolation[]>([])
+  const [conflictPreview, setConflictPreview] = useState<ConflictDetectionResult | null>(null)
+  const [checkingConflicts, setCheckingConflicts] = useState(false)
 
   const {
     register,
@@ -47,14 +54,24 @@ export default function NewDealPage() {
   })
 
   const watchedProducts = watch('products')
+  const watchedResellerId = watch('reseller_id')
+  const watchedEndUser = watch('end_user')
+
+  // Serialized so the preview effect only re-runs when the relevant input actually changes
+  const previewPayload = JSON.stringify({
+    reseller_id: watchedResellerId,
+    end_user: watchedEndUser,
+    products: (watchedProducts || []).filter(p => p.product_id && p.quantity > 0 && p.price > 0),
+  })
 
   // Load resellers and products
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [resellersRes, productsRes] = await Promise.all([
+        const [resellersRes, productsRes, territoriesRes] = await Promise.all([
           fetch('/api/resellers'),
-          fetch('/api/products')
+          fetch('/api/products'),
+          fetch('/api/territories')
         ])
 
         if (resellersRes.ok) {
@@ -66,6 +83,11 @@ export default function NewDealPage() {
           const productsData = await productsRes.json()
           setProducts(productsData.data.items)
         }
+
+        if (territoriesRes.ok) {
+          const territoriesData = await territoriesRes.json()
+          setTerritories(territoriesData.data)
+        }
       } catch (error) {
         console.error('Error loading data:', error)
       }
@@ -74,6 +96,48 @@ export default function NewDealPage() {
     loadData()
   }, [])
 
+  // Preview conflicts while the form is filled in, once the reseller and end user are complete
+  useEffect(() => {
+    const validation = CheckConflictsSchema.safeParse(JSON.parse(previewPayload))
+    if (!validation.success) {
+      setConflictPreview(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        setCheckingConflicts(true)
+        const response = await fetch('/api/deals/check-conflicts', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(validation.data),
+          signal: controller.signal,
+        })
+
+        const result = await response.json()
+        if (response.ok) {
+          setConflictPreview(result.data)
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error checking conflicts:', error)
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setCheckingConflicts(false)
+        }
+      }
+    }, 600)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [previewPayload])
+
   // Calculate total value
   const totalValue = watchedProducts?.reduce((sum, product) => {
     return sum + (product.quantity * product.price)
@@ -90,6 +154,7 @@ export default function NewDealPage() {
   const onSubmit = async (data: CreateDeal) => {
     setIsSubmitting(true)
     setConflicts([])
+    setRuleViolations([])
 
     try {
       const response = await fetch('/api/deals', {
@@ -103,20 +168,26 @@ export default function NewDealPage() {
       const result = await response.json()
 
       if (response.ok) {
-        // Check for conflicts
-        if (result.data.conflicts?.hasConflicts) {
-          const conflictAlerts: ConflictAlert[] = result.data.conflicts.conflicts.map((conflict: { type: string; severity: 'high' | 'medium' | 'low'; reason: string }) => ({
+        const flaggedRules: RuleViolation[] = result.data.eligibility?.violations || []
+
+        // Check for conflicts and flagged eligibility rules
+        if (result.data.conflicts?.hasConflicts || flaggedRules.length > 0) {
+          const conflictAlerts: ConflictAlert[] = (result.data.conflicts?.conflicts || []).map((conflict: { type: string; severity: 'high' | 'medium' | 'low'; reason: string }) => ({
             type: conflict.type,
             severity: conflict.severity,
             message: conflict.reason
           }))
           
           setConflicts(conflictAlerts)
+          setRuleViolations(flaggedRules)
           setShowConflicts(true)
         } else {
           // No conflicts, redirect to deal details
           router.push(`/deals/${result.data.deal.id}`)
         }
+      } else if (response.status === 422) {
+        // Rejected by eligibility rules
+        setRuleViolations(result.details || [])
       } else {
         console.error('Error creating deal:', result.error)
         // Handle error (show toast, etc.)
@@ -139,12 +210,38 @@ export default function NewDealPage() {
       subtitle="Submit a new deal registration for review and assignment"
     >
       <div className="max-w-4xl mx-auto">
-        {showConflicts && conflicts.length > 0 && (
+        {!showConflicts && ruleViolations.length > 0 && (
+          <Card className="mb-6 border-red-200 bg-red-50">
+            <CardHeader>
+              <CardTitle className="flex items-center text-red-800">
+                <AlertTriangle className="mr-2 h-5 w-5" />
+                Deal Not Eligible
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {ruleViolations.map((violation) => (
+                  <div key={violation.rule_id} className="flex items-start space-x-3">
+                    <Badge variant={violation.action === 'reject' ? 'error' : 'warning'} className="mt-0.5">
+                      {violation.action === 'reject' ? 'rejected' : 'flagged'}
+                    </Badge>
+                    <div>
+                      <p className="text-sm font-medium text-red-800">{violation.rule_name}</p>
+                      <p className="text-sm text-red-700">{violation.reason}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {showConflicts && (conflicts.length > 0 || ruleViolations.length > 0) && (
           <Card className="mb-6 border-orange-200 bg-orange-50">
             <CardHeader>
               <CardTitle className="flex items-center text-orange-800">
                 <AlertTriangle className="mr-2 h-5 w-5" />
-                Conflicts Detected
+                Review Required
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -165,6 +262,19 @@ export default function NewDealPage() {
                     </div>
                   </div>
                 ))}
+                {ruleViolations.map((violation) => (
+                  <div key={violation.rule_id} className="flex items-start space-x-3">
+                    <Badge variant="warning" className="mt-0.5">
+                      flagged
+                    </Badge>
+                    <div>
+                      <p className="text-sm font-medium text-orange-800">
+                        {violation.rule_name.toUpperCase()}
+                      </p>
+                      <p className="text-sm text-orange-700">{violation.reason}</p>
+                    </div>
+                  </div>
+                ))}
               </div>
               <div className="mt-4 flex space-x-3">
                 <Button onClick={handleConflictAcknowledge} variant="outline">
@@ -260,10 +370,17 @@ export default function NewDealPage() {
                   <label className="block text-sm font-medium mb-2">
                     Territory *
                   </label>
-                  <Input
+                  <select
                     {...register('end_user.territory')}
-                    placeholder="Enter territory"
-                  />
+                    className="w-full p-2 border rounded-md"
+                  >
+                    <option value="">Select territory...</option>
+                    {new TerritoryHierarchy(territories).flatten().map((territory) => (
+                      <option key={territory.id} value={territory.name}>
+                        {'— '.repeat(territory.depth)}{territory.name}
+                      </option>
+                    ))}
+                  </select>
                   {errors.end_user?.territory && (
                     <p className="text-red-500 text-sm mt-1">{errors.end_user.territory.message}</p>
                   )}
@@ -272,6 +389,50 @@ export default function NewDealPage() {
             </CardContent>
           </Card>
 
+          {/* Live conflict preview */}
+          {(checkingConflicts || conflictPreview) && !showConflicts && (
+            <Card className={conflictPreview?.hasConflicts ? 'border-orange-200 bg-orange-50' : ''}>
+              <CardHeader>
+                <CardTitle className="flex items-center text-base">
+                  <AlertTriangle className="mr-2 h-4 w-4" />
+                  Potential Conflicts
+                  {checkingConflicts && <span className="ml-2 text-sm font-normal text-gray-500">Checking...</span>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!conflictPreview?.hasConflicts ? (
+                  <p className="text-sm text-gray-600">No conflicts found with existing registrations so far.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {conflictPreview.conflicts.map((conflict, index) => (
+                      <div key={index} className="flex items-start space-x-3">
+                        <Badge
+                          variant={conflict.severity === 'high' ? 'error' : 'warning'}
+                          className="mt-0.5"
+                        >
+                          {conflict.severity}
+                        </Badge>
+                        <div>
+                          <p className="text-sm font-medium text-orange-800">
+                            {conflict.type.replace('_', ' ').toUpperCase()}
+                          </p>
+                          <p className="text-sm text-orange-700">{conflict.reason}</p>
+                        </div>
+                      </div>
+                    ))}
+                    {conflictPreview.suggestions.length > 0 && (
+                      <ul className="pt-2 text-sm text-orange-700 space-y-1">
+                        {conflictPreview.suggestions.map((suggestion) => (
+                          <li key={suggestion}>{suggestion}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Products */}
           <Card>
             <CardHeader>
@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { formatCurrency, formatDate } from '@/lib/utils'
-import { Search, Plus, Eye, AlertTriangle } from 'lucide-react'
+import { Search, Plus, Eye, AlertTriangle, Clock } from 'lucide-react'
 import Link from 'next/link'
 
 interface Deal {
@@ -15,6 +15,7 @@ interface Deal {
   status: string
   total_value: number
   submission_date: string
+  expires_at: string | null
   reseller: {
     name: string
     territory: string
@@ -29,6 +30,8 @@ interface Deal {
   conflicts: unknown[]
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
 export default function DealsPage() {
   const [deals, setDeals] = useState<Deal[]>([])
   const [loading, setLoading] = useState(true)
@@ -36,6 +39,7 @@ export default function DealsPage() {
   const [statusFilter, setStatusFilter] = useState('')
   const [page, setPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
+  const [expiringSoonDays, setExpiringSoonDays] = useState<number | null>(null)
 
   const loadDeals = useCallback(async () => {
     try {
@@ -66,6 +70,22 @@ export default function DealsPage() {
     loadDeals()
   }, [page, statusFilter, loadDeals])
 
+  useEffect(() => {
+    const loadProtectionSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/deal_protection')
+        if (response.ok) {
+          const result = await response.json()
+          setExpiringSoonDays(result.data.expiring_soon_days)
+        }
+      } catch (error) {
+        console.error('Error loading deal protection settings:', error)
+      }
+    }
+
+    loadProtectionSettings()
+  }, [])
+
   const filteredDeals = deals.filter(deal =>
     deal.end_user.company_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     deal.reseller.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -78,10 +98,19 @@ export default function DealsPage() {
       case 'disputed': return 'error'
       case 'approved': return 'success'
       case 'rejected': return 'secondary'
+      case 'expired': return 'secondary'
+      case 'withdrawn': return 'secondary'
       default: return 'secondary'
     }
   }
 
+  // Whole days of protection left on an approved deal, when that is inside the warning window
+  const getDaysUntilExpiry = (deal: Deal) => {
+    if (deal.status !== 'approved' || !deal.expires_at || expiringSoonDays === null) return null
+    const days = Math.max(0, Math.ceil((new Date(deal.expires_at).getTime() - Date.now()) / DAY_MS))
+    return days <= expiringSoonDays ? days : null
+  }
+
   return (
     <MainLayout 
       title="Deal Registrations" 
@@ -112,6 +141,8 @@ export default function DealsPage() {
               <option value="disputed">Disputed</option>
               <option value="approved">Approved</option>
               <option value="rejected">Rejected</option>
+              <option value="expired">Expired</option>
+              <option value="withdrawn">Withdrawn</option>
             </select>
           </div>
 
@@ -137,73 +168,83 @@ export default function DealsPage() {
               </div>
             ) : (
               <div className="space-y-4">
-                {filteredDeals.map((deal) => (
-                  <div
-                    key={deal.id}
-                    className="border rounded-lg p-4 hover:bg-gray-50 transition-colors"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-2">
-                          <h3 className="font-semibold text-lg">
-                            {deal.end_user.company_name}
-                          </h3>
-                          <Badge variant={getStatusBadgeVariant(deal.status)}>
-                            {deal.status}
-                          </Badge>
-                          {deal.conflicts.length > 0 && (
-                            <Badge variant="error" className="flex items-center">
-                              <AlertTriangle className="h-3 w-3 mr-1" />
-                              {deal.conflicts.length} conflict{deal.conflicts.length > 1 ? 's' : ''}
+                {filteredDeals.map((deal) => {
+                  const daysUntilExpiry = getDaysUntilExpiry(deal)
+
+                  return (
+                    <div
+                      key={deal.id}
+                      className="border rounded-lg p-4 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-3 mb-2">
+                            <h3 className="font-semibold text-lg">
+                              {deal.end_user.company_name}
+                            </h3>
+                            <Badge variant={getStatusBadgeVariant(deal.status)}>
+                              {deal.status}
                             </Badge>
-                          )}
-                        </div>
-                        
-                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
-                          <div>
-                            <span className="font-medium">Submitted by:</span>
-                            <br />
-                            {deal.reseller.name}
-                          </div>
-                          <div>
-                            <span className="font-medium">Territory:</span>
-                            <br />
-                            {deal.end_user.territory}
-                          </div>
-                          <div>
-                            <span className="font-medium">Value:</span>
-                            <br />
-                            <span className="font-semibold text-green-600">
-                              {formatCurrency(deal.total_value)}
-                            </span>
+                            {deal.conflicts.length > 0 && (
+                              <Badge variant="error" className="flex items-center">
+                                <AlertTriangle className="h-3 w-3 mr-1" />
+                                {deal.conflicts.length} conflict{deal.conflicts.length > 1 ? 's' : ''}
+                              </Badge>
+                            )}
+                            {daysUntilExpiry !== null && (
+                              <Badge variant="warning" className="flex items-center" title={`Protected until ${formatDate(deal.expires_at as string)}`}>
+                                <Clock className="h-3 w-3 mr-1" />
+                                {daysUntilExpiry === 0 ? 'Expires today' : `Expires in ${daysUntilExpiry} day${daysUntilExpiry > 1 ? 's' : ''}`}
+                              </Badge>
+                            )}
                           </div>
-                          <div>
-                            <span className="font-medium">Submitted:</span>
-                            <br />
-                            {formatDate(deal.submission_date)}
+                          
+                          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
+                            <div>
+                              <span className="font-medium">Submitted by:</span>
+                              <br />
+                              {deal.reseller.name}
+                            </div>
+                            <div>
+                              <span className="font-medium">Territory:</span>
+                              <br />
+                              {deal.end_user.territory}
+                            </div>
+                            <div>
+                              <span className="font-medium">Value:</span>
+                              <br />
+                              <span className="font-semibold text-green-600">
+                                {formatCurrency(deal.total_value)}
+                              </span>
+                            </div>
+                            <div>
+                              <span className="font-medium">Submitted:</span>
+                              <br />
+                              {formatDate(deal.submission_date)}
+                            </div>
                           </div>
-                        </div>
 
-                        {deal.assigned_reseller && (
-                          <div className="mt-2 text-sm">
-                            <span className="font-medium text-green-600">
-                              Assigned to: {deal.assigned_reseller.name}
-                            </span>
-                          </div>
-                        )}
-                      </div>
+                          {deal.assigned_reseller && (
+                            <div className="mt-2 text-sm">
+                              <span className="font-medium text-green-600">
+                                Assigned to: {deal.assigned_reseller.name}
+                              </span>
+                            </div>
+                          )}
+                        </div>
 
-                      <div className="flex space-x-2">
-                        <Link href={`/deals/${deal.id}`}>
-                          <Button variant="outline" size="sm">
-                            <Eye className="h-4 w-4 mr-2" />
-                            View
-                          </Button>
-                        </Link>
+                        <div className="flex space-x-2">
+                          <Link href={`/deals/${deal.id}`}>
+                            <Button variant="outline" size="sm">
+                              <Eye className="h-4 w-4 mr-2" />
+                              View
+                            </Button>
+                          </Link>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             )}
 
@@ -0,0 +1,333 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { MainLayout } from '@/components/layout/main-layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { formatDate, formatDateTime } from '@/lib/utils'
+import { ArrowLeft, GitMerge, Undo2 } from 'lucide-react'
+
+interface EndUser {
+  id: string
+  company_name: string
+  contact_name: string
+  contact_email: string
+  territory: string
+  created_at: string
+}
+
+interface DuplicateCluster {
+  members: (EndUser & { deal_count: number })[]
+  reasons: string[]
+}
+
+interface EndUserMerge {
+  id: string
+  survivor_id: string
+  survivor: { id: string; company_name: string } | null
+  merged_end_users: EndUser[]
+  moved_deals: { deal_id: string; end_user_id: string }[]
+  merged_by_staff: { name: string } | null
+  undone_by_staff: { name: string } | null
+  undone_at: string | null
+  created_at: string
+}
+
+const MERGE_FIELDS = [
+  { key: 'company_name', label: 'Company' },
+  { key: 'contact_name', label: 'Contact' },
+  { key: 'contact_email', label: 'Email' },
+  { key: 'territory', label: 'Territory' },
+] as const
+
+type MergeField = typeof MERGE_FIELDS[number]['key']
+
+interface ClusterSelection {
+  survivorId: string
+  includedIds: string[]
+  // Which member each field's value is taken from; the survivor's own value by default
+  sources: Partial<Record<MergeField, string>>
+}
+
+export default function EndUserDuplicatesPage() {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([])
+  const [selections, setSelections] = useState<ClusterSelection[]>([])
+  const [merges, setMerges] = useState<EndUserMerge[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadData = useCallback(async () => {
+    try {
+      const [clustersResponse, mergesResponse] = await Promise.all([
+        fetch('/api/end-users/duplicates'),
+        fetch('/api/end-users/merges'),
+      ])
+      if (clustersResponse.ok) {
+        const result = await clustersResponse.json()
+        const loaded: DuplicateCluster[] = result.data
+        setClusters(loaded)
+        setSelections(loaded.map(cluster => ({
+          survivorId: cluster.members[0].id,
+          includedIds: cluster.members.map(member => member.id),
+          sources: {},
+        })))
+      } else {
+        setError('Failed to load duplicates')
+      }
+      if (mergesResponse.ok) {
+        const result = await mergesResponse.json()
+        setMerges(result.data)
+      }
+    } catch (err) {
+      console.error('Error loading duplicates:', err)
+      setError('Error loading duplicates')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const updateSelection = (index: number, changes: Partial<ClusterSelection>) => {
+    setSelections(current => current.map((selection, i) => i === index ? { ...selection, ...changes } : selection))
+  }
+
+  const handleMerge = async (cluster: DuplicateCluster, selection: ClusterSelection, key: string) => {
+    const mergedIds = selection.includedIds.filter(id => id !== selection.survivorId)
+    const values: Partial<Record<MergeField, string>> = {}
+    for (const { key: field } of MERGE_FIELDS) {
+      const sourceId = selection.sources[field]
+      const source = sourceId && sourceId !== selection.survivorId
+        ? cluster.members.find(member => member.id === sourceId)
+        : null
+      if (source) values[field] = source[field]
+    }
+
+    setBusy(key)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/end-users/merges', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ survivor_id: selection.survivorId, merged_ids: mergedIds, values }),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setMessage(`Merged ${mergedIds.length} end user(s), moving ${result.data.moved_deals.length} deal(s)`)
+        await loadData()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error merging end users:', err)
+      setError('Error merging end users')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleUndo = async (merge: EndUserMerge) => {
+    setBusy(merge.id)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/end-users/merges/${merge.id}/undo`, { method: 'POST' })
+      const result = await response.json()
+      if (response.ok) {
+        setMessage(`Restored ${merge.merged_end_users.length} end user(s)`)
+        await loadData()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error undoing merge:', err)
+      setError('Error undoing merge')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <MainLayout title="Duplicate End Users" subtitle="Merge records that describe the same customer">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-500">Finding duplicates...</div>
+        </div>
+      </MainLayout>
+    )
+  }
+
+  return (
+    <MainLayout title="Duplicate End Users" subtitle="Merge records that describe the same customer">
+      <div className="space-y-6">
+        <Link href="/end-users">
+          <Button variant="ghost">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to End Users
+          </Button>
+        </Link>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+
+        {clusters.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8 text-gray-500">No likely duplicates found</CardContent>
+          </Card>
+        ) : clusters.map((cluster, index) => {
+          const selection = selections[index]
+          const key = cluster.members.map(member => member.id).join(':')
+          const included = cluster.members.filter(member => selection.includedIds.includes(member.id))
+
+          return (
+            <Card key={key}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  {cluster.members[0].company_name}
+                  <div className="flex flex-wrap gap-1">
+                    {cluster.reasons.map(reason => (
+                      <Badge key={reason} variant="outline">{reason}</Badge>
+                    ))}
+                  </div>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 px-2 font-medium">Keep</th>
+                        <th className="text-left py-2 px-2 font-medium">Include</th>
+                        {MERGE_FIELDS.map(field => (
+                          <th key={field.key} className="text-left py-2 px-2 font-medium">{field.label}</th>
+                        ))}
+                        <th className="text-left py-2 px-2 font-medium">Deals</th>
+                        <th className="text-left py-2 px-2 font-medium">Created</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cluster.members.map(member => (
+                        <tr key={member.id} className="border-b">
+                          <td className="py-2 px-2">
+                            <input
+                              type="radio"
+                              name={`survivor-${key}`}
+                              checked={selection.survivorId === member.id}
+                              onChange={() => updateSelection(index, {
+                                survivorId: member.id,
+                                includedIds: [...new Set([...selection.includedIds, member.id])],
+                                sources: {},
+                              })}
+                            />
+                          </td>
+                          <td className="py-2 px-2">
+                            <input
+                              type="checkbox"
+                              checked={selection.includedIds.includes(member.id)}
+                              disabled={selection.survivorId === member.id}
+                              onChange={(e) => updateSelection(index, {
+                                includedIds: e.target.checked
+                                  ? [...selection.includedIds, member.id]
+                                  : selection.includedIds.filter(id => id !== member.id),
+                                sources: Object.fromEntries(
+                                  Object.entries(selection.sources).filter(([, sourceId]) => sourceId !== member.id)
+                                ),
+                              })}
+                            />
+                          </td>
+                          {MERGE_FIELDS.map(field => (
+                            <td key={field.key} className="py-2 px-2">{member[field.key]}</td>
+                          ))}
+                          <td className="py-2 px-2">{member.deal_count}</td>
+                          <td className="py-2 px-2 text-gray-600">{formatDate(member.created_at)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {MERGE_FIELDS.map(field => (
+                    <label key={field.key} className="text-sm space-y-1">
+                      <span className="block font-medium">Keep {field.label.toLowerCase()}</span>
+                      <select
+                        value={selection.sources[field.key] || selection.survivorId}
+                        onChange={(e) => updateSelection(index, {
+                          sources: { ...selection.sources, [field.key]: e.target.value },
+                        })}
+                        className="w-full p-2 border rounded-md"
+                      >
+                        {included.map(member => (
+                          <option key={member.id} value={member.id}>{member[field.key]}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => handleMerge(cluster, selection, key)}
+                    disabled={busy !== null || included.length < 2}
+                  >
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    {busy === key ? 'Merging...' : `Merge ${included.length} Records`}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Merges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {merges.length === 0 ? (
+              <div className="text-center py-4 text-sm text-gray-500">No merges yet</div>
+            ) : (
+              <div className="space-y-2">
+                {merges.map(merge => (
+                  <div key={merge.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {merge.merged_end_users.map(endUser => endUser.company_name).join(', ')}
+                        {' '}&rarr; {merge.survivor?.company_name || 'Deleted end user'}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {merge.moved_deals.length} deal(s) moved by {merge.merged_by_staff?.name || 'Former staff member'}
+                        {' '}&middot; {formatDateTime(merge.created_at)}
+                        {merge.undone_at && ` · undone by ${merge.undone_by_staff?.name || 'Former staff member'} ${formatDateTime(merge.undone_at)}`}
+                      </div>
+                    </div>
+                    {merge.undone_at ? (
+                      <Badge variant="secondary">Undone</Badge>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => handleUndo(merge)} disabled={busy !== null}>
+                        <Undo2 className="h-4 w-4 mr-2" />
+                        {busy === merge.id ? 'Undoing...' : 'Undo'}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </MainLayout>
+  )
+}
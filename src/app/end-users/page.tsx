@@ -1,11 +1,12 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { MainLayout } from '@/components/layout/main-layout'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Search, Plus, Edit, Trash2, Building2 } from 'lucide-react'
+import { Search, Plus, Edit, Trash2, Building2, GitMerge } from 'lucide-react'
 
 interface EndUser {
   id: string
@@ -87,10 +88,18 @@ export default function EndUsersPage() {
               className="pl-10"
             />
           </div>
-          <Button>
-            <Plus className="mr-2 h-4 w-4" />
-            Add End User
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Link href="/end-users/duplicates">
+              <Button variant="outline">
+                <GitMerge className="mr-2 h-4 w-4" />
+                Find Duplicates
+              </Button>
+            </Link>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              Add End User
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -2,6 +2,7 @@ import { MainLayout } from '@/components/layout/main-layout'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { SlaBreachWidget } from '@/components/dashboard/sla-breach-widget'
 import { formatCurrency } from '@/lib/utils'
 import {
   FileText,
@@ -196,6 +197,9 @@ export default function Dashboard() {
             </Button>
           </CardContent>
         </Card>
+
+        {/* SLA breaches */}
+        <SlaBreachWidget />
       </div>
     </MainLayout>
   )
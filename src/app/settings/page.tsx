@@ -1,18 +1,74 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { MainLayout } from '@/components/layout/main-layout'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import { Settings, Users, Shield, Database, Bell } from 'lucide-react'
+import { EligibilityRulesEditor } from '@/components/settings/eligibility-rules-editor'
+import { ConflictDetectionSettingsEditor } from '@/components/settings/conflict-detection-settings'
+import { ConflictSlaSettingsEditor } from '@/components/settings/conflict-sla-settings'
+import { AutoResolutionSettingsEditor } from '@/components/settings/auto-resolution-settings'
+import { ConflictAssignmentSettingsEditor } from '@/components/settings/conflict-assignment-settings'
+import { TerritoryTreeEditor } from '@/components/settings/territory-tree-editor'
+import { DealProtectionSettingsEditor } from '@/components/settings/deal-protection-settings'
+import { ConflictRescanPanel } from '@/components/settings/conflict-rescan-panel'
+import { PERMISSIONS, PERMISSION_LABELS, hasPermission, type Permission } from '@/lib/permissions'
+import { capitalizeFirst } from '@/lib/utils'
+import { Settings, Users, Shield, Database, Bell, ListChecks, AlertTriangle, Globe, Clock } from 'lucide-react'
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('general')
+  const [auditLogging, setAuditLogging] = useState<boolean | null>(null)
+  const [savingAuditLogging, setSavingAuditLogging] = useState(false)
+
+  useEffect(() => {
+    const fetchAuditLogging = async () => {
+      try {
+        const response = await fetch('/api/settings/audit_logging')
+        const result = await response.json()
+        if (response.ok) {
+          setAuditLogging(result.data.enabled)
+        }
+      } catch (error) {
+        console.error('Error fetching audit logging setting:', error)
+      }
+    }
+
+    fetchAuditLogging()
+  }, [])
+
+  const toggleAuditLogging = async () => {
+    if (auditLogging === null) return
+
+    try {
+      setSavingAuditLogging(true)
+      const response = await fetch('/api/settings/audit_logging', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !auditLogging }),
+      })
+      const result = await response.json()
+
+      if (response.ok) {
+        setAuditLogging(result.data.enabled)
+      } else {
+        console.error('Error updating audit logging setting:', result.error)
+      }
+    } catch (error) {
+      console.error('Error updating audit logging setting:', error)
+    } finally {
+      setSavingAuditLogging(false)
+    }
+  }
 
   const tabs = [
     { id: 'general', label: 'General', icon: Settings },
+    { id: 'rules', label: 'Eligibility Rules', icon: ListChecks },
+    { id: 'conflicts', label: 'Conflict Detection', icon: AlertTriangle },
+    { id: 'protection', label: 'Deal Protection', icon: Clock },
+    { id: 'territories', label: 'Territories', icon: Globe },
     { id: 'users', label: 'Users & Permissions', icon: Users },
     { id: 'security', label: 'Security', icon: Shield },
     { id: 'database', label: 'Database', icon: Database },
@@ -55,21 +111,21 @@ export default function SettingsPage() {
               <h4 className="font-medium">Auto-assign deals</h4>
               <p className="text-sm text-gray-600">Automatically assign deals based on territory rules</p>
             </div>
-            <Button variant="outline" size="sm">Configure</Button>
+            <Button variant="outline" size="sm" onClick={() => setActiveTab('rules')}>Configure</Button>
           </div>
           <div className="flex items-center justify-between">
             <div>
               <h4 className="font-medium">Conflict detection</h4>
               <p className="text-sm text-gray-600">Enable automatic conflict detection for overlapping deals</p>
             </div>
-            <Badge variant="success">Enabled</Badge>
+            <Button variant="outline" size="sm" onClick={() => setActiveTab('conflicts')}>Configure</Button>
           </div>
           <div className="flex items-center justify-between">
             <div>
               <h4 className="font-medium">Approval workflow</h4>
               <p className="text-sm text-gray-600">Require manager approval for high-value deals</p>
             </div>
-            <Button variant="outline" size="sm">Configure</Button>
+            <Button variant="outline" size="sm" onClick={() => setActiveTab('rules')}>Configure</Button>
           </div>
         </CardContent>
       </Card>
@@ -116,18 +172,17 @@ export default function SettingsPage() {
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div>
-              <h4 className="font-medium mb-2">Admin</h4>
-              <p className="text-sm text-gray-600">Full system access, user management, settings configuration</p>
-            </div>
-            <div>
-              <h4 className="font-medium mb-2">Manager</h4>
-              <p className="text-sm text-gray-600">Deal assignment, conflict resolution, reporting</p>
-            </div>
-            <div>
-              <h4 className="font-medium mb-2">Staff</h4>
-              <p className="text-sm text-gray-600">View deals, basic conflict management</p>
-            </div>
+            {(['admin', 'manager', 'staff'] as const).map((role) => (
+              <div key={role}>
+                <h4 className="font-medium mb-2">{capitalizeFirst(role)}</h4>
+                <p className="text-sm text-gray-600">
+                  {(Object.keys(PERMISSIONS) as Permission[])
+                    .filter(permission => hasPermission(role, permission))
+                    .map(permission => PERMISSION_LABELS[permission])
+                    .join(', ')}
+                </p>
+              </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -182,7 +237,21 @@ export default function SettingsPage() {
               <h4 className="font-medium">Audit Logging</h4>
               <p className="text-sm text-gray-600">Track all system changes</p>
             </div>
-            <Badge variant="success">Enabled</Badge>
+            <div className="flex items-center space-x-2">
+              {auditLogging !== null && (
+                <Badge variant={auditLogging ? 'success' : 'warning'}>
+                  {auditLogging ? 'Enabled' : 'Disabled'}
+                </Badge>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={toggleAuditLogging}
+                disabled={auditLogging === null || savingAuditLogging}
+              >
+                {auditLogging ? 'Disable' : 'Enable'}
+              </Button>
+            </div>
           </div>
           <div className="flex items-center justify-between">
             <div>
@@ -227,6 +296,7 @@ export default function SettingsPage() {
           <CardTitle>Maintenance</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <ConflictRescanPanel />
           <Button variant="outline" className="w-full">Run Database Cleanup</Button>
           <Button variant="outline" className="w-full">Rebuild Indexes</Button>
           <Button variant="outline" className="w-full">Export Data</Button>
@@ -291,9 +361,22 @@ export default function SettingsPage() {
     </div>
   )
 
+  const renderConflictSettings = () => (
+    <div className="space-y-6">
+      <ConflictDetectionSettingsEditor />
+      <ConflictSlaSettingsEditor />
+      <AutoResolutionSettingsEditor />
+      <ConflictAssignmentSettingsEditor />
+    </div>
+  )
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'general': return renderGeneralSettings()
+      case 'rules': return <EligibilityRulesEditor />
+      case 'conflicts': return renderConflictSettings()
+      case 'protection': return <DealProtectionSettingsEditor />
+      case 'territories': return <TerritoryTreeEditor />
       case 'users': return renderUsersSettings()
       case 'security': return renderSecuritySettings()
       case 'database': return renderDatabaseSettings()
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/components/providers/auth-provider'
+import { isHandleFor, mentionHandle, splitMentions } from '@/lib/mentions'
+import { formatDateTime } from '@/lib/utils'
+import { MessageSquare } from 'lucide-react'
+
+export interface MentionableStaff {
+  id: string
+  name: string
+  email: string
+}
+
+interface Comment {
+  id: string
+  parent_id: string | null
+  body: string
+  mentions: string[]
+  edited_at: string | null
+  created_at: string
+  author: MentionableStaff | null
+}
+
+interface ComposerProps {
+  staff: MentionableStaff[]
+  initialBody?: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<boolean>
+  onCancel?: () => void
+}
+
+function CommentComposer({ staff, initialBody = '', submitLabel, onSubmit, onCancel }: ComposerProps) {
+  const [body, setBody] = useState(initialBody)
+  const [submitting, setSubmitting] = useState(false)
+
+  const insertMention = (email: string) => {
+    const separator = body && !body.endsWith(' ') ? ' ' : ''
+    setBody(`${body}${separator}@${mentionHandle(email, staff)} `)
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    const saved = await onSubmit(body)
+    setSubmitting(false)
+    if (saved && !initialBody) setBody('')
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={3}
+        placeholder="Record a call, evidence or a question. Use @name to mention a colleague."
+        className="w-full p-2 border rounded-md text-sm"
+      />
+      <div className="flex items-center justify-between">
+        <select
+          value=""
+          onChange={(e) => e.target.value && insertMention(e.target.value)}
+          className="text-xs border rounded-md px-1 py-1"
+        >
+          <option value="">Mention...</option>
+          {staff.map(member => (
+            <option key={member.id} value={member.email}>{member.name}</option>
+          ))}
+        </select>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={submitting || !body.trim()}>
+            {submitting ? 'Saving...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function ConflictCommentThread({ conflictId, staff, className }: {
+  conflictId: string
+  staff: MentionableStaff[]
+  className?: string
+}) {
+  const { user } = useAuth()
+  const [comments, setComments] = useState<Comment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<string | null>(null)
+
+  const loadComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/conflicts/${conflictId}/comments`)
+      if (response.ok) {
+        const result = await response.json()
+        setComments(result.data)
+      }
+    } catch (err) {
+      console.error('Error loading comments:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [conflictId])
+
+  useEffect(() => {
+    loadComments()
+  }, [loadComments])
+
+  const saveComment = async (url: string, method: 'POST' | 'PATCH', payload: Record<string, unknown>) => {
+    setError(null)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error)
+        return false
+      }
+
+      const saved: Comment = result.data
+      setComments(current => method === 'POST'
+        ? [...current, saved]
+        : current.map(comment => comment.id === saved.id ? saved : comment))
+      return true
+    } catch (err) {
+      console.error('Error saving comment:', err)
+      setError('Error saving comment')
+      return false
+    }
+  }
+
+  // Staff rows match the signed-in user by id, or by email when they were created separately
+  const isOwn = (comment: Comment) =>
+    !!user && !!comment.author && (comment.author.id === user.id || comment.author.email === user.email)
+
+  const renderBody = (comment: Comment) => splitMentions(comment.body).map((segment, index) => {
+    const { handle } = segment
+    const mentioned = handle && staff.find(member =>
+      isHandleFor(member.email, handle) && comment.mentions.includes(member.id)
+    )
+    return mentioned ? (
+      <span key={index} className="text-blue-600 font-medium" title={mentioned.name}>{segment.text}</span>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  })
+
+  const renderComment = (comment: Comment) => (
+    <div key={comment.id} className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          <span className="font-medium text-gray-900">{comment.author?.name || 'Former staff member'}</span>
+          {' '}&middot; {formatDateTime(comment.created_at)}
+          {comment.edited_at && ' (edited)'}
+        </span>
+        {isOwn(comment) && editing !== comment.id && (
+          <button className="hover:underline" onClick={() => setEditing(comment.id)}>Edit</button>
+        )}
+      </div>
+      {editing === comment.id ? (
+        <CommentComposer
+          staff={staff}
+          initialBody={comment.body}
+          submitLabel="Save"
+          onCancel={() => setEditing(null)}
+          onSubmit={async (body) => {
+            const saved = await saveComment(`/api/conflicts/${conflictId}/comments/${comment.id}`, 'PATCH', { body })
+            if (saved) setEditing(null)
+            return saved
+          }}
+        />
+      ) : (
+        <p className="text-sm whitespace-pre-wrap">{renderBody(comment)}</p>
+      )}
+    </div>
+  )
+
+  const threads = comments.filter(comment => !comment.parent_id)
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Notes ({comments.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-4 text-sm text-gray-500">Loading notes...</div>
+        ) : threads.length === 0 ? (
+          <div className="text-center py-4 text-sm text-gray-500">No notes yet</div>
+        ) : (
+          <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+            {threads.map(thread => (
+              <div key={thread.id} className="border rounded-lg p-3 space-y-3">
+                {renderComment(thread)}
+                <div className="ml-4 pl-3 border-l space-y-3">
+                  {comments.filter(reply => reply.parent_id === thread.id).map(renderComment)}
+                  {replyTo === thread.id ? (
+                    <CommentComposer
+                      staff={staff}
+                      submitLabel="Reply"
+                      onCancel={() => setReplyTo(null)}
+                      onSubmit={async (body) => {
+                        const saved = await saveComment(`/api/conflicts/${conflictId}/comments`, 'POST', {
+                          body,
+                          parent_id: thread.id,
+                        })
+                        if (saved) setReplyTo(null)
+                        return saved
+                      }}
+                    />
+                  ) : (
+                    <button className="text-xs text-blue-600 hover:underline" onClick={() => setReplyTo(thread.id)}>
+                      Reply
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <CommentComposer
+          staff={staff}
+          submitLabel="Add Note"
+          onSubmit={(body) => saveComment(`/api/conflicts/${conflictId}/comments`, 'POST', { body })}
+        />
+      </CardContent>
+    </Card>
+  )
+}
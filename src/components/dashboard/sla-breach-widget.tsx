@@ -0,0 +1,94 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { formatDuration, capitalizeFirst } from '@/lib/utils'
+import { AlertTriangle } from 'lucide-react'
+
+interface BreachingConflict {
+  id: string
+  conflict_type: string
+  priority: 'high' | 'medium' | 'low'
+  due_at: string
+  deal: {
+    id: string
+    end_user: {
+      company_name: string
+    }
+  }
+}
+
+export function SlaBreachWidget() {
+  const [conflicts, setConflicts] = useState<BreachingConflict[]>([])
+  const [overdueCount, setOverdueCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadBreaches = async () => {
+      try {
+        const response = await fetch('/api/conflicts/queue?overdue=true&sort=oldest&limit=5')
+        if (response.ok) {
+          const result = await response.json()
+          setConflicts(result.data.items)
+          setOverdueCount(result.data.total)
+        }
+      } catch (error) {
+        console.error('Error loading SLA breaches:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadBreaches()
+  }, [])
+
+  const overdueBy = (dueAt: string) =>
+    formatDuration(Math.round((Date.now() - new Date(dueAt).getTime()) / (1000 * 60 * 60)))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Oldest Breaching SLA
+          {overdueCount > 0 && <Badge variant="error">{overdueCount} overdue</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-4 text-gray-500">Loading...</div>
+        ) : conflicts.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No conflicts are breaching their SLA</div>
+        ) : (
+          <div className="space-y-3">
+            {conflicts.map((conflict) => (
+              <Link
+                key={conflict.id}
+                href={`/deals/${conflict.deal.id}`}
+                className="flex items-center justify-between border-l-4 border-l-red-500 rounded-md bg-red-50 px-3 py-2"
+              >
+                <div>
+                  <p className="font-medium">{conflict.deal.end_user.company_name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {capitalizeFirst(conflict.conflict_type.replace('_', ' '))} · {conflict.priority} priority
+                  </p>
+                </div>
+                <span className="flex items-center text-sm font-medium text-red-600">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  {overdueBy(conflict.due_at)} over
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
+        <Link href="/conflicts/queue">
+          <Button className="w-full mt-4" variant="outline">
+            Open Triage Queue
+          </Button>
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AUTO_RESOLUTION_POLICY_LABELS } from '@/lib/conflict-resolution'
+import { capitalizeFirst } from '@/lib/utils'
+import { ConflictType, ConflictSeverity } from '@/lib/types'
+import type { AutoResolutionPolicy, ConflictAutoResolutionSettings } from '@/lib/types'
+import { ArrowUp, ArrowDown } from 'lucide-react'
+
+const policyDescriptions: Record<AutoResolutionPolicy['policy'], string> = {
+  first_registration: 'The deal submitted first wins',
+  higher_tier: 'The deal from the reseller with the higher partner tier wins',
+  incumbent_reseller: 'The reseller that already holds an approved deal with the customer wins',
+}
+
+export function AutoResolutionSettingsEditor() {
+  const [settings, setSettings] = useState<ConflictAutoResolutionSettings | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [applying, setApplying] = useState(false)
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/conflict_auto_resolution')
+        if (response.ok) {
+          const result = await response.json()
+          setSettings(result.data)
+        }
+      } catch (err) {
+        console.error('Error loading auto-resolution settings:', err)
+      }
+    }
+
+    loadSettings()
+  }, [])
+
+  const updatePolicy = (index: number, changes: Partial<AutoResolutionPolicy>) => {
+    if (!settings) return
+    const policies = settings.policies.map((policy, i) => i === index ? { ...policy, ...changes } : policy)
+    setSettings({ ...settings, policies })
+    setMessage(null)
+  }
+
+  const movePolicy = (index: number, offset: number) => {
+    if (!settings) return
+    const policies = [...settings.policies]
+    const [moved] = policies.splice(index, 1)
+    policies.splice(index + offset, 0, moved)
+    setSettings({ ...settings, policies })
+    setMessage(null)
+  }
+
+  const toggleValue = <T extends string>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+
+  const handleSave = async () => {
+    if (!settings) return
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/conflict_auto_resolution', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setSettings(result.data)
+        setMessage('Policies saved')
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setError([result.error, ...issues.map(i => i.message)].join(': '))
+      }
+    } catch (err) {
+      console.error('Error saving auto-resolution settings:', err)
+      setError('Error saving auto-resolution settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!confirm('Apply the saved policies to every pending conflict now?')) return
+    setApplying(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/conflicts/auto-resolve', { method: 'POST' })
+      const result = await response.json()
+      if (response.ok) {
+        setMessage(
+          `Resolved ${result.data.resolved.length} deal pair(s); ${result.data.skipped} left for review`
+        )
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error applying auto-resolution:', err)
+      setError('Error applying auto-resolution')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Automatic Tie-Break Policies
+          {settings && (
+            <Badge variant={settings.enabled ? 'success' : 'secondary'}>
+              {settings.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!settings ? (
+          <div className="text-center py-4 text-gray-500">Loading settings...</div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Enabled policies are tried in order. A pair of deals is only resolved automatically when
+              every pending conflict between them matches the policy&apos;s conflict types and severities;
+              anything else stays in the queue for staff.
+            </p>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                />
+                <span>Resolve conflicts automatically</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm">
+                <span>Losing deal becomes</span>
+                <select
+                  value={settings.losing_deal_status}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    losing_deal_status: e.target.value as ConflictAutoResolutionSettings['losing_deal_status']
+                  })}
+                  className="p-2 border rounded-md"
+                >
+                  <option value="disputed">Disputed</option>
+                  <option value="rejected">Rejected</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-3">
+              {settings.policies.map((policy, index) => (
+                <div key={policy.policy} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={policy.enabled}
+                        onChange={(e) => updatePolicy(index, { enabled: e.target.checked })}
+                      />
+                      <span className="font-medium">
+                        {index + 1}. {AUTO_RESOLUTION_POLICY_LABELS[policy.policy]}
+                      </span>
+                    </label>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Move up"
+                        disabled={index === 0}
+                        onClick={() => movePolicy(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Move down"
+                        disabled={index === settings.policies.length - 1}
+                        onClick={() => movePolicy(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-600">{policyDescriptions[policy.policy]}</p>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                    <span className="text-gray-600">Conflict types:</span>
+                    {ConflictType.options.map((type) => (
+                      <label key={type} className="flex items-center space-x-1">
+                        <input
+                          type="checkbox"
+                          checked={policy.conflict_types.includes(type)}
+                          onChange={() => updatePolicy(index, { conflict_types: toggleValue(policy.conflict_types, type) })}
+                        />
+                        <span>{capitalizeFirst(type.replace('_', ' '))}</span>
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                    <span className="text-gray-600">Severities:</span>
+                    {ConflictSeverity.options.map((severity) => (
+                      <label key={severity} className="flex items-center space-x-1">
+                        <input
+                          type="checkbox"
+                          checked={policy.severities.includes(severity)}
+                          onChange={() => updatePolicy(index, { severities: toggleValue(policy.severities, severity) })}
+                        />
+                        <span>{capitalizeFirst(severity)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {message && <p className="text-sm text-green-600">{message}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={handleApply} disabled={applying || !settings.enabled}>
+                {applying ? 'Applying...' : 'Apply to Pending Conflicts'}
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Policies'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
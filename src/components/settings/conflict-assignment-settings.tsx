@@ -0,0 +1,253 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { capitalizeFirst } from '@/lib/utils'
+import type { ConflictAssignmentSettings, Territory } from '@/lib/types'
+import { X } from 'lucide-react'
+
+interface StaffMember {
+  id: string
+  name: string
+  email: string
+  role: 'admin' | 'manager' | 'staff'
+  territory_ids: string[]
+  open_conflicts: number
+}
+
+export function ConflictAssignmentSettingsEditor() {
+  const [settings, setSettings] = useState<ConflictAssignmentSettings | null>(null)
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [territories, setTerritories] = useState<(Territory & { id: string })[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [assigning, setAssigning] = useState(false)
+
+  const loadStaff = useCallback(async () => {
+    try {
+      const response = await fetch('/api/staff')
+      if (response.ok) {
+        const result = await response.json()
+        setStaff(result.data)
+      }
+    } catch (err) {
+      console.error('Error loading staff:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const [settingsResponse, territoriesResponse] = await Promise.all([
+          fetch('/api/settings/conflict_assignment'),
+          fetch('/api/territories'),
+        ])
+        if (settingsResponse.ok) {
+          const result = await settingsResponse.json()
+          setSettings(result.data)
+        }
+        if (territoriesResponse.ok) {
+          const result = await territoriesResponse.json()
+          setTerritories(result.data)
+        }
+      } catch (err) {
+        console.error('Error loading assignment settings:', err)
+      }
+    }
+
+    loadSettings()
+    loadStaff()
+  }, [loadStaff])
+
+  const handleSave = async () => {
+    if (!settings) return
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/conflict_assignment', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setSettings(result.data)
+        setMessage('Assignment settings saved')
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error saving assignment settings:', err)
+      setError('Error saving assignment settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAssign = async () => {
+    setAssigning(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/conflicts/assign', { method: 'POST' })
+      const result = await response.json()
+      if (response.ok) {
+        const count = result.data.assigned.reduce(
+          (sum: number, pair: { conflict_ids: string[] }) => sum + pair.conflict_ids.length, 0
+        )
+        setMessage(`Assigned ${count} conflict(s)`)
+        loadStaff()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error assigning conflicts:', err)
+      setError('Error assigning conflicts')
+    } finally {
+      setAssigning(false)
+    }
+  }
+
+  const updateExpertise = async (member: StaffMember, territoryIds: string[]) => {
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/staff/${member.id}/territories`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ territory_ids: territoryIds }),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setStaff(current => current.map(s => s.id === member.id ? { ...s, territory_ids: result.data.territory_ids } : s))
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error updating staff territories:', err)
+      setError('Error updating staff territories')
+    }
+  }
+
+  const territoryName = (id: string) => territories.find(t => t.id === id)?.name || 'Unknown territory'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          Conflict Assignment
+          {settings && (
+            <Badge variant={settings.enabled ? 'success' : 'secondary'}>
+              {settings.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!settings ? (
+          <div className="text-center py-4 text-gray-500">Loading settings...</div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              New conflicts that are not resolved automatically are routed to a manager or admin.
+              Territory expertise covers the territory and everything beneath it.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+              <label className="flex items-center space-x-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                />
+                <span>Assign new conflicts automatically</span>
+              </label>
+              <select
+                value={settings.strategy}
+                onChange={(e) => setSettings({
+                  ...settings,
+                  strategy: e.target.value as ConflictAssignmentSettings['strategy']
+                })}
+                className="p-2 border rounded-md text-sm"
+              >
+                <option value="least_loaded">Fewest open conflicts</option>
+                <option value="round_robin">Round-robin</option>
+              </select>
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={settings.use_territory_expertise}
+                  onChange={(e) => setSettings({ ...settings, use_territory_expertise: e.target.checked })}
+                />
+                <span>Prefer territory experts</span>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {staff.map((member) => (
+                <div key={member.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium text-sm">
+                      {member.name}{' '}
+                      <span className="text-gray-500 font-normal">({capitalizeFirst(member.role)})</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {member.territory_ids.map((territoryId) => (
+                        <Badge key={territoryId} variant="outline" className="flex items-center">
+                          {territoryName(territoryId)}
+                          <button
+                            className="ml-1"
+                            title="Remove territory"
+                            onClick={() => updateExpertise(member, member.territory_ids.filter(id => id !== territoryId))}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && updateExpertise(member, [...member.territory_ids, e.target.value])}
+                        className="text-xs border rounded-md px-1"
+                      >
+                        <option value="">Add territory...</option>
+                        {territories
+                          .filter(t => !member.territory_ids.includes(t.id))
+                          .map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                  <span className="text-sm text-gray-600">{member.open_conflicts} open</span>
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {message && <p className="text-sm text-green-600">{message}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={handleAssign} disabled={assigning || !settings.enabled}>
+                {assigning ? 'Assigning...' : 'Assign Unassigned Conflicts'}
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Assignment Settings'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
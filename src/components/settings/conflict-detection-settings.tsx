@@ -0,0 +1,222 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { formatDateTime } from '@/lib/utils'
+import type { ConflictDetectionSettings, SettingVersion } from '@/lib/types'
+
+type ThresholdField = Exclude<keyof ConflictDetectionSettings, 'free_email_domains'>
+
+const fields: { key: ThresholdField; label: string; description: string; step: string }[] = [
+  {
+    key: 'company_name_threshold',
+    label: 'Company name similarity',
+    description: 'Minimum similarity (0-1) for two end users to be flagged as a possible duplicate',
+    step: '0.01',
+  },
+  {
+    key: 'duplicate_threshold',
+    label: 'Duplicate similarity',
+    description: 'Similarity (0-1) at which a possible duplicate is treated as high severity',
+    step: '0.01',
+  },
+  {
+    key: 'related_company_threshold',
+    label: 'Related company similarity',
+    description: 'Similarity (0-1) used to link territory and timing conflicts to the same end user',
+    step: '0.01',
+  },
+  {
+    key: 'candidate_similarity_threshold',
+    label: 'Candidate trigram similarity',
+    description: 'Minimum database trigram similarity (0-1) for an existing deal to be compared at all',
+    step: '0.01',
+  },
+  {
+    key: 'product_overlap_threshold',
+    label: 'Product overlap',
+    description: 'Quantity-weighted share (0-1) of product lines two deals must have in common to conflict',
+    step: '0.01',
+  },
+  {
+    key: 'timing_window_days',
+    label: 'Timing window (days)',
+    description: 'Deals submitted within this many days of each other are compared for timing conflicts',
+    step: '1',
+  },
+  {
+    key: 'value_tolerance',
+    label: 'Deal value tolerance',
+    description: 'Relative difference (0-1) under which two deal values count as similar',
+    step: '0.01',
+  },
+]
+
+type SettingsForm = Record<ThresholdField, string> & { free_email_domains: string }
+
+const toForm = (settings: ConflictDetectionSettings): SettingsForm => ({
+  ...Object.fromEntries(fields.map(({ key }) => [key, String(settings[key])])) as Record<ThresholdField, string>,
+  free_email_domains: settings.free_email_domains.join(', '),
+})
+
+export function ConflictDetectionSettingsEditor() {
+  const [form, setForm] = useState<SettingsForm | null>(null)
+  const [versions, setVersions] = useState<SettingVersion[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const [settingsResponse, historyResponse] = await Promise.all([
+        fetch('/api/settings/conflict_detection'),
+        fetch('/api/settings/conflict_detection/history'),
+      ])
+
+      if (settingsResponse.ok) {
+        const result = await settingsResponse.json()
+        setForm(toForm(result.data))
+      }
+
+      if (historyResponse.ok) {
+        const result = await historyResponse.json()
+        setVersions(result.data)
+      }
+    } catch (err) {
+      console.error('Error loading conflict detection settings:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSettings()
+  }, [loadSettings])
+
+  const saveSettings = async (value: Record<string, unknown>) => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/settings/conflict_detection', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(value),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        loadSettings()
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setError([result.error, ...issues.map(i => i.message)].join(': '))
+      }
+    } catch (err) {
+      console.error('Error saving conflict detection settings:', err)
+      setError('Error saving conflict detection settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    if (!form) return
+    saveSettings({
+      ...Object.fromEntries(fields.map(({ key }) => [key, Number(form[key])])),
+      free_email_domains: form.free_email_domains.split(',').map(d => d.trim()).filter(Boolean),
+    })
+  }
+
+  const handleRestore = (version: SettingVersion) => {
+    if (!confirm(`Restore version ${version.version} of the conflict detection thresholds?`)) return
+    saveSettings(version.value as Record<string, unknown>)
+  }
+
+  const currentVersion = versions[0]?.version
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Conflict Detection Thresholds
+            {currentVersion !== undefined && <Badge variant="outline">Version {currentVersion}</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!form ? (
+            <div className="text-center py-4 text-gray-500">Loading settings...</div>
+          ) : (
+            <>
+              {fields.map(({ key, label, description, step }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium mb-1">{label}</label>
+                  <p className="text-xs text-gray-600 mb-2">{description}</p>
+                  <Input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={form[key]}
+                    onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Free-mail domains</label>
+                <p className="text-xs text-gray-600 mb-2">
+                  Comma-separated providers whose addresses never count as a shared corporate domain
+                </p>
+                <textarea
+                  value={form.free_email_domains}
+                  onChange={(e) => setForm({ ...form, free_email_domains: e.target.value })}
+                  rows={3}
+                  className="w-full p-2 border rounded-md text-sm"
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Thresholds'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Version History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {versions.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">No saved versions yet - the defaults are in use</div>
+          ) : (
+            <div className="space-y-3">
+              {versions.map((version, index) => (
+                <div key={version.id} className="flex items-center justify-between border-l-2 border-gray-200 pl-4 text-sm">
+                  <div>
+                    <p className="font-medium">Version {version.version}</p>
+                    {version.created_at && (
+                      <p className="text-xs text-gray-500">{formatDateTime(version.created_at)}</p>
+                    )}
+                  </div>
+                  {index > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(version)} disabled={saving}>
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { formatDateTime } from '@/lib/utils'
+import type { ConflictRescanJob } from '@/lib/types'
+import { RefreshCw } from 'lucide-react'
+
+const statusVariant = {
+  running: 'warning',
+  completed: 'success',
+  failed: 'error',
+} as const
+
+export function ConflictRescanPanel() {
+  const [job, setJob] = useState<ConflictRescanJob | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLatestJob = useCallback(async () => {
+    try {
+      const response = await fetch('/api/conflicts/rescan?limit=1')
+      if (response.ok) {
+        const result = await response.json()
+        setJob(result.data[0] || null)
+      }
+    } catch (err) {
+      console.error('Error loading rescan jobs:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadLatestJob()
+  }, [loadLatestJob])
+
+  // Each step scans one batch; keep stepping until the job completes or fails
+  const runJob = async (jobId: string) => {
+    setScanning(true)
+    setError(null)
+
+    try {
+      let status = 'running'
+      while (status === 'running') {
+        const response = await fetch(`/api/conflicts/rescan/${jobId}`, { method: 'POST' })
+        const result = await response.json()
+
+        if (!response.ok) {
+          setError(result.error)
+          break
+        }
+
+        setJob(result.data)
+        status = result.data.status
+      }
+    } catch (err) {
+      console.error('Error running conflict re-scan:', err)
+      setError('Error running conflict re-scan')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const startJob = async () => {
+    if (!confirm('Re-scan all open deals for conflicts? New conflicts will be added to the review queue.')) return
+    setError(null)
+
+    try {
+      const response = await fetch('/api/conflicts/rescan', { method: 'POST' })
+      const result = await response.json()
+
+      if (response.ok) {
+        setJob(result.data)
+        await runJob(result.data.id)
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error starting conflict re-scan:', err)
+      setError('Error starting conflict re-scan')
+    }
+  }
+
+  const progress = job && job.total_deals > 0
+    ? Math.min(100, Math.round((job.processed_deals / job.total_deals) * 100))
+    : 0
+  const interrupted = job?.status === 'running' && !scanning
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Conflict Re-scan</h4>
+          <p className="text-sm text-gray-600">
+            Re-run conflict detection over all open deals after fixing data or changing thresholds
+          </p>
+        </div>
+        {interrupted ? (
+          <Button variant="outline" onClick={() => runJob(job.id as string)}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Resume
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={startJob} disabled={scanning}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${scanning ? 'animate-spin' : ''}`} />
+            {scanning ? 'Scanning...' : 'Re-scan Conflicts'}
+          </Button>
+        )}
+      </div>
+
+      {job && (
+        <div className="space-y-2 text-sm">
+          <div className="flex items-center justify-between">
+            <span>
+              {job.processed_deals} of {job.total_deals} deals scanned
+            </span>
+            <Badge variant={statusVariant[job.status]}>{job.status}</Badge>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${progress}%` }} />
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <p className="text-lg font-semibold">{job.new_conflicts}</p>
+              <p className="text-xs text-gray-600">New</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold">{job.unchanged_conflicts}</p>
+              <p className="text-xs text-gray-600">Unchanged</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold">{job.stale_conflicts}</p>
+              <p className="text-xs text-gray-600">Stale</p>
+            </div>
+          </div>
+          {job.stale_conflicts > 0 && job.status === 'completed' && (
+            <p className="text-xs text-gray-600">
+              Stale conflicts are pending conflicts that are no longer detected. They stay in the
+              queue for review.
+            </p>
+          )}
+          {job.error && <p className="text-red-600">{job.error}</p>}
+          {job.created_at && (
+            <p className="text-xs text-gray-500">
+              Started {formatDateTime(job.created_at)}
+              {job.completed_at && `, finished ${formatDateTime(job.completed_at)}`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
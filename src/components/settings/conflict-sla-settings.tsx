@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { ConflictSlaSettings } from '@/lib/types'
+
+const fields: { key: keyof ConflictSlaSettings; label: string }[] = [
+  { key: 'high_hours', label: 'High priority' },
+  { key: 'medium_hours', label: 'Medium priority' },
+  { key: 'low_hours', label: 'Low priority' },
+]
+
+type SlaForm = Record<keyof ConflictSlaSettings, string>
+
+export function ConflictSlaSettingsEditor() {
+  const [form, setForm] = useState<SlaForm | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/conflict_sla')
+        if (response.ok) {
+          const result = await response.json()
+          const settings = result.data as ConflictSlaSettings
+          setForm({
+            high_hours: String(settings.high_hours),
+            medium_hours: String(settings.medium_hours),
+            low_hours: String(settings.low_hours),
+          })
+        }
+      } catch (err) {
+        console.error('Error loading conflict SLA settings:', err)
+      }
+    }
+
+    loadSettings()
+  }, [])
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setSaved(false)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/settings/conflict_sla', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(Object.fromEntries(fields.map(({ key }) => [key, Number(form[key])]))),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setSaved(true)
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setError([result.error, ...issues.map(i => i.message)].join(': '))
+      }
+    } catch (err) {
+      console.error('Error saving conflict SLA settings:', err)
+      setError('Error saving conflict SLA settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Resolution SLA Targets</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!form ? (
+          <div className="text-center py-4 text-gray-500">Loading settings...</div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Hours a pending conflict may wait in the triage queue before it is flagged as breaching its SLA
+            </p>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              {fields.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium mb-2">{label} (hours)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form[key]}
+                    onChange={(e) => {
+                      setForm({ ...form, [key]: e.target.value })
+                      setSaved(false)
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex items-center justify-end space-x-3">
+              {saved && <span className="text-sm text-green-600">Saved</span>}
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save SLA Targets'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
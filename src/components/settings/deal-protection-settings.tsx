@@ -0,0 +1,207 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { DealProtectionSettings } from '@/lib/types'
+
+const tiers: { key: keyof DealProtectionSettings['tier_days']; label: string }[] = [
+  { key: 'gold', label: 'Gold' },
+  { key: 'silver', label: 'Silver' },
+  { key: 'bronze', label: 'Bronze' },
+]
+
+// Inputs are kept as strings; a blank category falls back to the reseller's tier
+type ProtectionForm = {
+  tier_days: Record<keyof DealProtectionSettings['tier_days'], string>
+  category_days: Record<string, string>
+  expiring_soon_days: string
+}
+
+export function DealProtectionSettingsEditor() {
+  const [form, setForm] = useState<ProtectionForm | null>(null)
+  const [categories, setCategories] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [expiring, setExpiring] = useState(false)
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const [settingsResponse, productsResponse] = await Promise.all([
+          fetch('/api/settings/deal_protection'),
+          fetch('/api/products?limit=1000'),
+        ])
+        const productCategories: string[] = []
+        if (productsResponse.ok) {
+          const result = await productsResponse.json()
+          productCategories.push(...result.data.items.map((product: { category: string }) => product.category))
+        }
+        if (settingsResponse.ok) {
+          const result = await settingsResponse.json()
+          const settings = result.data as DealProtectionSettings
+          setForm({
+            tier_days: {
+              gold: String(settings.tier_days.gold),
+              silver: String(settings.tier_days.silver),
+              bronze: String(settings.tier_days.bronze),
+            },
+            category_days: Object.fromEntries(
+              Object.entries(settings.category_days).map(([category, days]) => [category, String(days)])
+            ),
+            expiring_soon_days: String(settings.expiring_soon_days),
+          })
+          // Categories whose products were removed stay editable until their override is cleared
+          productCategories.push(...Object.keys(settings.category_days))
+        }
+        setCategories([...new Set(productCategories)].sort())
+      } catch (err) {
+        console.error('Error loading deal protection settings:', err)
+      }
+    }
+
+    loadSettings()
+  }, [])
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/settings/deal_protection', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          tier_days: Object.fromEntries(tiers.map(({ key }) => [key, Number(form.tier_days[key])])),
+          category_days: Object.fromEntries(
+            Object.entries(form.category_days)
+              .filter(([, days]) => days.trim() !== '')
+              .map(([category, days]) => [category, Number(days)])
+          ),
+          expiring_soon_days: Number(form.expiring_soon_days),
+        }),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setMessage('Protection periods saved')
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setError([result.error, ...issues.map(i => i.message)].join(': '))
+      }
+    } catch (err) {
+      console.error('Error saving deal protection settings:', err)
+      setError('Error saving deal protection settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExpire = async () => {
+    setExpiring(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/deals/expire', { method: 'POST' })
+      const result = await response.json()
+      if (response.ok) {
+        setMessage(`Expired ${result.data.expired.length} deal(s)`)
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error expiring deals:', err)
+      setError('Error expiring deals')
+    } finally {
+      setExpiring(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Registration Protection</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!form ? (
+          <div className="text-center py-4 text-gray-500">Loading settings...</div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Days an approved deal protects its reseller, counted from approval. A product category period
+              overrides the tier; expired deals no longer take part in conflict detection.
+            </p>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+              {tiers.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium mb-2">{label} partners (days)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={form.tier_days[key]}
+                    onChange={(e) => setForm({ ...form, tier_days: { ...form.tier_days, [key]: e.target.value } })}
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium mb-2">Expiring soon within (days)</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={form.expiring_soon_days}
+                  onChange={(e) => setForm({ ...form, expiring_soon_days: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {categories.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Product category overrides (days)</h4>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+                  {categories.map(category => (
+                    <div key={category}>
+                      <label className="block text-sm mb-2">{category}</label>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        placeholder="Tier default"
+                        value={form.category_days[category] || ''}
+                        onChange={(e) => setForm({
+                          ...form,
+                          category_days: { ...form.category_days, [category]: e.target.value },
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {message && <p className="text-sm text-green-600">{message}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={handleExpire} disabled={expiring}>
+                {expiring ? 'Expiring...' : 'Expire Due Deals Now'}
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Protection Periods'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
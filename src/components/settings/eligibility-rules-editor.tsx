@@ -0,0 +1,502 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency } from '@/lib/utils'
+import type { EligibilityRule, Territory } from '@/lib/types'
+import { Plus, Edit, Trash2 } from 'lucide-react'
+
+type RuleType = EligibilityRule['rule_type']
+
+type RuleForm = {
+  id?: string
+  name: string
+  description: string
+  rule_type: RuleType
+  action: 'reject' | 'flag'
+  match_reseller_territory: boolean
+  territory_ids: string[]
+  blocked_categories: string
+  blocked_product_ids: string
+  applies_to_tiers: string[]
+  min_value: string
+  max_value: string
+  min_tier: 'gold' | 'silver' | 'bronze'
+}
+
+const emptyForm: RuleForm = {
+  name: '',
+  description: '',
+  rule_type: 'deal_size',
+  action: 'reject',
+  match_reseller_territory: false,
+  territory_ids: [],
+  blocked_categories: '',
+  blocked_product_ids: '',
+  applies_to_tiers: [],
+  min_value: '',
+  max_value: '',
+  min_tier: 'gold',
+}
+
+const ruleTypeLabels: Record<RuleType, string> = {
+  territory: 'Territory',
+  product: 'Product',
+  deal_size: 'Deal size',
+  partner_tier: 'Partner tier',
+}
+
+const tiers = ['gold', 'silver', 'bronze'] as const
+
+const splitList = (value: string) =>
+  value.split(',').map(v => v.trim()).filter(Boolean)
+
+const toNumberOrNull = (value: string) =>
+  value.trim() === '' ? null : Number(value)
+
+// Maps the flat form state onto the conditions shape expected for each rule type
+function buildConditions(form: RuleForm): Record<string, unknown> {
+  switch (form.rule_type) {
+    case 'territory':
+      return {
+        allowed_territories: [
+          ...(form.match_reseller_territory ? ['match_reseller_territory'] : []),
+          ...form.territory_ids,
+        ],
+        action: form.action,
+      }
+    case 'product':
+      return {
+        blocked_categories: splitList(form.blocked_categories),
+        blocked_product_ids: splitList(form.blocked_product_ids),
+        ...(form.applies_to_tiers.length > 0 && { applies_to_tiers: form.applies_to_tiers }),
+        action: form.action,
+      }
+    case 'deal_size':
+      return {
+        min_value: toNumberOrNull(form.min_value),
+        max_value: toNumberOrNull(form.max_value),
+        ...(form.applies_to_tiers.length > 0 && { applies_to_tiers: form.applies_to_tiers }),
+        action: form.action,
+      }
+    case 'partner_tier':
+      return {
+        min_tier: form.min_tier,
+        max_deal_value: toNumberOrNull(form.max_value),
+        action: form.action,
+      }
+  }
+}
+
+function toForm(rule: EligibilityRule): RuleForm {
+  const c = rule.conditions as Record<string, unknown>
+  const list = (key: string) => (Array.isArray(c[key]) ? (c[key] as string[]) : [])
+  const num = (key: string) => (typeof c[key] === 'number' ? String(c[key]) : '')
+
+  return {
+    ...emptyForm,
+    id: rule.id,
+    name: rule.name,
+    description: rule.description || '',
+    rule_type: rule.rule_type,
+    action: c.action === 'flag' ? 'flag' : 'reject',
+    match_reseller_territory: list('allowed_territories').includes('match_reseller_territory'),
+    territory_ids: list('allowed_territories').filter(t => t !== 'match_reseller_territory'),
+    blocked_categories: list('blocked_categories').join(', '),
+    blocked_product_ids: list('blocked_product_ids').join(', '),
+    applies_to_tiers: list('applies_to_tiers'),
+    min_value: num('min_value'),
+    max_value: rule.rule_type === 'partner_tier' ? num('max_deal_value') : num('max_value'),
+    min_tier: (c.min_tier as RuleForm['min_tier']) || 'gold',
+  }
+}
+
+function describeConditions(rule: EligibilityRule, territoryName: (id: string) => string): string {
+  const c = rule.conditions as Record<string, unknown>
+  switch (rule.rule_type) {
+    case 'territory':
+      return `Allowed: ${((c.allowed_territories as string[]) || [])
+        .map(t => (t === 'match_reseller_territory' ? "reseller's territory" : territoryName(t)))
+        .join(', ')}`
+    case 'product':
+      return `Blocked categories: ${((c.blocked_categories as string[]) || []).join(', ') || 'none'}`
+    case 'deal_size': {
+      const parts = []
+      if (typeof c.min_value === 'number') parts.push(`min ${formatCurrency(c.min_value)}`)
+      if (typeof c.max_value === 'number') parts.push(`max ${formatCurrency(c.max_value)}`)
+      const appliesTo = (c.applies_to_tiers as string[]) || []
+      return `${parts.join(', ') || 'No limits'}${appliesTo.length ? ` for ${appliesTo.join('/')}` : ''}`
+    }
+    case 'partner_tier':
+      return `${c.min_tier}+ partners: ${
+        typeof c.max_deal_value === 'number' ? `up to ${formatCurrency(c.max_deal_value)}` : 'any deal size'
+      }`
+  }
+}
+
+export function EligibilityRulesEditor() {
+  const [rules, setRules] = useState<EligibilityRule[]>([])
+  const [territories, setTerritories] = useState<(Territory & { id: string })[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<RuleForm | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/eligibility-rules')
+      if (response.ok) {
+        const result = await response.json()
+        setRules(result.data)
+      }
+    } catch (err) {
+      console.error('Error loading eligibility rules:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  useEffect(() => {
+    const loadTerritories = async () => {
+      try {
+        const response = await fetch('/api/territories')
+        if (response.ok) {
+          const result = await response.json()
+          setTerritories(result.data)
+        }
+      } catch (err) {
+        console.error('Error loading territories:', err)
+      }
+    }
+
+    loadTerritories()
+  }, [])
+
+  const territoryName = (id: string) => territories.find(t => t.id === id)?.name || 'Unknown territory'
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(current => (current ? { ...current, ...changes } : current))
+  }
+
+  const toggleTier = (tier: string) => {
+    if (!form) return
+    updateForm({
+      applies_to_tiers: form.applies_to_tiers.includes(tier)
+        ? form.applies_to_tiers.filter(t => t !== tier)
+        : [...form.applies_to_tiers, tier],
+    })
+  }
+
+  const toggleTerritory = (territoryId: string) => {
+    if (!form) return
+    updateForm({
+      territory_ids: form.territory_ids.includes(territoryId)
+        ? form.territory_ids.filter(id => id !== territoryId)
+        : [...form.territory_ids, territoryId],
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const payload = {
+        name: form.name,
+        description: form.description || null,
+        rule_type: form.rule_type,
+        conditions: buildConditions(form),
+      }
+
+      const response = await fetch(
+        form.id ? `/api/eligibility-rules/${form.id}` : '/api/eligibility-rules',
+        {
+          method: form.id ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(payload),
+        }
+      )
+
+      const result = await response.json()
+      if (response.ok) {
+        setForm(null)
+        loadRules()
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setError([result.error, ...issues.map(i => i.message)].join(': '))
+      }
+    } catch (err) {
+      console.error('Error saving eligibility rule:', err)
+      setError('Error saving eligibility rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: EligibilityRule) => {
+    try {
+      const response = await fetch(`/api/eligibility-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ is_active: !rule.is_active }),
+      })
+
+      if (response.ok) {
+        loadRules()
+      }
+    } catch (err) {
+      console.error('Error toggling eligibility rule:', err)
+    }
+  }
+
+  const handleDelete = async (rule: EligibilityRule) => {
+    if (!confirm(`Delete the "${rule.name}" rule?`)) return
+
+    try {
+      const response = await fetch(`/api/eligibility-rules/${rule.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        loadRules()
+      }
+    } catch (err) {
+      console.error('Error deleting eligibility rule:', err)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Eligibility Rules
+            <Button size="sm" onClick={() => { setForm({ ...emptyForm }); setError(null) }}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading rules...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No eligibility rules configured</div>
+          ) : (
+            <div className="space-y-4">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-medium">{rule.name}</h4>
+                      <Badge variant="outline">{ruleTypeLabels[rule.rule_type]}</Badge>
+                      <Badge variant={(rule.conditions as { action?: string }).action === 'flag' ? 'warning' : 'error'}>
+                        {(rule.conditions as { action?: string }).action === 'flag' ? 'Flag' : 'Reject'}
+                      </Badge>
+                    </div>
+                    {rule.description && (
+                      <p className="text-sm text-gray-600">{rule.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">{describeConditions(rule, territoryName)}</p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleToggle(rule)}>
+                      {rule.is_active ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Badge variant={rule.is_active ? 'success' : 'secondary'}>
+                      {rule.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                    <Button variant="ghost" size="sm" onClick={() => { setForm(toForm(rule)); setError(null) }}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{form.id ? 'Edit Rule' : 'New Rule'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Name *</label>
+                <Input value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Rule Type *</label>
+                <select
+                  value={form.rule_type}
+                  onChange={(e) => updateForm({ rule_type: e.target.value as RuleType })}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {Object.entries(ruleTypeLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Description</label>
+              <Input value={form.description} onChange={(e) => updateForm({ description: e.target.value })} />
+            </div>
+
+            {form.rule_type === 'territory' && (
+              <>
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.match_reseller_territory}
+                    onChange={(e) => updateForm({ match_reseller_territory: e.target.checked })}
+                  />
+                  <span>Allow the reseller&apos;s own territory</span>
+                </label>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Other allowed territories</label>
+                  <div className="grid grid-cols-2 gap-2 md:grid-cols-3">
+                    {territories.map(territory => (
+                      <label key={territory.id} className="flex items-center space-x-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={form.territory_ids.includes(territory.id)}
+                          onChange={() => toggleTerritory(territory.id)}
+                        />
+                        <span>{territory.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Allowing a territory allows everything beneath it</p>
+                </div>
+              </>
+            )}
+
+            {form.rule_type === 'product' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Blocked categories</label>
+                  <Input
+                    value={form.blocked_categories}
+                    onChange={(e) => updateForm({ blocked_categories: e.target.value })}
+                    placeholder="Comma-separated, e.g. Hardware, Services"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Blocked product IDs</label>
+                  <Input
+                    value={form.blocked_product_ids}
+                    onChange={(e) => updateForm({ blocked_product_ids: e.target.value })}
+                    placeholder="Comma-separated product IDs"
+                  />
+                </div>
+              </>
+            )}
+
+            {form.rule_type === 'deal_size' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Minimum value</label>
+                  <Input type="number" min="0" value={form.min_value} onChange={(e) => updateForm({ min_value: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Maximum value</label>
+                  <Input type="number" min="0" value={form.max_value} onChange={(e) => updateForm({ max_value: e.target.value })} />
+                </div>
+              </div>
+            )}
+
+            {form.rule_type === 'partner_tier' && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Minimum tier</label>
+                  <select
+                    value={form.min_tier}
+                    onChange={(e) => updateForm({ min_tier: e.target.value as RuleForm['min_tier'] })}
+                    className="w-full p-2 border rounded-md"
+                  >
+                    {tiers.map(tier => (
+                      <option key={tier} value={tier}>{tier}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Maximum deal value</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={form.max_value}
+                    onChange={(e) => updateForm({ max_value: e.target.value })}
+                    placeholder="Leave empty for no limit"
+                  />
+                </div>
+              </div>
+            )}
+
+            {(form.rule_type === 'product' || form.rule_type === 'deal_size') && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Applies to tiers</label>
+                <div className="flex space-x-4">
+                  {tiers.map(tier => (
+                    <label key={tier} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.applies_to_tiers.includes(tier)}
+                        onChange={() => toggleTier(tier)}
+                      />
+                      <span>{tier}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Leave all unchecked to apply to every tier</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium mb-2">When violated</label>
+              <select
+                value={form.action}
+                onChange={(e) => updateForm({ action: e.target.value as RuleForm['action'] })}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="reject">Reject the submission</option>
+                <option value="flag">Flag for review</option>
+              </select>
+            </div>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            <div className="flex justify-end space-x-4">
+              <Button variant="outline" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Rule'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
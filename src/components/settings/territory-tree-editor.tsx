@@ -0,0 +1,203 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { TerritoryHierarchy, type TerritoryNode } from '@/lib/territories'
+import type { Territory } from '@/lib/types'
+import { Plus, Edit, Trash2 } from 'lucide-react'
+
+type TerritoryForm = {
+  id?: string
+  name: string
+  parent_id: string
+}
+
+export function TerritoryTreeEditor() {
+  const [territories, setTerritories] = useState<Territory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<TerritoryForm | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const hierarchy = useMemo(() => new TerritoryHierarchy(territories), [territories])
+  const nodes = useMemo(() => hierarchy.flatten(), [hierarchy])
+
+  const loadTerritories = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/territories')
+      if (response.ok) {
+        const result = await response.json()
+        setTerritories(result.data)
+      }
+    } catch (err) {
+      console.error('Error loading territories:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTerritories()
+  }, [loadTerritories])
+
+  const openForm = (next: TerritoryForm) => {
+    setForm(next)
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(form.id ? `/api/territories/${form.id}` : '/api/territories', {
+        method: form.id ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: form.name, parent_id: form.parent_id || null }),
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        setForm(null)
+        loadTerritories()
+      } else {
+        const issues = (result.details || []) as { message: string }[]
+        setError([result.error, ...issues.map(i => i.message)].join(': '))
+      }
+    } catch (err) {
+      console.error('Error saving territory:', err)
+      setError('Error saving territory')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (territory: TerritoryNode) => {
+    if (!confirm(`Delete the "${territory.name}" territory?`)) return
+
+    try {
+      const response = await fetch(`/api/territories/${territory.id}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+      if (response.ok) {
+        loadTerritories()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      console.error('Error deleting territory:', err)
+    }
+  }
+
+  // A territory can't be placed beneath itself or its own descendants
+  const parentOptions = nodes.filter(node => !form?.id || !hierarchy.contains(form.id, node.id))
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Territories
+            <Button size="sm" onClick={() => openForm({ name: '', parent_id: '' })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Territory
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600 mb-4">
+            Territories overlap when one contains the other, so a deal in a parent territory
+            conflicts with deals anywhere beneath it.
+          </p>
+
+          {error && !form && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          {loading ? (
+            <div className="text-center py-4 text-gray-500">Loading territories...</div>
+          ) : nodes.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">No territories configured</div>
+          ) : (
+            <div className="space-y-1">
+              {nodes.map((node) => (
+                <div
+                  key={node.id}
+                  className="flex items-center justify-between py-2 border-b last:border-b-0"
+                  style={{ paddingLeft: `${node.depth * 1.5}rem` }}
+                >
+                  <span className={node.depth === 0 ? 'font-medium' : ''}>{node.name}</span>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Add child territory"
+                      onClick={() => openForm({ name: '', parent_id: node.id })}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Rename or move"
+                      onClick={() => openForm({ id: node.id, name: node.name, parent_id: node.parent_id || '' })}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(node)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{form.id ? 'Edit Territory' : 'New Territory'}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Name</label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Parent Territory</label>
+              <select
+                value={form.parent_id}
+                onChange={(e) => setForm({ ...form, parent_id: e.target.value })}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="">None (top level)</option>
+                {parentOptions.map((node) => (
+                  <option key={node.id} value={node.id}>
+                    {'— '.repeat(node.depth)}{node.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+                {saving ? 'Saving...' : 'Save Territory'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { createAdminClient } from './supabase'
+import { getSetting } from './settings'
+import { AuditEntityType } from './types'
+import { z } from 'zod'
+
+export type AuditRecord = Record<string, unknown>
+
+export interface AuditEventInput {
+  actorId: string | null
+  entityType: z.infer<typeof AuditEntityType>
+  entityId: string
+  action: string
+  before?: AuditRecord | null
+  after?: AuditRecord | null
+}
+
+// Bookkeeping columns that change on every write and would drown out real changes
+const IGNORED_FIELDS = ['updated_at']
+
+// Field-level diff between two snapshots; nested values are compared structurally
+export function diffRecords(
+  before: AuditRecord | null | undefined,
+  after: AuditRecord | null | undefined
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {}
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.includes(key)) continue
+
+    const from = before?.[key] ?? null
+    const to = after?.[key] ?? null
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to }
+    }
+  }
+
+  return changes
+}
+
+// Records a mutating action. Failures are logged and never fail the caller's request.
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  try {
+    // Setting changes are always kept, so turning logging off leaves a trace
+    const { enabled } = await getSetting('audit_logging')
+    if (!enabled && event.entityType !== 'setting') return
+
+    const supabase = createAdminClient()
+    const { error } = await supabase
+      .from('audit_events')
+      .insert({
+        actor_id: event.actorId,
+        entity_type: event.entityType,
+        entity_id: event.entityId,
+        action: event.action,
+        before: event.before ?? null,
+        after: event.after ?? null,
+        changes: diffRecords(event.before, event.after),
+      })
+
+    if (error) {
+      console.error('Error recording audit event:', error)
+    }
+  } catch (error) {
+    console.error('Audit logging error:', error)
+  }
+}
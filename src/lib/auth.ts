@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import type { User } from '@supabase/supabase-js'
+import type { StaffUser } from './types'
+import { PERMISSIONS, hasPermission, type Permission } from './permissions'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+// Route handler client bound to the caller's session cookies
+export const createRouteHandlerClient = async () => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables')
+  }
+  const cookieStore = await cookies()
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll: () => cookieStore.getAll(),
+      setAll: (cookiesToSet) => {
+        cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+      },
+    },
+  })
+}
+
+export type RouteHandlerClient = Awaited<ReturnType<typeof createRouteHandlerClient>>
+
+// Rows read back from staff_users always carry their id
+export type AuthenticatedStaffUser = StaffUser & { id: string }
+
+// Staff rows are matched on the auth user id first, then on email
+async function findStaffUser(supabase: RouteHandlerClient, user: User): Promise<AuthenticatedStaffUser | null> {
+  const { data: staffById } = await supabase
+    .from('staff_users')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  if (staffById) return staffById
+
+  if (!user.email) return null
+
+  const { data: staffByEmail } = await supabase
+    .from('staff_users')
+    .select('*')
+    .eq('email', user.email)
+    .maybeSingle()
+
+  return staffByEmail || null
+}
+
+// Resolves the signed-in Supabase user to their staff_users row
+export async function getCurrentStaffUser(): Promise<AuthenticatedStaffUser | null> {
+  try {
+    const supabase = await createRouteHandlerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) return null
+
+    return await findStaffUser(supabase, user)
+  } catch (error) {
+    console.error('Error resolving current staff user:', error)
+    return null
+  }
+}
+
+export type AuthorizationResult =
+  | { staffUser: AuthenticatedStaffUser; supabase: RouteHandlerClient; response: null }
+  | { staffUser: null; supabase: null; response: NextResponse }
+
+// Checks that the caller is a signed-in staff user whose role grants the permission.
+// Route handlers return `response` as-is when it is set, and otherwise query through
+// `supabase`, which carries the caller's session so RLS policies see who they are.
+export async function authorize(permission: Permission): Promise<AuthorizationResult> {
+  try {
+    const supabase = await createRouteHandlerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return {
+        staffUser: null,
+        supabase: null,
+        response: NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        )
+      }
+    }
+
+    const staffUser = await findStaffUser(supabase, user)
+
+    if (!staffUser) {
+      return {
+        staffUser: null,
+        supabase: null,
+        response: NextResponse.json(
+          { error: 'No staff account is linked to this user' },
+          { status: 403 }
+        )
+      }
+    }
+
+    if (!hasPermission(staffUser.role, permission)) {
+      return {
+        staffUser: null,
+        supabase: null,
+        response: NextResponse.json(
+          { error: `This action requires the ${PERMISSIONS[permission]} role` },
+          { status: 403 }
+        )
+      }
+    }
+
+    return { staffUser, supabase, response: null }
+  } catch (error) {
+    console.error('Authorization error:', error)
+    return {
+      staffUser: null,
+      supabase: null,
+      response: NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      )
+    }
+  }
+}
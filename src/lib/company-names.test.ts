@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { LEGAL_PREFIXES, LEGAL_SUFFIXES, foldDiacritics, normalizeCompanyName } from './company-names'
+
+describe('normalizeCompanyName', () => {
+  describe('legal suffixes by country', () => {
+    it.each([
+      ['US', 'Acme Corporation', 'acme'],
+      ['US', 'Acme Co. Ltd.', 'acme'],
+      ['GB', 'Müller plc', 'muller'],
+      ['IE', 'Kerry Teoranta', 'kerry'],
+      ['DE', 'Siemens AG', 'siemens'],
+      ['DE', 'SIEMENS GmbH', 'siemens'],
+      ['DE', 'Siemens Aktiengesellschaft', 'siemens'],
+      ['DE', 'Haniel GmbH & Co. KG', 'haniel'],
+      ['AT', 'Red Bull GesmbH', 'red bull'],
+      ['CH', 'Nestlé S.A.', 'nestle'],
+      ['FR', 'Société Générale S.A.', 'societe generale'],
+      ['FR', 'Decathlon SAS', 'decathlon'],
+      ['BE', 'Solvay NV', 'solvay'],
+      ['NL', 'Philips B.V.', 'philips'],
+      ['LU', 'ArcelorMittal S.à r.l.', 'arcelormittal'],
+      ['IT', 'Enel S.p.A.', 'enel'],
+      ['ES', 'Telefónica, S.L.U.', 'telefonica'],
+      ['PT', 'Sonae Lda', 'sonae'],
+      ['SE', 'Volvo AB (publ)', 'volvo'],
+      ['NO', 'Equinor ASA', 'equinor'],
+      ['DK', 'Ørsted A/S', 'orsted'],
+      ['FI', 'Nokia Oyj', 'nokia'],
+      ['PL', 'Orlen Sp. z o.o.', 'orlen'],
+      ['CZ', 'Škoda Auto a.s.', 'skoda auto'],
+      ['SK', 'Slovnaft s.r.o.', 'slovnaft'],
+      ['HU', 'MOL Nyrt.', 'mol'],
+      ['RO', 'Dacia S.R.L.', 'dacia'],
+      ['GR', 'Titan A.E.', 'titan'],
+      ['TR', 'Koç Holding A.Ş.', 'koc'],
+      ['RU', 'Gazprom PAO', 'gazprom'],
+      ['ZA', 'Acme (Pty) Ltd', 'acme'],
+      ['AU', 'Atlassian Pty Ltd', 'atlassian'],
+      ['IN', 'Tata Consultancy Services Pvt. Ltd.', 'tata consultancy services'],
+      ['JP', 'Toyota Kabushiki Kaisha', 'toyota'],
+      ['BR', 'Natura Cosméticos Ltda', 'natura cosmeticos'],
+      ['MX', 'Grupo Bimbo S.A.B. de C.V.', 'bimbo'],
+    ])('%s: %s -> %s', (country, name, expected) => {
+      expect(normalizeCompanyName(name)).toBe(expected)
+      expect(normalizeCompanyName(name, { countries: [country] })).toBe(expected)
+    })
+
+    it.each(
+      Object.entries(LEGAL_SUFFIXES).flatMap(([country, forms]) => forms.map(form => [country, form]))
+    )('%s: strips "%s"', (country, form) => {
+      expect(normalizeCompanyName(`Zephyr ${form}`, { countries: [country] })).toBe('zephyr')
+    })
+  })
+
+  describe('legal prefixes by country', () => {
+    it.each([
+      ['RU', 'OOO Gazprom', 'gazprom'],
+      ['RU', 'ZAO "Rosneft"', 'rosneft'],
+      ['ID', 'PT Telkom Indonesia', 'telkom indonesia'],
+      ['ID', 'CV. Maju Jaya', 'maju jaya'],
+    ])('%s: %s -> %s', (country, name, expected) => {
+      expect(normalizeCompanyName(name, { countries: [country] })).toBe(expected)
+    })
+
+    it.each(
+      Object.entries(LEGAL_PREFIXES).flatMap(([country, forms]) => forms.map(form => [country, form]))
+    )('%s: strips "%s"', (country, form) => {
+      expect(normalizeCompanyName(`${form} Zephyr`, { countries: [country] })).toBe('zephyr')
+    })
+  })
+
+  it('only strips the forms of the given countries', () => {
+    expect(normalizeCompanyName('Acme SA', { countries: ['DE'] })).toBe('acme sa')
+    expect(normalizeCompanyName('PT Telkom', { countries: ['US'] })).toBe('pt telkom')
+  })
+
+  describe('diacritic folding', () => {
+    it.each([
+      ['Société Générale S.A.', 'societe generale'],
+      ['Müller', 'muller'],
+      ['Straße Bau GmbH', 'strasse bau'],
+      ['Łódź Logistics', 'lodz logistics'],
+      ['Ærø Shipping', 'aero shipping'],
+    ])('%s -> %s', (name, expected) => {
+      expect(normalizeCompanyName(name)).toBe(expected)
+    })
+
+    it('folds without changing case or punctuation', () => {
+      expect(foldDiacritics('Crème Brûlée & Cie')).toBe('Creme Brulee & Cie')
+    })
+  })
+
+  describe('"&" and "and"', () => {
+    it.each([
+      ['Johnson & Johnson', 'Johnson and Johnson'],
+      ['Marks & Spencer plc', 'Marks and Spencer PLC'],
+      ['Procter&Gamble', 'Procter and Gamble'],
+      ['Ernst & Young GmbH', 'Ernst und Young GmbH'],
+    ])('%s matches %s', (a, b) => {
+      expect(normalizeCompanyName(a)).toBe(normalizeCompanyName(b))
+    })
+  })
+
+  describe('stopwords', () => {
+    it.each([
+      ['The Boeing Company', 'boeing'],
+      ['Siemens Holding', 'siemens'],
+      ['Acme Group Holdings Ltd', 'acme'],
+      ['Acme AG Group', 'acme'],
+      ['Groupe Renault', 'renault'],
+    ])('%s -> %s', (name, expected) => {
+      expect(normalizeCompanyName(name)).toBe(expected)
+    })
+  })
+
+  describe('degenerate input', () => {
+    it.each([
+      ['', ''],
+      ['   ', ''],
+      ['...', ''],
+      ['Group SA', 'group'],
+      ['Holding AG', 'holding'],
+      ['The Group', 'the group'],
+      ['SA', 'sa'],
+      ['OOO Group', 'group'],
+    ])('"%s" -> "%s"', (name, expected) => {
+      expect(normalizeCompanyName(name)).toBe(expected)
+    })
+  })
+})
@@ -0,0 +1,135 @@
+// Company name normalization for matching end users across registrations, so that
+// "Siemens AG", "SIEMENS GmbH" and "Siemens Holding" all compare as "siemens".
+
+// Legal-form suffixes by ISO 3166 country code, written the way they read once punctuation
+// is gone: "S.A." is "sa", "A/S" is "a s", "Sp. z o.o." is "sp z oo", "GmbH & Co. KG" is "gmbh co kg".
+// Forms that are also ordinary trailing words (Brazilian "ME", Danish "IS") are left out.
+export const LEGAL_SUFFIXES: Record<string, string[]> = {
+  US: ['inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'pc', 'pllc', 'ltd'],
+  GB: ['ltd', 'limited', 'plc', 'llp', 'lp', 'cic', 'co', 'company'],
+  IE: ['ltd', 'limited', 'plc', 'dac', 'clg', 'uc', 'teo', 'teoranta'],
+  DE: ['gmbh', 'mbh', 'ag', 'kg', 'kgaa', 'ohg', 'gbr', 'ug', 'ug haftungsbeschrankt', 'ev', 'se', 'gmbh co kg', 'ag co kg', 'gmbh co ohg',
+    'aktiengesellschaft', 'gesellschaft mit beschrankter haftung', 'kommanditgesellschaft'],
+  AT: ['gmbh', 'gesmbh', 'ges mbh', 'ag', 'kg', 'og', 'gmbh co kg'],
+  CH: ['ag', 'gmbh', 'sa', 'sarl', 'sagl'],
+  FR: ['sa', 'sas', 'sasu', 'sarl', 'sa rl', 'eurl', 'sca', 'scs', 'snc', 'sci', 'scop', 'se', 'societe anonyme', 'societe par actions simplifiee'],
+  BE: ['nv', 'bv', 'bvba', 'sa', 'srl', 'sprl', 'cv', 'scrl', 'vzw', 'asbl'],
+  NL: ['bv', 'nv', 'vof', 'cv'],
+  LU: ['sa', 'sarl', 'sa rl', 'sca', 'secs', 'se'],
+  IT: ['spa', 'srl', 'srls', 'sapa', 'sas', 'snc', 'scarl', 'societa per azioni'],
+  ES: ['sa', 'sl', 'slu', 'sll', 'sau', 'scoop', 'sociedad anonima', 'sociedad limitada'],
+  PT: ['sa', 'lda', 'limitada'],
+  SE: ['ab', 'ab publ', 'publ', 'hb', 'kb'],
+  NO: ['as', 'a s', 'asa', 'ans', 'da'],
+  DK: ['as', 'a s', 'aps', 'ivs', 'pmv'],
+  FI: ['oy', 'oyj', 'ay', 'ky'],
+  PL: ['sa', 'sp z oo', 'spzoo', 'sp j', 'sp k', 'spolka z oo'],
+  CZ: ['sro', 'spol sro', 'spol s r o', 'as', 'vos'],
+  SK: ['sro', 'spol sro', 'as'],
+  HU: ['kft', 'zrt', 'nyrt', 'bt', 'kkt'],
+  RO: ['srl', 'sa'],
+  GR: ['ae', 'epe', 'ike', 'oe'],
+  TR: ['as', 'ltd sti', 'sti'],
+  RU: ['ooo', 'zao', 'oao', 'pao', 'ao'],
+  ZA: ['pty ltd', 'pty', 'cc', 'soc ltd', 'npc'],
+  AU: ['pty ltd', 'pty', 'ltd', 'limited'],
+  IN: ['pvt ltd', 'private limited', 'pvt', 'ltd', 'limited'],
+  JP: ['kk', 'kabushiki kaisha', 'gk', 'yk'],
+  BR: ['ltda', 'sa', 'eireli'],
+  MX: ['sa de cv', 's de rl de cv', 'sapi de cv', 'sab de cv', 'sa', 'sc'],
+}
+
+// Legal forms that are written before the name, e.g. OOO Gazprom, PT Telkom
+export const LEGAL_PREFIXES: Record<string, string[]> = {
+  RU: ['ooo', 'zao', 'oao', 'pao'],
+  ID: ['pt', 'cv'],
+}
+
+// Words that don't tell two companies apart. Conjunctions are dropped rather than
+// rewritten so "&", "and", "und" and "et" all compare equal.
+export const COMPANY_STOPWORDS = [
+  'the', 'and', 'und', 'et', 'en', 'och', 'og',
+  'group', 'groupe', 'gruppe', 'grupo', 'gruppo', 'groep',
+  'holding', 'holdings',
+]
+
+// Letters that Unicode decomposition leaves alone
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'ø': 'o', 'œ': 'oe', 'đ': 'd', 'ð': 'd', 'ł': 'l', 'þ': 'th', 'ı': 'i',
+}
+
+export interface NormalizeOptions {
+  // Country codes whose legal forms are stripped; every country's by default
+  countries?: string[]
+}
+
+// "Société Générale" -> "societe generale", "Müller" -> "muller"
+export function foldDiacritics(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[ßæøœđðłþı]/g, letter => SPECIAL_LETTERS[letter])
+}
+
+function legalForms(dictionary: Record<string, string[]>, countries?: string[]): string[][] {
+  const codes = countries ? countries.map(code => code.toUpperCase()) : Object.keys(dictionary)
+  const forms = new Set(codes.flatMap(code => dictionary[code] || []))
+  // Longest first, so "gmbh co kg" goes before "kg" leaves "gmbh co" behind
+  return [...forms].map(form => form.split(' ')).sort((a, b) => b.length - a.length)
+}
+
+function startsWith(tokens: string[], form: string[]): boolean {
+  return form.length < tokens.length && form.every((token, i) => tokens[i] === token)
+}
+
+function endsWith(tokens: string[], form: string[]): boolean {
+  const offset = tokens.length - form.length
+  return offset > 0 && form.every((token, i) => tokens[offset + i] === token)
+}
+
+// Strips stacked legal forms, e.g. "Acme Co. Ltd." loses "ltd" and then "co". A form is
+// only removed when something is left beside it.
+function stripLegalForms(tokens: string[], suffixes: string[][], prefixes: string[][]): string[] {
+  let stripped = true
+  while (stripped) {
+    stripped = false
+    const suffix = suffixes.find(form => endsWith(tokens, form))
+    if (suffix) {
+      tokens = tokens.slice(0, tokens.length - suffix.length)
+      stripped = true
+    }
+    const prefix = prefixes.find(form => startsWith(tokens, form))
+    if (prefix) {
+      tokens = tokens.slice(prefix.length)
+      stripped = true
+    }
+  }
+  return tokens
+}
+
+// Lowercased, folded, punctuation-free name with legal forms and stopwords removed.
+// A name that is nothing but stopwords and legal forms keeps its stopwords, so "Group SA"
+// is "group" and "The Group" stays "the group" rather than collapsing to a bare legal form.
+export function normalizeCompanyName(name: string, options: NormalizeOptions = {}): string {
+  const text = foldDiacritics(name.toLowerCase())
+    .replace(/&/g, ' and ')
+    // Dots and apostrophes join what they separate, so "S.A." is "sa" and "McDonald's" is "mcdonalds"
+    .replace(/[.'’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+
+  const tokens = text.split(' ').filter(Boolean)
+  if (tokens.length === 0) return ''
+
+  const suffixes = legalForms(LEGAL_SUFFIXES, options.countries)
+  const prefixes = legalForms(LEGAL_PREFIXES, options.countries)
+  const isLegalForm = (candidate: string[]) => [...suffixes, ...prefixes].some(form => form.join(' ') === candidate.join(' '))
+
+  const meaningful = tokens.filter(token => !COMPANY_STOPWORDS.includes(token))
+  if (meaningful.length > 0) {
+    const core = stripLegalForms(meaningful, suffixes, prefixes)
+    if (!isLegalForm(core)) return core.join(' ')
+  }
+
+  return stripLegalForms(tokens, suffixes, prefixes).join(' ')
+}
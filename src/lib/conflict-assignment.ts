@@ -0,0 +1,228 @@
+import { createAdminClient } from './supabase'
+import { getSetting } from './settings'
+import { TerritoryHierarchy } from './territories'
+import { hasPermission } from './permissions'
+import { recordAuditEvent } from './audit'
+import type { ConflictAssignmentSettings, StaffRole } from './types'
+import { z } from 'zod'
+
+type Candidate = {
+  id: string
+  name: string
+  role: z.infer<typeof StaffRole>
+  last_conflict_assigned_at: string | null
+  territories: { territory_id: string }[]
+}
+
+type ConflictDeal = {
+  end_user: { territory_id: string | null } | null
+}
+
+type UnassignedConflict = {
+  id: string
+  deal_id: string
+  competing_deal_id: string
+  deal: ConflictDeal
+  competing_deal: ConflictDeal
+}
+
+export interface ConflictAssignmentSummary {
+  assigned: { conflict_ids: string[]; staff_id: string }[]
+  unassigned: number
+}
+
+// Routes unassigned pending conflicts to staff who may resolve them. Both rows of a pair of
+// deals go to the same person. Assignments are audited without an actor.
+export class ConflictAssigner {
+  private supabase = createAdminClient()
+
+  // Limits the run to one deal's conflicts when an id is given. Never throws.
+  async assignPending(dealId?: string): Promise<ConflictAssignmentSummary> {
+    const summary: ConflictAssignmentSummary = { assigned: [], unassigned: 0 }
+
+    try {
+      const settings = await getSetting('conflict_assignment')
+      if (!settings.enabled) return summary
+
+      let query = this.supabase
+        .from('deal_conflicts')
+        .select(`
+          id, deal_id, competing_deal_id,
+          deal:deals!deal_conflicts_deal_id_fkey(
+            end_user:end_users(territory_id)
+          ),
+          competing_deal:deals!deal_conflicts_competing_deal_id_fkey(
+            end_user:end_users(territory_id)
+          )
+        `)
+        .eq('resolution_status', 'pending')
+        .is('assigned_to_staff', null)
+        .order('created_at', { ascending: true })
+
+      if (dealId) {
+        query = query.or(`deal_id.eq.${dealId},competing_deal_id.eq.${dealId}`)
+      }
+
+      const { data, error } = await query.overrideTypes<UnassignedConflict[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching conflicts to assign:', error)
+        return summary
+      }
+
+      const pairs = new Map<string, UnassignedConflict[]>()
+      for (const conflict of data || []) {
+        const key = [conflict.deal_id, conflict.competing_deal_id].sort().join(':')
+        pairs.set(key, [...(pairs.get(key) || []), conflict])
+      }
+
+      if (pairs.size === 0) return summary
+
+      const candidates = await this.loadCandidates()
+      if (candidates.length === 0) {
+        summary.unassigned = pairs.size
+        return summary
+      }
+
+      const load = await this.loadOpenConflictCounts()
+      const territories = settings.use_territory_expertise ? await TerritoryHierarchy.load() : null
+
+      for (const conflicts of pairs.values()) {
+        const eligible = territories ? this.experts(candidates, conflicts[0], territories) : candidates
+        const staff = this.pick(eligible, settings.strategy, load)
+
+        const assigned = await this.assign(conflicts, staff)
+        if (!assigned) {
+          summary.unassigned++
+          continue
+        }
+
+        load.set(staff.id, (load.get(staff.id) || 0) + assigned.length)
+        summary.assigned.push({ conflict_ids: assigned, staff_id: staff.id })
+      }
+    } catch (error) {
+      console.error('Conflict assignment error:', error)
+    }
+
+    return summary
+  }
+
+  // Staff whose role lets them resolve conflicts
+  private async loadCandidates(): Promise<Candidate[]> {
+    const { data, error } = await this.supabase
+      .from('staff_users')
+      .select('id, name, role, last_conflict_assigned_at, territories:staff_territories(territory_id)')
+
+    if (error) {
+      console.error('Error fetching staff for assignment:', error)
+      throw error
+    }
+
+    return ((data || []) as Candidate[]).filter(staff => hasPermission(staff.role, 'conflicts:update'))
+  }
+
+  // Counted in the database, so the load isn't cut short by the API's row limit
+  private async loadOpenConflictCounts(): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase.rpc('count_open_conflicts_per_staff')
+
+    if (error) {
+      console.error('Error counting open conflicts per staff member:', error)
+      throw error
+    }
+
+    const counts = new Map<string, number>()
+    for (const row of (data || []) as { staff_id: string; conflict_count: number }[]) {
+      counts.set(row.staff_id, Number(row.conflict_count))
+    }
+    return counts
+  }
+
+  // Staff covering either end user's territory or one of its parents. Falls back to every
+  // candidate when nobody does, so a conflict is never left unowned for lack of an expert.
+  private experts(candidates: Candidate[], conflict: UnassignedConflict, territories: TerritoryHierarchy): Candidate[] {
+    const conflictTerritories = [conflict.deal.end_user?.territory_id, conflict.competing_deal.end_user?.territory_id]
+      .filter((id): id is string => !!id)
+
+    const experts = candidates.filter(staff =>
+      staff.territories.some(({ territory_id }) =>
+        conflictTerritories.some(territoryId => territories.contains(territory_id, territoryId))
+      )
+    )
+
+    return experts.length > 0 ? experts : candidates
+  }
+
+  // Round-robin takes whoever was assigned a conflict longest ago; least-loaded takes whoever
+  // holds the fewest pending conflicts, with the round-robin order breaking ties.
+  private pick(
+    candidates: Candidate[],
+    strategy: ConflictAssignmentSettings['strategy'],
+    load: Map<string, number>
+  ): Candidate {
+    const lastAssigned = (staff: Candidate) =>
+      staff.last_conflict_assigned_at ? new Date(staff.last_conflict_assigned_at).getTime() : 0
+
+    return [...candidates].sort((a, b) => {
+      if (strategy === 'least_loaded') {
+        const loadDiff = (load.get(a.id) || 0) - (load.get(b.id) || 0)
+        if (loadDiff !== 0) return loadDiff
+      }
+      return lastAssigned(a) - lastAssigned(b) || a.name.localeCompare(b.name)
+    })[0]
+  }
+
+  // Returns the ids of the conflicts assigned, or null when none could be
+  private async assign(conflicts: UnassignedConflict[], staff: Candidate): Promise<string[] | null> {
+    const assignedAt = new Date().toISOString()
+
+    const { data: previousConflicts, error: previousError } = await this.supabase
+      .from('deal_conflicts')
+      .select('*')
+      .in('id', conflicts.map(c => c.id))
+      .is('assigned_to_staff', null)
+
+    if (previousError) {
+      console.error('Error fetching conflicts to assign:', previousError)
+      return null
+    }
+
+    // The null check keeps a concurrent manual assignment from being overwritten
+    const { data: assignedConflicts, error } = await this.supabase
+      .from('deal_conflicts')
+      .update({ assigned_to_staff: staff.id, updated_at: assignedAt })
+      .in('id', (previousConflicts || []).map(c => c.id))
+      .is('assigned_to_staff', null)
+      .select()
+
+    if (error) {
+      console.error('Error assigning conflicts:', error)
+      return null
+    }
+
+    if (!assignedConflicts || assignedConflicts.length === 0) return null
+
+    const { error: cursorError } = await this.supabase
+      .from('staff_users')
+      .update({ last_conflict_assigned_at: assignedAt })
+      .eq('id', staff.id)
+
+    if (cursorError) {
+      console.error('Error updating round-robin cursor:', cursorError)
+      // The assignment stands; the next run just may pick the same person again
+    }
+    staff.last_conflict_assigned_at = assignedAt
+
+    for (const conflict of assignedConflicts) {
+      await recordAuditEvent({
+        actorId: null,
+        entityType: 'conflict',
+        entityId: conflict.id,
+        action: 'auto_assign',
+        before: (previousConflicts || []).find(previous => previous.id === conflict.id),
+        after: conflict,
+      })
+    }
+
+    return assignedConflicts.map(conflict => conflict.id)
+  }
+}
@@ -0,0 +1,261 @@
+import { createAdminClient } from './supabase'
+import { getSetting } from './settings'
+import { resolveConflict, AUTO_RESOLUTION_POLICY_LABELS } from './conflict-resolution'
+import { recordAuditEvent } from './audit'
+import { formatDate } from './utils'
+import type { AutoResolutionPolicy, AutoResolutionPolicyType, ResolveConflict } from './types'
+import { z } from 'zod'
+
+type PolicyType = z.infer<typeof AutoResolutionPolicyType>
+
+const POLICY_REASON_CODES: Record<PolicyType, ResolveConflict['reason_code']> = {
+  first_registration: 'first_to_register',
+  higher_tier: 'partner_tier',
+  incumbent_reseller: 'existing_relationship',
+}
+
+const tierRank: Record<string, number> = { bronze: 1, silver: 2, gold: 3 }
+
+type PairDeal = {
+  id: string
+  reseller_id: string
+  end_user_id: string
+  submission_date: string
+  reseller: { id: string; name: string; tier: string }
+}
+
+type PendingConflict = {
+  id: string
+  deal_id: string
+  competing_deal_id: string
+  conflict_type: string
+  severity: string | null
+  deal: PairDeal
+  competing_deal: PairDeal
+}
+
+type Decision = {
+  policy: PolicyType
+  winner: PairDeal
+  loser: PairDeal
+  rationale: string
+}
+
+export interface AutoResolutionSummary {
+  resolved: { conflict_ids: string[]; policy: PolicyType; winning_deal_id: string; losing_deal_id: string }[]
+  skipped: number
+}
+
+// Applies the configured tie-break policies to pending conflicts. Conflicts are decided per
+// pair of deals; a pair no enabled policy can call is left pending for staff. Resolutions are
+// recorded with the deciding policy and audited without an actor.
+export class ConflictAutoResolver {
+  private supabase = createAdminClient()
+
+  // Limits the run to one deal's conflicts when an id is given. Never throws.
+  async resolvePending(dealId?: string): Promise<AutoResolutionSummary> {
+    const summary: AutoResolutionSummary = { resolved: [], skipped: 0 }
+
+    try {
+      const settings = await getSetting('conflict_auto_resolution')
+      const policies = settings.policies.filter(policy => policy.enabled)
+      if (!settings.enabled || policies.length === 0) return summary
+
+      let query = this.supabase
+        .from('deal_conflicts')
+        .select(`
+          id, deal_id, competing_deal_id, conflict_type, severity,
+          deal:deals!deal_conflicts_deal_id_fkey(
+            *,
+            reseller:resellers!deals_reseller_id_fkey(*)
+          ),
+          competing_deal:deals!deal_conflicts_competing_deal_id_fkey(
+            *,
+            reseller:resellers!deals_reseller_id_fkey(*)
+          )
+        `)
+        .eq('resolution_status', 'pending')
+
+      if (dealId) {
+        query = query.or(`deal_id.eq.${dealId},competing_deal_id.eq.${dealId}`)
+      }
+
+      const { data, error } = await query.overrideTypes<PendingConflict[], { merge: false }>()
+
+      if (error) {
+        console.error('Error fetching conflicts to auto-resolve:', error)
+        return summary
+      }
+
+      const pairs = new Map<string, PendingConflict[]>()
+      for (const conflict of data || []) {
+        const key = [conflict.deal_id, conflict.competing_deal_id].sort().join(':')
+        pairs.set(key, [...(pairs.get(key) || []), conflict])
+      }
+
+      for (const conflicts of pairs.values()) {
+        const decision = await this.decide(conflicts, policies)
+        if (!decision) {
+          summary.skipped++
+          continue
+        }
+
+        const resolved = await this.apply(conflicts[0].id, decision, settings.losing_deal_status)
+        if (resolved) {
+          summary.resolved.push({
+            conflict_ids: resolved,
+            policy: decision.policy,
+            winning_deal_id: decision.winner.id,
+            losing_deal_id: decision.loser.id,
+          })
+        } else {
+          summary.skipped++
+        }
+      }
+    } catch (error) {
+      console.error('Conflict auto-resolution error:', error)
+    }
+
+    return summary
+  }
+
+  // The first enabled policy that covers every pending conflict between the pair and can
+  // tell the two deals apart decides it. Unscored conflicts are never decided automatically.
+  private async decide(conflicts: PendingConflict[], policies: AutoResolutionPolicy[]): Promise<Decision | null> {
+    const { deal, competing_deal } = conflicts[0]
+
+    for (const policy of policies) {
+      const covered = conflicts.every(conflict =>
+        policy.conflict_types.includes(conflict.conflict_type as AutoResolutionPolicy['conflict_types'][number]) &&
+        !!conflict.severity &&
+        policy.severities.includes(conflict.severity as AutoResolutionPolicy['severities'][number])
+      )
+      if (!covered) continue
+
+      const decision = await this.pickWinner(policy.policy, deal, competing_deal)
+      if (decision) return decision
+    }
+
+    return null
+  }
+
+  private async pickWinner(policy: PolicyType, a: PairDeal, b: PairDeal): Promise<Decision | null> {
+    switch (policy) {
+      case 'first_registration': {
+        const diff = new Date(a.submission_date).getTime() - new Date(b.submission_date).getTime()
+        if (diff === 0) return null
+        const [winner, loser] = diff < 0 ? [a, b] : [b, a]
+        return {
+          policy,
+          winner,
+          loser,
+          rationale: `${winner.reseller.name} registered on ${formatDate(winner.submission_date)}, ` +
+            `before ${loser.reseller.name} on ${formatDate(loser.submission_date)}`,
+        }
+      }
+
+      case 'higher_tier': {
+        const diff = (tierRank[a.reseller.tier] || 0) - (tierRank[b.reseller.tier] || 0)
+        if (diff === 0) return null
+        const [winner, loser] = diff > 0 ? [a, b] : [b, a]
+        return {
+          policy,
+          winner,
+          loser,
+          rationale: `${winner.reseller.name} (${winner.reseller.tier}) outranks ` +
+            `${loser.reseller.name} (${loser.reseller.tier})`,
+        }
+      }
+
+      case 'incumbent_reseller': {
+        if (a.reseller_id === b.reseller_id) return null
+
+        // Approved deals with either end user, other than the pair itself
+        const { data: approvedDeals, error } = await this.supabase
+          .from('deals')
+          .select('reseller_id, assigned_reseller_id')
+          .eq('status', 'approved')
+          .in('end_user_id', [a.end_user_id, b.end_user_id])
+          .not('id', 'in', `(${a.id},${b.id})`)
+
+        if (error) {
+          console.error('Error fetching incumbent deals:', error)
+          return null
+        }
+
+        const incumbents = new Set(
+          (approvedDeals || []).map(deal => deal.assigned_reseller_id || deal.reseller_id)
+        )
+        const aIncumbent = incumbents.has(a.reseller_id)
+        if (aIncumbent === incumbents.has(b.reseller_id)) return null
+        const [winner, loser] = aIncumbent ? [a, b] : [b, a]
+        return {
+          policy,
+          winner,
+          loser,
+          rationale: `${winner.reseller.name} already holds an approved deal with this customer`,
+        }
+      }
+    }
+  }
+
+  // Returns the ids of the conflicts closed, or null when the deals could not be moved
+  private async apply(
+    conflictId: string,
+    decision: Decision,
+    losingDealStatus: ResolveConflict['losing_deal_status']
+  ): Promise<string[] | null> {
+    const result = await resolveConflict(
+      this.supabase,
+      conflictId,
+      {
+        winning_deal_id: decision.winner.id,
+        losing_deal_status: losingDealStatus,
+        reason_code: POLICY_REASON_CODES[decision.policy],
+        rationale: `${AUTO_RESOLUTION_POLICY_LABELS[decision.policy]}: ${decision.rationale}`,
+      },
+      null,
+      decision.policy
+    )
+
+    if (result.error !== null) {
+      console.warn(`Auto-resolution skipped conflict ${conflictId}: ${result.error}`)
+      return null
+    }
+
+    if (result.winner) {
+      await recordAuditEvent({
+        actorId: null,
+        entityType: 'deal',
+        entityId: decision.winner.id,
+        action: 'win_conflict',
+        before: result.winner.previous,
+        after: result.winner.deal,
+      })
+    }
+
+    if (result.loser) {
+      await recordAuditEvent({
+        actorId: null,
+        entityType: 'deal',
+        entityId: decision.loser.id,
+        action: 'lose_conflict',
+        before: result.loser.previous,
+        after: result.loser.deal,
+      })
+    }
+
+    for (const conflict of result.conflicts) {
+      await recordAuditEvent({
+        actorId: null,
+        entityType: 'conflict',
+        entityId: conflict.id as string,
+        action: 'auto_resolve',
+        before: result.previousConflicts.find(previous => previous.id === conflict.id),
+        after: conflict,
+      })
+    }
+
+    return result.conflicts.map(conflict => conflict.id as string)
+  }
+}
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ConflictDetectionSettingsSchema } from './types'
+
+// Candidate rows find_conflict_candidates returns for the next detection run
+let candidates: unknown[] = []
+let candidatesError: { message: string } | null = null
+const rpc = vi.fn(() => ({
+  select: async () => ({ data: candidatesError ? null : candidates, error: candidatesError }),
+}))
+
+vi.mock('./supabase', () => ({
+  createAdminClient: () => ({
+    rpc,
+    from: () => ({
+      select: () => ({
+        order: async () => ({ data: [{ id: TERRITORY_ID, name: 'Northeast US', parent_id: null }], error: null }),
+      }),
+    }),
+  }),
+}))
+
+vi.mock('./settings', () => ({
+  getSetting: async () => ConflictDetectionSettingsSchema.parse({}),
+}))
+
+import { ConflictDetectionEngine } from './conflict-detection'
+
+const TERRITORY_ID = '00000000-0000-4000-8000-000000000001'
+const DEAL_ID = '00000000-0000-4000-8000-00000000000a'
+const EARLIER_DEAL_ID = '00000000-0000-4000-8000-00000000000b'
+const OTHER_DEAL_ID = '00000000-0000-4000-8000-00000000000c'
+const RESELLER_ID = '00000000-0000-4000-8000-0000000000a1'
+const OTHER_RESELLER_ID = '00000000-0000-4000-8000-0000000000a2'
+
+const endUser = {
+  company_name: 'Siemens AG',
+  contact_name: 'Anna Schmidt',
+  contact_email: 'anna@siemens.com',
+  territory: 'Northeast US',
+}
+
+const submission = {
+  end_user: endUser,
+  reseller_id: RESELLER_ID,
+  total_value: 50000,
+  submission_date: new Date().toISOString(),
+  products: [],
+}
+
+function storedDeal(id: string, resellerId: string) {
+  return {
+    id,
+    reseller_id: resellerId,
+    end_user_id: '00000000-0000-4000-8000-0000000000e1',
+    status: 'pending' as const,
+    total_value: 50000,
+    submission_date: submission.submission_date,
+    end_user: { ...endUser, company_name: 'Siemens Aktiengesellschaft' },
+    reseller: { id: resellerId, name: resellerId === RESELLER_ID ? 'Acme Resale' : 'Other Resale' },
+    products: [],
+    eligibility_flags: [],
+  }
+}
+
+function candidateQuery() {
+  const calls = rpc.mock.calls as unknown as [string, Record<string, unknown>][]
+  return calls[calls.length - 1]
+}
+
+describe('ConflictDetectionEngine', () => {
+  beforeEach(() => {
+    rpc.mockClear()
+    candidates = []
+    candidatesError = null
+  })
+
+  it('matches candidates on the normalized company name', async () => {
+    await new ConflictDetectionEngine().detectConflicts(submission)
+
+    expect(candidateQuery()).toEqual([
+      'find_conflict_candidates',
+      expect.objectContaining({ p_company_name: 'siemens', p_exclude_deal_id: null }),
+    ])
+  })
+
+  describe('candidate lookup failure', () => {
+    it('surfaces the error from findConflicts', async () => {
+      candidatesError = { message: 'statement timeout' }
+
+      await expect(new ConflictDetectionEngine().findConflicts(submission))
+        .rejects.toThrow('Failed to fetch conflict candidates: statement timeout')
+    })
+
+    it('reports no conflicts from detectConflicts so a submission still goes through', async () => {
+      candidatesError = { message: 'statement timeout' }
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await new ConflictDetectionEngine().detectConflicts(submission)
+      consoleError.mockRestore()
+
+      expect(result).toEqual({ hasConflicts: false, conflicts: [], suggestions: [] })
+    })
+  })
+
+  describe('self-match', () => {
+    it('never reports a stored deal as conflicting with itself', async () => {
+      candidates = [storedDeal(DEAL_ID, RESELLER_ID)]
+
+      const result = await new ConflictDetectionEngine().detectConflicts({ ...submission, id: DEAL_ID })
+
+      expect(result.hasConflicts).toBe(false)
+      expect(result.conflicts).toEqual([])
+    })
+
+    it('drops self-pairs when building conflict records', () => {
+      const engine = new ConflictDetectionEngine()
+      const conflicts = [
+        { type: 'duplicate_end_user' as const, severity: 'high' as const, conflictingDeal: storedDeal(DEAL_ID, RESELLER_ID), reason: '' },
+        { type: 'duplicate_end_user' as const, severity: 'high' as const, conflictingDeal: storedDeal(OTHER_DEAL_ID, OTHER_RESELLER_ID), reason: '' },
+      ]
+
+      expect(engine.buildConflictRecords(conflicts, DEAL_ID).map(record => record.competing_deal_id)).toEqual([OTHER_DEAL_ID])
+    })
+  })
+
+  describe('re-submission', () => {
+    it('excludes every revision of the re-submitted deal from the candidates', async () => {
+      await new ConflictDetectionEngine().detectConflicts({ ...submission, resubmission_of: EARLIER_DEAL_ID })
+
+      expect(candidateQuery()[1]).toMatchObject({ p_exclude_deal_id: EARLIER_DEAL_ID })
+    })
+
+    it('still reports other resellers competing for the same end user', async () => {
+      candidates = [storedDeal(OTHER_DEAL_ID, OTHER_RESELLER_ID)]
+
+      const result = await new ConflictDetectionEngine().detectConflicts({ ...submission, resubmission_of: EARLIER_DEAL_ID })
+
+      expect(result.conflicts.map(conflict => conflict.conflictingDeal.id)).toContain(OTHER_DEAL_ID)
+    })
+  })
+
+  describe('edit', () => {
+    it('excludes the edited deal and its revisions by its own id', async () => {
+      await new ConflictDetectionEngine().detectConflicts({ ...submission, id: DEAL_ID, resubmission_of: EARLIER_DEAL_ID })
+
+      expect(candidateQuery()[1]).toMatchObject({ p_exclude_deal_id: DEAL_ID })
+    })
+
+    it('keeps conflicts with other deals while skipping itself', async () => {
+      candidates = [storedDeal(DEAL_ID, RESELLER_ID), storedDeal(OTHER_DEAL_ID, OTHER_RESELLER_ID)]
+
+      const result = await new ConflictDetectionEngine().detectConflicts({ ...submission, id: DEAL_ID })
+      const conflictingIds = new Set(result.conflicts.map(conflict => conflict.conflictingDeal.id))
+
+      expect([...conflictingIds]).toEqual([OTHER_DEAL_ID])
+    })
+  })
+})
@@ -1,13 +1,16 @@
 import { createAdminClient } from './supabase'
 import { 
-  normalizeCompanyName, 
   calculateSimilarity, 
-  checkTerritoryOverlap, 
+  getCorporateEmailDomain,
   isDealValueSimilar, 
-  isWithinTimeWindow 
+  isWithinTimeWindow,
+  calculateProductOverlap
 } from './utils'
-import type { Deal, EndUser } from './types'
-import { ConflictType } from './types'
+import { normalizeCompanyName } from './company-names'
+import { getSetting } from './settings'
+import { TerritoryHierarchy } from './territories'
+import type { ConflictDetectionSettings, Deal, EndUser } from './types'
+import { ConflictType, ConflictSeverity, ConflictDetectionSettingsSchema } from './types'
 import { z } from 'zod'
 
 export interface ConflictDetectionResult {
@@ -18,67 +21,95 @@ export interface ConflictDetectionResult {
 
 export interface DetectedConflict {
   type: z.infer<typeof ConflictType>
-  severity: 'high' | 'medium' | 'low'
+  severity: z.infer<typeof ConflictSeverity>
   conflictingDeal: Deal & { end_user: EndUser }
   reason: string
   similarity?: number
 }
 
+type DealLineItem = { product_id: string; quantity: number }
+
+type DetectionInput = {
+  id?: string
+  resubmission_of?: string | null
+  end_user: EndUser
+  reseller_id: string
+  total_value: number
+  submission_date?: string
+  products?: DealLineItem[]
+}
+
 export class ConflictDetectionEngine {
   private supabase = createAdminClient()
+  // Replaced with the stored thresholds at the start of every detection run
+  private settings: ConflictDetectionSettings = ConflictDetectionSettingsSchema.parse({})
+  private territories = new TerritoryHierarchy([])
 
-  async detectConflicts(
-    newDeal: {
-      end_user: EndUser
-      reseller_id: string
-      total_value: number
-      submission_date?: string
+  // Never throws: a detection failure must not block a submission, so it is logged and
+  // reported as no conflicts. Use findConflicts where a failure has to be surfaced.
+  async detectConflicts(newDeal: DetectionInput): Promise<ConflictDetectionResult> {
+    try {
+      return await this.findConflicts(newDeal)
+    } catch (error) {
+      console.error('Conflict detection error:', error)
+      return { hasConflicts: false, conflicts: [], suggestions: [] }
     }
-  ): Promise<ConflictDetectionResult> {
+  }
+
+  // Pass the deal's id when it is already stored (e.g. after an edit), or the deal it
+  // re-submits for a new submission, so no revision of it is reported as a conflict
+  async findConflicts(newDeal: DetectionInput): Promise<ConflictDetectionResult> {
     const conflicts: DetectedConflict[] = []
     const suggestions: string[] = []
 
-    try {
-      // Get existing deals for comparison
-      const { data: existingDeals, error } = await this.supabase
-        .from('deals')
-        .select(`
-          *,
-          end_user:end_users(*),
-          reseller:resellers(*)
-        `)
-        .neq('status', 'rejected')
-        .order('created_at', { ascending: false })
-        .limit(1000) // Reasonable limit for performance
-
-      if (error) {
-        console.error('Error fetching existing deals:', error)
-        return { hasConflicts: false, conflicts: [], suggestions: [] }
-      }
+    this.settings = await getSetting('conflict_detection')
+    this.territories = await TerritoryHierarchy.load()
+
+    // Only deals with a trigram-similar normalized end user name can conflict, so let
+    // the database narrow the full history down before the detailed scoring below
+    const { data: existingDeals, error } = await this.supabase
+      .rpc('find_conflict_candidates', {
+        p_company_name: normalizeCompanyName(newDeal.end_user.company_name),
+        p_min_similarity: this.settings.candidate_similarity_threshold,
+        p_exclude_deal_id: newDeal.id ?? newDeal.resubmission_of ?? null,
+        p_email_domain: getCorporateEmailDomain(
+          newDeal.end_user.contact_email,
+          this.settings.free_email_domains
+        ),
+      })
+      .select(`
+        *,
+        end_user:end_users(*),
+        reseller:resellers!deals_reseller_id_fkey(*),
+        products:deal_products(product_id, quantity)
+      `)
 
-      if (!existingDeals) {
-        return { hasConflicts: false, conflicts: [], suggestions: [] }
-      }
+    if (error) {
+      console.error('Error fetching conflict candidates:', error)
+      throw new Error(`Failed to fetch conflict candidates: ${error.message}`)
+    }
 
-      // Check each existing deal for conflicts
-      for (const existingDeal of existingDeals) {
-        const detectedConflicts = await this.checkDealConflicts(newDeal, existingDeal)
-        conflicts.push(...detectedConflicts)
-      }
+    if (!existingDeals) {
+      return { hasConflicts: false, conflicts: [], suggestions: [] }
+    }
 
-      // Generate suggestions based on conflicts
-      if (conflicts.length > 0) {
-        suggestions.push(...this.generateSuggestions(conflicts))
-      }
+    // Check each existing deal for conflicts
+    for (const existingDeal of existingDeals) {
+      if (newDeal.id && existingDeal.id === newDeal.id) continue
 
-      return {
-        hasConflicts: conflicts.length > 0,
-        conflicts: this.prioritizeConflicts(conflicts),
-        suggestions
-      }
-    } catch (error) {
-      console.error('Conflict detection error:', error)
-      return { hasConflicts: false, conflicts: [], suggestions: [] }
+      const detectedConflicts = await this.checkDealConflicts(newDeal, existingDeal)
+      conflicts.push(...detectedConflicts)
+    }
+
+    // Generate suggestions based on conflicts
+    if (conflicts.length > 0) {
+      suggestions.push(...this.generateSuggestions(conflicts))
+    }
+
+    return {
+      hasConflicts: conflicts.length > 0,
+      conflicts: this.prioritizeConflicts(conflicts),
+      suggestions
     }
   }
 
@@ -88,8 +119,13 @@ export class ConflictDetectionEngine {
       reseller_id: string
       total_value: number
       submission_date?: string
+      products?: DealLineItem[]
     },
-    existingDeal: Deal & { end_user: EndUser; reseller: { id: string; name: string } }
+    existingDeal: Deal & {
+      end_user: EndUser
+      reseller: { id: string; name: string }
+      products?: DealLineItem[]
+    }
   ): Promise<DetectedConflict[]> {
     const conflicts: DetectedConflict[] = []
 
@@ -111,6 +147,12 @@ export class ConflictDetectionEngine {
       conflicts.push(timingConflict)
     }
 
+    // 4. Product Overlap Detection
+    const productConflict = this.checkProductOverlapConflict(newDeal, existingDeal)
+    if (productConflict) {
+      conflicts.push(productConflict)
+    }
+
     return conflicts
   }
 
@@ -124,22 +166,31 @@ export class ConflictDetectionEngine {
     // Calculate similarity
     const similarity = calculateSimilarity(newCompany, existingCompany)
     
+    // A shared corporate email domain points at the same organisation even when the
+    // names are written differently; free-mail domains say nothing about the company
+    const newDomain = getCorporateEmailDomain(newDeal.end_user.contact_email, this.settings.free_email_domains)
+    const sharedDomain = newDomain !== null &&
+      newDomain === getCorporateEmailDomain(existingDeal.end_user.contact_email, this.settings.free_email_domains)
+      ? newDomain
+      : null
+    const sameContact = newDeal.end_user.contact_email.toLowerCase().trim() ===
+      existingDeal.end_user.contact_email.toLowerCase().trim()
+    
     // High similarity threshold for company names
-    if (similarity >= 0.85) {
-      // Check email similarity for additional confirmation
-      const emailSimilarity = calculateSimilarity(
-        newDeal.end_user.contact_email.toLowerCase(),
-        existingDeal.end_user.contact_email.toLowerCase()
-      )
-
+    if (similarity >= this.settings.company_name_threshold) {
       let severity: 'high' | 'medium' | 'low' = 'medium'
       let reason = `Similar company name: "${newDeal.end_user.company_name}" vs "${existingDeal.end_user.company_name}"`
 
-      // Exact match or very high similarity
-      if (similarity >= 0.95 || emailSimilarity >= 0.8) {
+      // Exact match, very high similarity or the same contact
+      if (similarity >= this.settings.duplicate_threshold || sameContact) {
         severity = 'high'
         reason = `Potential duplicate: ${reason}`
       }
+      // Similar name backed by the same corporate email domain
+      else if (sharedDomain) {
+        severity = 'high'
+        reason = `Potential duplicate: ${reason}, both contacts use @${sharedDomain}`
+      }
       // Same reseller submitting for same end user
       else if (newDeal.reseller_id === existingDeal.reseller_id) {
         severity = 'high'
@@ -155,6 +206,17 @@ export class ConflictDetectionEngine {
       }
     }
 
+    // Different names, same corporate domain: likely another name for the same organisation
+    if (sharedDomain) {
+      return {
+        type: 'duplicate_end_user',
+        severity: 'medium',
+        conflictingDeal: existingDeal,
+        reason: `Same corporate email domain @${sharedDomain}: "${newDeal.end_user.company_name}" vs "${existingDeal.end_user.company_name}"`,
+        similarity
+      }
+    }
+
     return null
   }
 
@@ -167,31 +229,44 @@ export class ConflictDetectionEngine {
       return null
     }
 
-    const hasOverlap = checkTerritoryOverlap(
-      newDeal.end_user.territory,
-      existingDeal.end_user.territory
-    )
+    // Territories overlap when one contains the other (Global contains Northeast US)
+    const newTerritory = newDeal.end_user.territory_id || newDeal.end_user.territory
+    const existingTerritory = existingDeal.end_user.territory_id || existingDeal.end_user.territory
 
-    if (hasOverlap) {
+    if (this.territories.overlaps(newTerritory, existingTerritory)) {
       // Check if it's the same end user (higher severity)
       const companysimilarity = calculateSimilarity(
         normalizeCompanyName(newDeal.end_user.company_name),
         normalizeCompanyName(existingDeal.end_user.company_name)
       )
 
-      const severity: 'high' | 'medium' | 'low' = companysimilarity >= 0.7 ? 'high' : 'medium'
+      const severity: 'high' | 'medium' | 'low' =
+        companysimilarity >= this.settings.related_company_threshold ? 'high' : 'medium'
 
       return {
         type: 'territory_overlap',
         severity,
         conflictingDeal: existingDeal,
-        reason: `Territory overlap: "${newDeal.end_user.territory}" overlaps with "${existingDeal.end_user.territory}"`
+        reason: this.describeTerritoryOverlap(newDeal.end_user, existingDeal.end_user)
       }
     }
 
     return null
   }
 
+  private describeTerritoryOverlap(newEndUser: EndUser, existingEndUser: EndUser): string {
+    const newTerritory = this.territories.find(newEndUser.territory_id || newEndUser.territory)
+    const existingTerritory = this.territories.find(existingEndUser.territory_id || existingEndUser.territory)
+
+    if (newTerritory === existingTerritory) {
+      return `Territory overlap: both end users are in "${newEndUser.territory}"`
+    }
+
+    return this.territories.contains(existingTerritory?.id, newTerritory?.id)
+      ? `Territory overlap: "${newEndUser.territory}" lies within "${existingEndUser.territory}"`
+      : `Territory overlap: "${existingEndUser.territory}" lies within "${newEndUser.territory}"`
+  }
+
   private checkTimingConflict(
     newDeal: { end_user: EndUser; total_value: number; submission_date?: string },
     existingDeal: Deal & { end_user: EndUser; total_value: number; created_at?: string; submission_date?: string }
@@ -199,8 +274,8 @@ export class ConflictDetectionEngine {
     const newDate = newDeal.submission_date || new Date().toISOString()
     const existingDate = existingDeal.submission_date || existingDeal.created_at || new Date().toISOString()
 
-    // Check if within time window (default 90 days)
-    if (!isWithinTimeWindow(newDate, existingDate, 90)) {
+    // Check if within the configured time window
+    if (!isWithinTimeWindow(newDate, existingDate, this.settings.timing_window_days)) {
       return null
     }
 
@@ -210,9 +285,13 @@ export class ConflictDetectionEngine {
       normalizeCompanyName(existingDeal.end_user.company_name)
     )
 
-    const valueSimilarity = isDealValueSimilar(newDeal.total_value, existingDeal.total_value, 0.2)
+    const valueSimilarity = isDealValueSimilar(
+      newDeal.total_value,
+      existingDeal.total_value,
+      this.settings.value_tolerance
+    )
 
-    if (companysimilarity >= 0.7 && valueSimilarity) {
+    if (companysimilarity >= this.settings.related_company_threshold && valueSimilarity) {
       const daysDiff = Math.abs(
         (new Date(newDate).getTime() - new Date(existingDate).getTime()) / (1000 * 60 * 60 * 24)
       )
@@ -232,6 +311,56 @@ export class ConflictDetectionEngine {
     return null
   }
 
+  private checkProductOverlapConflict(
+    newDeal: { end_user: EndUser; reseller_id: string; products?: DealLineItem[] },
+    existingDeal: Deal & {
+      end_user: EndUser
+      reseller: { id: string; name: string }
+      products?: DealLineItem[]
+    }
+  ): DetectedConflict | null {
+    // Only competing resellers can collide on the same product lines
+    if (newDeal.reseller_id === existingDeal.reseller_id) {
+      return null
+    }
+
+    if (!newDeal.products?.length || !existingDeal.products?.length) {
+      return null
+    }
+
+    // The same product lines only matter when they are sold to the same customer
+    const companySimilarity = calculateSimilarity(
+      normalizeCompanyName(newDeal.end_user.company_name),
+      normalizeCompanyName(existingDeal.end_user.company_name)
+    )
+    const newDomain = getCorporateEmailDomain(newDeal.end_user.contact_email, this.settings.free_email_domains)
+    const sameCustomer = companySimilarity >= this.settings.related_company_threshold || (
+      newDomain !== null &&
+      newDomain === getCorporateEmailDomain(existingDeal.end_user.contact_email, this.settings.free_email_domains)
+    )
+
+    if (!sameCustomer) {
+      return null
+    }
+
+    const overlap = calculateProductOverlap(newDeal.products, existingDeal.products)
+    if (overlap < this.settings.product_overlap_threshold) {
+      return null
+    }
+
+    const existingProductIds = new Set(existingDeal.products.map(p => p.product_id))
+    const newProductIds = new Set(newDeal.products.map(p => p.product_id))
+    const sharedLines = [...newProductIds].filter(id => existingProductIds.has(id)).length
+
+    return {
+      type: 'product_overlap',
+      severity: overlap >= 0.8 ? 'high' : 'medium',
+      conflictingDeal: existingDeal,
+      reason: `${existingDeal.reseller.name} registered ${sharedLines} of the same ${newProductIds.size} product line(s) for this end user (${Math.round(overlap * 100)}% quantity overlap)`,
+      similarity: overlap
+    }
+  }
+
   private prioritizeConflicts(conflicts: DetectedConflict[]): DetectedConflict[] {
     return conflicts.sort((a, b) => {
       // Sort by severity first
@@ -240,7 +369,7 @@ export class ConflictDetectionEngine {
       if (severityDiff !== 0) return severityDiff
 
       // Then by conflict type priority
-      const typeOrder = { duplicate_end_user: 3, territory_overlap: 2, timing_conflict: 1 }
+      const typeOrder = { product_overlap: 4, duplicate_end_user: 3, territory_overlap: 2, timing_conflict: 1 }
       const typeDiff = typeOrder[b.type] - typeOrder[a.type]
       if (typeDiff !== 0) return typeDiff
 
@@ -257,6 +386,7 @@ export class ConflictDetectionEngine {
     const highSeverityConflicts = conflicts.filter(c => c.severity === 'high')
     const duplicateConflicts = conflicts.filter(c => c.type === 'duplicate_end_user')
     const territoryConflicts = conflicts.filter(c => c.type === 'territory_overlap')
+    const productConflicts = conflicts.filter(c => c.type === 'product_overlap')
 
     if (highSeverityConflicts.length > 0) {
       suggestions.push('⚠️ High-priority conflicts detected - requires immediate review')
@@ -267,6 +397,10 @@ export class ConflictDetectionEngine {
       suggestions.push('📞 Contact the reseller to confirm deal details')
     }
 
+    if (productConflicts.length > 0) {
+      suggestions.push('📦 Another reseller registered the same products for this customer - compare both registrations')
+    }
+
     if (territoryConflicts.length > 0) {
       suggestions.push('🗺️ Review territory assignments and partner agreements')
       suggestions.push('⚖️ Consider first-come-first-served or partner tier priority')
@@ -279,16 +413,28 @@ export class ConflictDetectionEngine {
     return suggestions
   }
 
-  async createConflictRecords(dealId: string, conflicts: DetectedConflict[]): Promise<void> {
-    if (conflicts.length === 0) return
+  // Self-pairs are dropped; deal_conflicts rejects rows where both sides are the same deal
+  buildConflictRecords(conflicts: DetectedConflict[], dealId?: string) {
+    return conflicts
+      .filter(conflict => conflict.conflictingDeal.id !== dealId)
+      .map(conflict => ({
+        competing_deal_id: conflict.conflictingDeal.id as string,
+        conflict_type: conflict.type,
+        severity: conflict.severity,
+        similarity_score: conflict.similarity ?? null,
+        reason: conflict.reason,
+      }))
+  }
 
-    const conflictRecords = conflicts.map(conflict => ({
+  async createConflictRecords(dealId: string, conflicts: DetectedConflict[]): Promise<void> {
+    const conflictRecords = this.buildConflictRecords(conflicts, dealId).map(record => ({
+      ...record,
       deal_id: dealId,
-      competing_deal_id: conflict.conflictingDeal.id,
-      conflict_type: conflict.type,
       resolution_status: 'pending' as const,
     }))
 
+    if (conflictRecords.length === 0) return
+
     const { error } = await this.supabase
       .from('deal_conflicts')
       .insert(conflictRecords)
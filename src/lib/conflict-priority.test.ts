@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { getConflictPriority, type QueueConflict } from './conflict-priority'
+
+// The same rules are repeated in the conflict_queue SQL function; keep both in step
+const NOW = new Date('2026-10-19T12:00:00Z')
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS).toISOString()
+
+function conflict({
+  type = 'duplicate_end_user',
+  values = [150000, 150000],
+  submitted = [0, 0],
+  createdDaysAgo = 0,
+}: {
+  type?: string
+  values?: [number, number]
+  submitted?: [number | null, number | null]
+  createdDaysAgo?: number
+}): QueueConflict {
+  const deal = (index: 0 | 1) => ({
+    total_value: values[index],
+    submission_date: submitted[index] === null ? null : daysAgo(submitted[index] as number),
+  })
+
+  return {
+    conflict_type: type,
+    created_at: daysAgo(createdDaysAgo),
+    deal: deal(0),
+    competing_deal: deal(1),
+  }
+}
+
+describe('getConflictPriority', () => {
+  it('ranks a large, old duplicate as high', () => {
+    expect(getConflictPriority(conflict({ submitted: [10, 10] }), NOW)).toBe('high')
+  })
+
+  it('ranks a small, fresh timing conflict as low', () => {
+    expect(getConflictPriority(conflict({ type: 'timing_conflict', values: [10000, 10000] }), NOW)).toBe('low')
+  })
+
+  it('scores the larger of the two deal values', () => {
+    expect(getConflictPriority(conflict({ type: 'timing_conflict', values: [10000, 150000] }), NOW)).toBe('medium')
+  })
+
+  it('ages the conflict from the later submission', () => {
+    expect(getConflictPriority(conflict({ submitted: [20, 1] }), NOW)).toBe('medium')
+  })
+
+  it('ages the conflict from its creation when neither deal has a submission date', () => {
+    expect(getConflictPriority(conflict({ type: 'territory_overlap', submitted: [null, null], createdDaysAgo: 10 }), NOW))
+      .toBe('high')
+  })
+
+  it.each([
+    [3, 'medium'],
+    [4, 'medium'],
+    [7, 'medium'],
+    [8, 'high'],
+  ] as const)('counts whole days: %i days old is %s', (days, priority) => {
+    expect(getConflictPriority(conflict({ type: 'territory_overlap', submitted: [days, days] }), NOW)).toBe(priority)
+  })
+
+  it('weighs duplicates and product overlaps above territory overlaps', () => {
+    const small = { values: [10000, 10000] as [number, number] }
+
+    expect(getConflictPriority(conflict({ ...small, type: 'product_overlap' }), NOW)).toBe('medium')
+    expect(getConflictPriority(conflict({ ...small, type: 'territory_overlap' }), NOW)).toBe('low')
+  })
+})
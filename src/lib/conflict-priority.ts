@@ -0,0 +1,47 @@
+import { calculateConflictPriority } from './utils'
+import type { ConflictPriority } from './types'
+import { z } from 'zod'
+
+export type ConflictPriorityLevel = z.infer<typeof ConflictPriority>
+
+type PrioritizedDeal = {
+  total_value: number
+  submission_date?: string | null
+}
+
+export type QueueConflict = {
+  conflict_type: string
+  created_at: string
+  deal: PrioritizedDeal
+  competing_deal: PrioritizedDeal
+}
+
+export type SlaStatus = {
+  priority: ConflictPriorityLevel
+  sla_hours: number
+  age_hours: number
+  due_at: string
+  overdue: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The conflict exists from the later of the two submissions, so that is what it ages from
+export function getConflictPriority(conflict: QueueConflict, now = new Date()): ConflictPriorityLevel {
+  const dealValue = Math.max(Number(conflict.deal.total_value), Number(conflict.competing_deal.total_value))
+  const submissions = [conflict.deal.submission_date, conflict.competing_deal.submission_date]
+    .filter((date): date is string => !!date)
+    .map(date => new Date(date).getTime())
+  const submittedAt = submissions.length > 0 ? Math.max(...submissions) : new Date(conflict.created_at).getTime()
+  const daysSinceSubmission = Math.floor((now.getTime() - submittedAt) / DAY_MS)
+
+  return calculateConflictPriority(dealValue, conflict.conflict_type, daysSinceSubmission)
+}
+
+// One page of conflict_queue(), which ranks the queue in the database. Its priority and SLA
+// rules mirror getConflictPriority, so change both together.
+export type ConflictQueuePage = {
+  entries: (SlaStatus & { conflict_id: string })[]
+  total: number
+  summary: Record<ConflictPriorityLevel | 'overdue', number>
+}
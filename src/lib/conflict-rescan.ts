@@ -0,0 +1,318 @@
+import { createAdminClient } from './supabase'
+import { ConflictDetectionEngine } from './conflict-detection'
+import { ConflictAutoResolver } from './conflict-auto-resolution'
+import { ConflictAssigner } from './conflict-assignment'
+import { normalizeCompanyName } from './company-names'
+import { changeDealStatus } from './deal-status'
+import { recordAuditEvent } from './audit'
+import type { ConflictRescanJob, Deal, EndUser } from './types'
+
+// Deals that have not been decided yet; approved and rejected deals are never re-evaluated
+export const OPEN_DEAL_STATUSES = ['pending', 'assigned', 'disputed']
+
+// Open deals a new high-severity conflict moves to disputed
+const DISPUTABLE_STATUSES = ['pending', 'assigned']
+
+// Deals scanned per step, small enough for one step to finish within a request timeout
+export const RESCAN_BATCH_SIZE = 25
+
+// `finished` is true only for the call that moved the job out of running
+export type RescanResult =
+  | { job: ConflictRescanJob; finished: boolean; error: null; status: 200 | 201 }
+  | { job: null; finished: false; error: string; status: 404 | 409 | 500 }
+
+type BatchSummary = {
+  new_conflicts: number
+  unchanged_conflicts: number
+  stale_conflicts: number
+}
+
+type RescanDeal = Deal & {
+  id: string
+  end_user: EndUser & { id: string; normalized_company_name: string }
+  products: { product_id: string; quantity: number }[]
+}
+
+type StoredConflict = {
+  id: string
+  deal_id: string
+  competing_deal_id: string
+  conflict_type: string
+  resolution_status: string
+}
+
+// Re-runs conflict detection over every open deal. A job walks the deals in id order,
+// one batch per step, so the caller drives progress and a step can be retried safely.
+// For each deal, detected pairs already stored in either direction count as unchanged,
+// the rest are inserted as new, and pending conflicts the deal owns that are no longer
+// detected count as stale. Stale conflicts are reported, not dismissed.
+export class ConflictRescanner {
+  private supabase = createAdminClient()
+  private engine = new ConflictDetectionEngine()
+  private autoResolver = new ConflictAutoResolver()
+  private assigner = new ConflictAssigner()
+
+  async startJob(startedBy: string): Promise<RescanResult> {
+    const { count, error: countError } = await this.supabase
+      .from('deals')
+      .select('*', { count: 'exact', head: true })
+      .in('status', OPEN_DEAL_STATUSES)
+
+    if (countError) {
+      console.error('Error counting open deals:', countError)
+      return { job: null, finished: false, error: 'Failed to count open deals', status: 500 }
+    }
+
+    const { data: job, error } = await this.supabase
+      .from('conflict_rescan_jobs')
+      .insert({
+        status: 'running',
+        total_deals: count || 0,
+        started_by: startedBy,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return { job: null, finished: false, error: 'A conflict re-scan is already running', status: 409 }
+      }
+      console.error('Error creating rescan job:', error)
+      return { job: null, finished: false, error: 'Failed to start conflict re-scan', status: 500 }
+    }
+
+    return { job, finished: false, error: null, status: 201 }
+  }
+
+  async getJob(jobId: string): Promise<ConflictRescanJob | null> {
+    const { data: job, error } = await this.supabase
+      .from('conflict_rescan_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching rescan job:', error)
+      throw error
+    }
+
+    return job
+  }
+
+  // Scans the next batch of deals and records the progress. Finished jobs are returned as-is.
+  async runNextBatch(jobId: string): Promise<RescanResult> {
+    const job = await this.getJob(jobId)
+    if (!job) {
+      return { job: null, finished: false, error: 'Rescan job not found', status: 404 }
+    }
+
+    if (job.status !== 'running') {
+      return { job, finished: false, error: null, status: 200 }
+    }
+
+    let query = this.supabase
+      .from('deals')
+      .select(`
+        *,
+        end_user:end_users(*),
+        products:deal_products(product_id, quantity)
+      `)
+      .in('status', OPEN_DEAL_STATUSES)
+      .order('id', { ascending: true })
+      .limit(RESCAN_BATCH_SIZE)
+
+    if (job.last_deal_id) {
+      query = query.gt('id', job.last_deal_id)
+    }
+
+    const { data: deals, error: dealsError } = await query
+
+    if (dealsError) {
+      console.error('Error fetching deals to rescan:', dealsError)
+      return this.failJob(job, 'Failed to fetch deals to rescan')
+    }
+
+    const summary: BatchSummary = { new_conflicts: 0, unchanged_conflicts: 0, stale_conflicts: 0 }
+
+    try {
+      for (const deal of deals || []) {
+        const dealSummary = await this.rescanDeal(deal, job.started_by)
+        summary.new_conflicts += dealSummary.new_conflicts
+        summary.unchanged_conflicts += dealSummary.unchanged_conflicts
+        summary.stale_conflicts += dealSummary.stale_conflicts
+      }
+    } catch (error) {
+      console.error('Error rescanning deals:', error)
+      return this.failJob(job, error instanceof Error ? error.message : 'Failed to rescan deals')
+    }
+
+    const batch = deals || []
+    const finished = batch.length < RESCAN_BATCH_SIZE
+
+    // Conditional on the progress read, so two overlapping steps can't both record the same batch
+    const { data: updatedJob, error: updateError } = await this.supabase
+      .from('conflict_rescan_jobs')
+      .update({
+        status: finished ? 'completed' : 'running',
+        processed_deals: job.processed_deals + batch.length,
+        last_deal_id: batch.length > 0 ? batch[batch.length - 1].id : job.last_deal_id,
+        new_conflicts: job.new_conflicts + summary.new_conflicts,
+        unchanged_conflicts: job.unchanged_conflicts + summary.unchanged_conflicts,
+        stale_conflicts: job.stale_conflicts + summary.stale_conflicts,
+        completed_at: finished ? new Date().toISOString() : null,
+      })
+      .eq('id', jobId)
+      .eq('processed_deals', job.processed_deals)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Error updating rescan job:', updateError)
+      return { job: null, finished: false, error: 'Failed to record rescan progress', status: 500 }
+    }
+
+    if (!updatedJob) {
+      return { job: null, finished: false, error: 'This batch was already processed by another request', status: 409 }
+    }
+
+    return { job: updatedJob, finished, error: null, status: 200 }
+  }
+
+  private async rescanDeal(deal: RescanDeal, startedBy: string | null): Promise<BatchSummary> {
+    await this.refreshNormalizedName(deal.end_user)
+
+    // A detection failure fails the job rather than reporting every conflict as stale
+    const { conflicts } = await this.engine.findConflicts({
+      id: deal.id,
+      end_user: deal.end_user,
+      reseller_id: deal.reseller_id,
+      total_value: deal.total_value,
+      submission_date: deal.submission_date,
+      products: deal.products,
+    })
+
+    const { data: stored, error } = await this.supabase
+      .from('deal_conflicts')
+      .select('id, deal_id, competing_deal_id, conflict_type, resolution_status')
+      .or(`deal_id.eq.${deal.id},competing_deal_id.eq.${deal.id}`)
+
+    if (error) {
+      console.error('Error fetching stored conflicts:', error)
+      throw error
+    }
+
+    const storedConflicts = (stored || []) as StoredConflict[]
+    const pairKey = (otherDealId: string, type: string) => `${otherDealId}:${type}`
+    const storedKeys = new Set(
+      storedConflicts.map(conflict => pairKey(
+        conflict.deal_id === deal.id ? conflict.competing_deal_id : conflict.deal_id,
+        conflict.conflict_type
+      ))
+    )
+
+    const records = this.engine.buildConflictRecords(conflicts, deal.id)
+    const detectedKeys = new Set(records.map(record => pairKey(record.competing_deal_id, record.conflict_type)))
+    const newRecords = records.filter(record => !storedKeys.has(pairKey(record.competing_deal_id, record.conflict_type)))
+
+    // A pair inserted by an overlapping step in the meantime is skipped, so only rows this
+    // step actually wrote count as new
+    let inserted: { id: string; severity: string | null }[] = []
+    if (newRecords.length > 0) {
+      const { data: insertedRows, error: insertError } = await this.supabase
+        .from('deal_conflicts')
+        .upsert(newRecords.map(record => ({
+          ...record,
+          deal_id: deal.id,
+          resolution_status: 'pending' as const,
+        })), { onConflict: 'deal_id,competing_deal_id,conflict_type', ignoreDuplicates: true })
+        .select('id, severity')
+
+      if (insertError) {
+        console.error('Error inserting rescanned conflicts:', insertError)
+        throw insertError
+      }
+
+      inserted = insertedRows || []
+    }
+
+    // As on submission, a high-severity conflict disputes the deal; auto-resolution below
+    // then decides it like any other disputed deal
+    if (inserted.some(conflict => conflict.severity === 'high') && DISPUTABLE_STATUSES.includes(deal.status)) {
+      await this.disputeDeal(deal.id, startedBy)
+    }
+
+    if (inserted.length > 0) {
+      await this.autoResolver.resolvePending(deal.id)
+      await this.assigner.assignPending(deal.id)
+    }
+
+    // Only conflicts recorded against this deal are checked for staleness, so a pair
+    // isn't counted twice when the competing deal is scanned too
+    const staleConflicts = storedConflicts.filter(conflict =>
+      conflict.deal_id === deal.id &&
+      conflict.resolution_status === 'pending' &&
+      !detectedKeys.has(pairKey(conflict.competing_deal_id, conflict.conflict_type))
+    )
+
+    return {
+      new_conflicts: inserted.length,
+      unchanged_conflicts: records.length - inserted.length,
+      stale_conflicts: staleConflicts.length,
+    }
+  }
+
+  private async disputeDeal(dealId: string, startedBy: string | null): Promise<void> {
+    const result = await changeDealStatus(this.supabase, dealId, 'disputed', {
+      reason: 'High-severity conflict found by conflict re-scan',
+      changedBy: startedBy
+    })
+
+    if (result.error !== null) {
+      // A 409 means the deal changed since it was read, e.g. it was just decided; leave it be
+      if (result.status === 409) return
+      throw new Error(result.error)
+    }
+
+    await recordAuditEvent({
+      actorId: startedBy,
+      entityType: 'deal',
+      entityId: dealId,
+      action: 'dispute',
+      before: result.previous,
+      after: result.deal
+    })
+  }
+
+  // Names stored before normalization existed, or under an older normalizer, are brought
+  // up to date so candidate matching finds them
+  private async refreshNormalizedName(endUser: RescanDeal['end_user']): Promise<void> {
+    const normalized = normalizeCompanyName(endUser.company_name)
+    if (normalized === endUser.normalized_company_name) return
+
+    const { error } = await this.supabase
+      .from('end_users')
+      .update({ normalized_company_name: normalized })
+      .eq('id', endUser.id)
+
+    if (error) {
+      console.error('Error refreshing normalized company name:', error)
+      throw error
+    }
+  }
+
+  private async failJob(job: ConflictRescanJob, message: string): Promise<RescanResult> {
+    const { data: failedJob, error } = await this.supabase
+      .from('conflict_rescan_jobs')
+      .update({ status: 'failed', error: message, completed_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error marking rescan job as failed:', error)
+      return { job: null, finished: false, error: message, status: 500 }
+    }
+
+    return { job: failedJob, finished: true, error: null, status: 200 }
+  }
+}
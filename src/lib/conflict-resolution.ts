@@ -0,0 +1,162 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getTransitionError } from './deal-status'
+import type { AutoResolutionPolicyType, ResolveConflict } from './types'
+import { z } from 'zod'
+
+// Winning deals that have not been placed yet are assigned to their own reseller
+const ASSIGNABLE_STATUSES = ['pending', 'disputed']
+
+// Postgres raise_exception, used by resolve_deal_conflict when the deals moved on meanwhile
+const RAISE_EXCEPTION = 'P0001'
+
+export const RESOLUTION_REASON_LABELS: Record<ResolveConflict['reason_code'], string> = {
+  first_to_register: 'First to register',
+  existing_relationship: 'Existing customer relationship',
+  territory_ownership: 'Territory ownership',
+  partner_tier: 'Partner tier',
+  customer_preference: 'Customer preference',
+  duplicate_submission: 'Duplicate submission',
+  other: 'Other',
+}
+
+export const AUTO_RESOLUTION_POLICY_LABELS: Record<z.infer<typeof AutoResolutionPolicyType>, string> = {
+  first_registration: 'First registration wins',
+  higher_tier: 'Higher partner tier wins',
+  incumbent_reseller: 'Incumbent reseller wins',
+}
+
+type DealChange = { deal: Record<string, unknown>; previous: Record<string, unknown> }
+
+// What resolve_deal_conflict returns
+type ResolutionRecord = {
+  conflicts: Record<string, unknown>[]
+  previous_conflicts: Record<string, unknown>[]
+  winner: DealChange | null
+  loser: DealChange | null
+}
+
+export type ConflictResolutionResult =
+  | {
+      conflicts: Record<string, unknown>[]
+      previousConflicts: Record<string, unknown>[]
+      winner: DealChange | null
+      loser: DealChange | null
+      error: null
+      status: 200
+    }
+  | {
+      conflicts: null
+      previousConflicts: null
+      winner: null
+      loser: null
+      error: string
+      status: 400 | 404 | 409 | 500
+    }
+
+const failure = (error: string, status: 400 | 404 | 409 | 500): ConflictResolutionResult => ({
+  conflicts: null,
+  previousConflicts: null,
+  winner: null,
+  loser: null,
+  error,
+  status,
+})
+
+// Resolves a conflict in favour of one of its two deals. The winner is assigned to its
+// reseller, the loser moves to the requested status, and every pending conflict between
+// the two deals - whichever side each row was recorded from - is closed with the outcome.
+// Both transitions are checked here and all of it is written in one transaction by
+// resolve_deal_conflict. Automatic resolutions have no staff member behind them and
+// record the policy that decided them instead.
+export async function resolveConflict(
+  supabase: SupabaseClient,
+  conflictId: string,
+  outcome: ResolveConflict,
+  resolvedBy: string | null,
+  policy: z.infer<typeof AutoResolutionPolicyType> | null = null
+): Promise<ConflictResolutionResult> {
+  const { data: conflict, error: fetchError } = await supabase
+    .from('deal_conflicts')
+    .select(`
+      *,
+      deal:deals!deal_conflicts_deal_id_fkey(*),
+      competing_deal:deals!deal_conflicts_competing_deal_id_fkey(*)
+    `)
+    .eq('id', conflictId)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('Error fetching conflict:', fetchError)
+    return failure('Failed to fetch conflict', 500)
+  }
+
+  if (!conflict) {
+    return failure('Conflict not found', 404)
+  }
+
+  if (conflict.resolution_status !== 'pending') {
+    return failure(`Conflict is already ${conflict.resolution_status}`, 409)
+  }
+
+  if (![conflict.deal_id, conflict.competing_deal_id].includes(outcome.winning_deal_id)) {
+    return failure('The winning deal must be one of the two deals in the conflict', 400)
+  }
+
+  const [winningDeal, losingDeal] = conflict.deal_id === outcome.winning_deal_id
+    ? [conflict.deal, conflict.competing_deal]
+    : [conflict.competing_deal, conflict.deal]
+
+  if (winningDeal.status === 'rejected' || winningDeal.status === 'withdrawn') {
+    return failure(`A ${winningDeal.status} deal cannot win a conflict`, 409)
+  }
+
+  if (losingDeal.status !== outcome.losing_deal_status) {
+    const transitionError = getTransitionError(losingDeal.status, outcome.losing_deal_status)
+    if (transitionError) {
+      return failure(`Losing deal: ${transitionError}`, 409)
+    }
+  }
+
+  const assignWinner = ASSIGNABLE_STATUSES.includes(winningDeal.status)
+  if (assignWinner) {
+    const transitionError = getTransitionError(winningDeal.status, 'assigned')
+    if (transitionError) {
+      return failure(`Winning deal: ${transitionError}`, 409)
+    }
+  }
+
+  const reasonLabel = RESOLUTION_REASON_LABELS[outcome.reason_code]
+  const { data, error: resolveError } = await supabase.rpc('resolve_deal_conflict', {
+    p_conflict_id: conflictId,
+    p_winning_deal_id: winningDeal.id,
+    p_winner_from: winningDeal.status,
+    p_loser_from: losingDeal.status,
+    p_assign_winner: assignWinner,
+    p_losing_deal_status: outcome.losing_deal_status,
+    p_reason_code: outcome.reason_code,
+    p_rationale: outcome.rationale,
+    p_winner_reason: `Won conflict: ${reasonLabel}`,
+    p_loser_reason: `Lost conflict: ${reasonLabel}`,
+    p_resolved_by: resolvedBy,
+    p_auto_resolution_policy: policy,
+  })
+
+  if (resolveError) {
+    // Raised when a deal or the conflict changed after it was read above
+    if (resolveError.code === RAISE_EXCEPTION) {
+      return failure(resolveError.message, 409)
+    }
+    console.error('Error resolving conflict:', resolveError)
+    return failure('Failed to resolve conflict', 500)
+  }
+
+  const resolution = data as ResolutionRecord
+  return {
+    conflicts: resolution.conflicts,
+    previousConflicts: resolution.previous_conflicts,
+    winner: resolution.winner,
+    loser: resolution.loser,
+    error: null,
+    status: 200,
+  }
+}
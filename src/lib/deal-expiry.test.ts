@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { protectionDays } from './deal-expiry'
+import { DealProtectionSettingsSchema } from './types'
+
+const settings = DealProtectionSettingsSchema.parse({
+  category_days: { Hardware: 120, Services: 30 },
+})
+
+describe('protectionDays', () => {
+  it.each([
+    ['gold', 90],
+    ['silver', 60],
+    ['bronze', 45],
+  ] as const)('protects a %s partner for %i days', (tier, days) => {
+    expect(protectionDays(settings, tier, ['Software'])).toBe(days)
+  })
+
+  it('uses a listed category over the tier, even when it is shorter', () => {
+    expect(protectionDays(settings, 'gold', ['Services'])).toBe(30)
+    expect(protectionDays(settings, 'bronze', ['Hardware'])).toBe(120)
+  })
+
+  it('takes the longest listed category when a deal spans several', () => {
+    expect(protectionDays(settings, 'silver', ['Services', 'Software', 'Hardware'])).toBe(120)
+  })
+
+  it('falls back to the tier for a deal without products', () => {
+    expect(protectionDays(settings, 'silver', [])).toBe(60)
+  })
+})
@@ -0,0 +1,122 @@
+import { createAdminClient } from './supabase'
+import { getSetting } from './settings'
+import { changeDealStatus } from './deal-status'
+import { recordAuditEvent } from './audit'
+import type { DealProtectionSettings, ResellerTier } from './types'
+import { z } from 'zod'
+
+// Deals expired per run; the scheduled job picks up any remainder on its next run
+const BATCH_SIZE = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type ProtectedDeal = {
+  reseller: { tier: z.infer<typeof ResellerTier> } | null
+  assigned_reseller: { tier: z.infer<typeof ResellerTier> } | null
+  products: { product: { category: string } | null }[]
+}
+
+export interface DealExpirySummary {
+  expired: string[]
+  failed: number
+}
+
+// A category listed in category_days takes precedence over the tier, and the longest
+// such category wins when a deal spans several
+export function protectionDays(
+  settings: DealProtectionSettings,
+  tier: z.infer<typeof ResellerTier>,
+  categories: string[]
+): number {
+  const categoryDays = categories
+    .map(category => settings.category_days[category])
+    .filter((days): days is number => days !== undefined)
+
+  return categoryDays.length > 0 ? Math.max(...categoryDays) : settings.tier_days[tier]
+}
+
+// Sets protection windows on approval and ends them once they have run out. The protected
+// reseller is the one the deal is assigned to, or the submitter when it was never reassigned.
+export class DealExpirer {
+  private supabase = createAdminClient()
+
+  // Null when the deal doesn't exist, which the status change then reports
+  async expiresAt(dealId: string, approvedAt = new Date()): Promise<string | null> {
+    const settings = await getSetting('deal_protection')
+
+    const { data: deal, error } = await this.supabase
+      .from('deals')
+      .select(`
+        reseller:resellers!deals_reseller_id_fkey(tier),
+        assigned_reseller:resellers!deals_assigned_reseller_id_fkey(tier),
+        products:deal_products(
+          product:products(category)
+        )
+      `)
+      .eq('id', dealId)
+      .maybeSingle()
+      .overrideTypes<ProtectedDeal, { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching deal for protection period:', error)
+      throw error
+    }
+
+    if (!deal) return null
+
+    const tier = deal.assigned_reseller?.tier || deal.reseller?.tier || 'bronze'
+    const categories = deal.products
+      .map(line => line.product?.category)
+      .filter((category): category is string => !!category)
+
+    const days = protectionDays(settings, tier, categories)
+    return new Date(approvedAt.getTime() + days * DAY_MS).toISOString()
+  }
+
+  // Moves approved deals whose protection has ended to expired. Never throws.
+  async expireDue(now = new Date()): Promise<DealExpirySummary> {
+    const summary: DealExpirySummary = { expired: [], failed: 0 }
+
+    try {
+      const { data: dueDeals, error } = await this.supabase
+        .from('deals')
+        .select('id, expires_at')
+        .eq('status', 'approved')
+        .lte('expires_at', now.toISOString())
+        .order('expires_at', { ascending: true })
+        .limit(BATCH_SIZE)
+
+      if (error) {
+        console.error('Error fetching deals due to expire:', error)
+        return summary
+      }
+
+      for (const dueDeal of dueDeals || []) {
+        const result = await changeDealStatus(this.supabase, dueDeal.id, 'expired', {
+          reason: 'Protection period ended',
+          changedBy: null
+        })
+
+        if (result.error !== null) {
+          // A 409 means the deal changed since it was read; the next run re-checks it
+          if (result.status !== 409) summary.failed++
+          continue
+        }
+
+        await recordAuditEvent({
+          actorId: null,
+          entityType: 'deal',
+          entityId: dueDeal.id,
+          action: 'expire',
+          before: result.previous,
+          after: result.deal
+        })
+        summary.expired.push(dueDeal.id)
+      }
+    } catch (error) {
+      console.error('Error expiring deals:', error)
+    }
+
+    return summary
+  }
+}
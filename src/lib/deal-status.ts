@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DealStatus } from './types'
+import { z } from 'zod'
+
+export type DealStatusValue = z.infer<typeof DealStatus>
+
+// Allowed deal status transitions. Rejected, expired and withdrawn are final, and an approved
+// deal only expires once its protection period ends; an assigned deal may be reassigned, so
+// assigned -> assigned is a valid transition. Only undecided deals can be withdrawn.
+export const DEAL_STATUS_TRANSITIONS: Record<DealStatusValue, DealStatusValue[]> = {
+  pending: ['assigned', 'disputed', 'approved', 'rejected', 'withdrawn'],
+  disputed: ['pending', 'assigned', 'rejected', 'withdrawn'],
+  assigned: ['assigned', 'disputed', 'approved', 'rejected'],
+  approved: ['expired'],
+  rejected: [],
+  expired: [],
+  withdrawn: [],
+}
+
+export function canTransition(from: DealStatusValue, to: DealStatusValue): boolean {
+  return DEAL_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export function getTransitionError(from: DealStatusValue, to: DealStatusValue): string | null {
+  if (canTransition(from, to)) return null
+
+  const allowed = DEAL_STATUS_TRANSITIONS[from] || []
+  return allowed.length === 0
+    ? `Deal is ${from} and can no longer change status`
+    : `Cannot move deal from ${from} to ${to} (allowed: ${allowed.join(', ')})`
+}
+
+export type StatusChangeResult =
+  | { deal: Record<string, unknown>; previous: Record<string, unknown>; error: null; status: 200 }
+  | { deal: null; previous: null; error: string; status: 404 | 409 | 500 }
+
+export type StatusChangeOptions = {
+  reason: string
+  changedBy: string | null
+  updates?: Record<string, unknown>
+}
+
+// Moves a deal to a new status and records the change in deal_status_history.
+// The update is conditional on the status read, so concurrent changes surface as a 409.
+export async function changeDealStatus(
+  supabase: SupabaseClient,
+  dealId: string,
+  to: DealStatusValue,
+  { reason, changedBy, updates = {} }: StatusChangeOptions
+): Promise<StatusChangeResult> {
+  const { data: currentDeal, error: fetchError } = await supabase
+    .from('deals')
+    .select('*')
+    .eq('id', dealId)
+    .single()
+
+  if (fetchError || !currentDeal) {
+    return { deal: null, previous: null, error: 'Deal not found', status: 404 }
+  }
+
+  const transitionError = getTransitionError(currentDeal.status, to)
+  if (transitionError) {
+    return { deal: null, previous: null, error: transitionError, status: 409 }
+  }
+
+  const { data: updatedDeal, error: updateError } = await supabase
+    .from('deals')
+    .update({ ...updates, status: to })
+    .eq('id', dealId)
+    .eq('status', currentDeal.status)
+    .select()
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error updating deal status:', updateError)
+    return { deal: null, previous: null, error: 'Failed to update deal status', status: 500 }
+  }
+
+  if (!updatedDeal) {
+    return { deal: null, previous: null, error: 'Deal status was changed by another request', status: 409 }
+  }
+
+  const { error: historyError } = await supabase
+    .from('deal_status_history')
+    .insert({
+      deal_id: dealId,
+      from_status: currentDeal.status,
+      to_status: to,
+      reason,
+      changed_by: changedBy,
+    })
+
+  if (historyError) {
+    console.error('Error recording status history:', historyError)
+    // Don't fail the request, just log the error
+  }
+
+  return { deal: updatedDeal, previous: currentDeal, error: null, status: 200 }
+}
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Rows each table returns for the next evaluation
+let rules: unknown[] = []
+let reseller: Record<string, unknown> = {}
+let products: unknown[] = []
+
+vi.mock('./supabase', () => ({
+  createAdminClient: () => ({
+    from: (table: string) => ({
+      select: () => {
+        switch (table) {
+          case 'eligibility_rules':
+            return { eq: () => ({ order: async () => ({ data: rules, error: null }) }) }
+          case 'resellers':
+            return { eq: () => ({ single: async () => ({ data: reseller, error: null }) }) }
+          case 'products':
+            return { in: async () => ({ data: products, error: null }) }
+          default:
+            return { order: async () => ({ data: territories, error: null }) }
+        }
+      },
+    }),
+  }),
+}))
+
+import { EligibilityRuleEngine, unknownRuleTerritories } from './eligibility-rules'
+import { TerritoryHierarchy } from './territories'
+
+const NORTH_AMERICA = '00000000-0000-4000-8000-000000000001'
+const NORTHEAST_US = '00000000-0000-4000-8000-000000000002'
+const EMEA = '00000000-0000-4000-8000-000000000003'
+const SERVER_ID = '00000000-0000-4000-8000-0000000000b1'
+const LICENSE_ID = '00000000-0000-4000-8000-0000000000b2'
+
+const territories = [
+  { id: NORTH_AMERICA, name: 'North America', parent_id: null },
+  { id: NORTHEAST_US, name: 'Northeast US', parent_id: NORTH_AMERICA },
+  { id: EMEA, name: 'EMEA', parent_id: null },
+]
+
+const deal = {
+  reseller_id: '00000000-0000-4000-8000-0000000000a1',
+  end_user: {
+    company_name: 'Siemens AG',
+    contact_name: 'Anna Schmidt',
+    contact_email: 'anna@siemens.com',
+    territory: 'Northeast US',
+  },
+  // 60,000 in total
+  products: [
+    { product_id: SERVER_ID, quantity: 2, price: 25000 },
+    { product_id: LICENSE_ID, quantity: 10, price: 1000 },
+  ],
+}
+
+let ruleCount = 0
+function rule(rule_type: string, conditions: Record<string, unknown>) {
+  ruleCount++
+  return { id: `rule-${ruleCount}`, name: `${rule_type} rule ${ruleCount}`, rule_type, conditions, is_active: true }
+}
+
+const evaluate = () => new EligibilityRuleEngine().evaluate(deal)
+
+describe('EligibilityRuleEngine', () => {
+  beforeEach(() => {
+    rules = []
+    reseller = { id: deal.reseller_id, name: 'Acme Resale', territory: 'North America', territory_id: NORTH_AMERICA, tier: 'silver' }
+    products = [
+      { id: SERVER_ID, name: 'Rack Server', category: 'Hardware', list_price: 25000 },
+      { id: LICENSE_ID, name: 'Seat License', category: 'Software', list_price: 1000 },
+    ]
+  })
+
+  it('passes every deal when no rules are active', async () => {
+    expect(await evaluate()).toEqual({ eligible: true, flagged: false, violations: [] })
+  })
+
+  describe('territory rules', () => {
+    it('allows an end user beneath an allowed territory', async () => {
+      rules = [rule('territory', { allowed_territories: [NORTH_AMERICA] })]
+
+      expect((await evaluate()).eligible).toBe(true)
+    })
+
+    it('rejects an end user outside the allowed territories', async () => {
+      rules = [rule('territory', { allowed_territories: [EMEA] })]
+
+      const result = await evaluate()
+
+      expect(result.eligible).toBe(false)
+      expect(result.violations[0].reason).toContain('(EMEA)')
+    })
+
+    it('resolves match_reseller_territory to the reseller territory', async () => {
+      rules = [rule('territory', { allowed_territories: ['match_reseller_territory'] })]
+      expect((await evaluate()).eligible).toBe(true)
+
+      reseller = { ...reseller, territory: 'EMEA', territory_id: EMEA }
+      expect((await evaluate()).eligible).toBe(false)
+    })
+  })
+
+  describe('product rules', () => {
+    it('blocks listed categories and products', async () => {
+      rules = [
+        rule('product', { blocked_categories: ['Hardware'] }),
+        rule('product', { blocked_product_ids: [LICENSE_ID], action: 'flag' }),
+      ]
+
+      const result = await evaluate()
+
+      expect(result.violations.map(v => [v.action, v.reason])).toEqual([
+        ['reject', 'silver partners cannot register: Rack Server'],
+        ['flag', 'silver partners cannot register: Seat License'],
+      ])
+    })
+
+    it('only applies to the listed tiers', async () => {
+      rules = [rule('product', { blocked_categories: ['Hardware'], applies_to_tiers: ['bronze'] })]
+
+      expect((await evaluate()).violations).toEqual([])
+    })
+  })
+
+  describe('deal size rules', () => {
+    it.each([
+      [{ max_value: 50000 }, false],
+      [{ max_value: 60000 }, true],
+      [{ min_value: 75000 }, false],
+      [{ min_value: 60000 }, true],
+      [{ max_value: 50000, applies_to_tiers: ['gold'] }, true],
+    ])('%j leaves the 60,000 deal eligible: %s', async (conditions, eligible) => {
+      rules = [rule('deal_size', conditions)]
+
+      expect((await evaluate()).eligible).toBe(eligible)
+    })
+  })
+
+  describe('partner tier rules', () => {
+    it('caps deals for partners at or above the tier', async () => {
+      rules = [rule('partner_tier', { min_tier: 'silver', max_deal_value: 50000, action: 'flag' })]
+
+      expect(await evaluate()).toMatchObject({ eligible: true, flagged: true })
+    })
+
+    it('ignores partners below the tier', async () => {
+      rules = [rule('partner_tier', { min_tier: 'gold', max_deal_value: 50000 })]
+
+      expect((await evaluate()).violations).toEqual([])
+    })
+
+    it('allows any value when the cap is null', async () => {
+      rules = [rule('partner_tier', { min_tier: 'bronze', max_deal_value: null })]
+
+      expect((await evaluate()).violations).toEqual([])
+    })
+  })
+
+  it('skips a rule with malformed conditions', async () => {
+    rules = [rule('deal_size', { max_value: 'lots' }), rule('deal_size', { max_value: 50000 })]
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await evaluate()
+    consoleError.mockRestore()
+
+    expect(result.violations.map(v => v.rule_name)).toEqual([(rules[1] as { name: string }).name])
+  })
+})
+
+describe('unknownRuleTerritories', () => {
+  it('lists territory ids that no longer exist', () => {
+    const missing = '00000000-0000-4000-8000-0000000000ff'
+    const conditions = { allowed_territories: [NORTH_AMERICA, 'match_reseller_territory', missing], action: 'reject' as const }
+
+    expect(unknownRuleTerritories(conditions, new TerritoryHierarchy(territories))).toEqual([missing])
+  })
+})
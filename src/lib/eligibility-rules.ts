@@ -0,0 +1,218 @@
+import { createAdminClient } from './supabase'
+import {
+  TerritoryRuleConditionsSchema,
+  ProductRuleConditionsSchema,
+  DealSizeRuleConditionsSchema,
+  PartnerTierRuleConditionsSchema,
+  EligibilityAction,
+} from './types'
+import type { CreateDeal, EligibilityRule, Reseller, Product, RuleViolation, TerritoryRuleConditions } from './types'
+import { formatCurrency } from './utils'
+import { TerritoryHierarchy } from './territories'
+import { z } from 'zod'
+
+export interface EligibilityResult {
+  eligible: boolean
+  flagged: boolean
+  violations: RuleViolation[]
+}
+
+type EvaluationContext = {
+  deal: CreateDeal
+  reseller: Reseller
+  products: Product[]
+  territories: TerritoryHierarchy
+  totalValue: number
+}
+
+const tierRank = { bronze: 1, silver: 2, gold: 3 }
+
+// Territory ids a territory rule refers to that no longer exist, checked before a rule is saved
+export function unknownRuleTerritories(
+  conditions: TerritoryRuleConditions,
+  territories: TerritoryHierarchy
+): string[] {
+  return conditions.allowed_territories.filter(t =>
+    t !== 'match_reseller_territory' && !territories.find(t)
+  )
+}
+
+export class EligibilityRuleEngine {
+  private supabase = createAdminClient()
+
+  async evaluate(deal: CreateDeal): Promise<EligibilityResult> {
+    const { data: rules, error: rulesError } = await this.supabase
+      .from('eligibility_rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true })
+
+    if (rulesError) {
+      console.error('Error fetching eligibility rules:', rulesError)
+      throw rulesError
+    }
+
+    if (!rules || rules.length === 0) {
+      return { eligible: true, flagged: false, violations: [] }
+    }
+
+    const { data: reseller, error: resellerError } = await this.supabase
+      .from('resellers')
+      .select('*')
+      .eq('id', deal.reseller_id)
+      .single()
+
+    if (resellerError || !reseller) {
+      console.error('Error fetching reseller for eligibility check:', resellerError)
+      throw resellerError || new Error('Reseller not found')
+    }
+
+    const { data: products, error: productsError } = await this.supabase
+      .from('products')
+      .select('*')
+      .in('id', deal.products.map(p => p.product_id))
+
+    if (productsError) {
+      console.error('Error fetching products for eligibility check:', productsError)
+      throw productsError
+    }
+
+    const context: EvaluationContext = {
+      deal,
+      reseller,
+      products: products || [],
+      territories: await TerritoryHierarchy.load(),
+      totalValue: deal.products.reduce((sum, p) => sum + (p.quantity * p.price), 0),
+    }
+
+    const violations: RuleViolation[] = []
+    for (const rule of rules as EligibilityRule[]) {
+      const violation = this.evaluateRule(rule, context)
+      if (violation) {
+        violations.push(violation)
+      }
+    }
+
+    return {
+      eligible: !violations.some(v => v.action === 'reject'),
+      flagged: violations.some(v => v.action === 'flag'),
+      violations,
+    }
+  }
+
+  private evaluateRule(rule: EligibilityRule, context: EvaluationContext): RuleViolation | null {
+    try {
+      switch (rule.rule_type) {
+        case 'territory':
+          return this.checkTerritoryRule(rule, context)
+        case 'product':
+          return this.checkProductRule(rule, context)
+        case 'deal_size':
+          return this.checkDealSizeRule(rule, context)
+        case 'partner_tier':
+          return this.checkPartnerTierRule(rule, context)
+        default:
+          return null
+      }
+    } catch (error) {
+      // A malformed rule must not block every submission; skip it and surface it in the logs
+      console.error(`Invalid conditions for eligibility rule "${rule.name}":`, error)
+      return null
+    }
+  }
+
+  private checkTerritoryRule(
+    rule: EligibilityRule,
+    { deal, reseller, territories }: EvaluationContext
+  ): RuleViolation | null {
+    const conditions = TerritoryRuleConditionsSchema.parse(rule.conditions)
+
+    const allowed = conditions.allowed_territories.map(t =>
+      t === 'match_reseller_territory' ? reseller.territory_id || reseller.territory : t
+    )
+
+    // Allowing a territory allows everything beneath it
+    if (allowed.some(t => territories.contains(t, deal.end_user.territory))) {
+      return null
+    }
+
+    const allowedNames = allowed.map(t => territories.find(t)?.name || t)
+    return this.violation(rule, conditions.action,
+      `End user territory "${deal.end_user.territory}" is outside the allowed territories (${allowedNames.join(', ')})`
+    )
+  }
+
+  private checkProductRule(rule: EligibilityRule, { reseller, products }: EvaluationContext): RuleViolation | null {
+    const conditions = ProductRuleConditionsSchema.parse(rule.conditions)
+
+    if (conditions.applies_to_tiers && !conditions.applies_to_tiers.includes(reseller.tier)) {
+      return null
+    }
+
+    const blocked = products.filter(product =>
+      conditions.blocked_categories.includes(product.category) ||
+      (product.id !== undefined && conditions.blocked_product_ids.includes(product.id))
+    )
+
+    if (blocked.length === 0) {
+      return null
+    }
+
+    return this.violation(rule, conditions.action,
+      `${reseller.tier} partners cannot register: ${blocked.map(p => p.name).join(', ')}`
+    )
+  }
+
+  private checkDealSizeRule(rule: EligibilityRule, { reseller, totalValue }: EvaluationContext): RuleViolation | null {
+    const conditions = DealSizeRuleConditionsSchema.parse(rule.conditions)
+
+    if (conditions.applies_to_tiers && !conditions.applies_to_tiers.includes(reseller.tier)) {
+      return null
+    }
+
+    if (conditions.max_value != null && totalValue > conditions.max_value) {
+      return this.violation(rule, conditions.action,
+        `Deal value ${formatCurrency(totalValue)} exceeds the ${formatCurrency(conditions.max_value)} limit for ${reseller.tier} partners`
+      )
+    }
+
+    if (conditions.min_value != null && totalValue < conditions.min_value) {
+      return this.violation(rule, conditions.action,
+        `Deal value ${formatCurrency(totalValue)} is below the ${formatCurrency(conditions.min_value)} minimum for ${reseller.tier} partners`
+      )
+    }
+
+    return null
+  }
+
+  private checkPartnerTierRule(rule: EligibilityRule, { reseller, totalValue }: EvaluationContext): RuleViolation | null {
+    const conditions = PartnerTierRuleConditionsSchema.parse(rule.conditions)
+
+    // The rule only describes partners at or above the tier; others are governed by other rules
+    if (tierRank[reseller.tier] < tierRank[conditions.min_tier]) {
+      return null
+    }
+
+    if (conditions.max_deal_value == null || totalValue <= conditions.max_deal_value) {
+      return null
+    }
+
+    return this.violation(rule, conditions.action,
+      `Deal value ${formatCurrency(totalValue)} exceeds the ${formatCurrency(conditions.max_deal_value)} limit for ${conditions.min_tier} partners`
+    )
+  }
+
+  private violation(
+    rule: EligibilityRule,
+    action: z.infer<typeof EligibilityAction>,
+    reason: string
+  ): RuleViolation {
+    return {
+      rule_id: rule.id as string,
+      rule_name: rule.name,
+      rule_type: rule.rule_type,
+      action,
+      reason,
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ConflictDetectionSettingsSchema } from './types'
+
+// End users the next run reads, and the deal counts count_end_user_deals returns for them
+let endUsers: unknown[] = []
+let dealCounts: { end_user_id: string; deal_count: number }[] = []
+const rpc = vi.fn(async () => ({ data: dealCounts, error: null }))
+
+vi.mock('./supabase', () => ({
+  createAdminClient: () => ({
+    rpc,
+    from: () => ({
+      select: () => ({
+        order: () => ({
+          range: async () => ({ data: endUsers, error: null }),
+        }),
+      }),
+    }),
+  }),
+}))
+
+vi.mock('./settings', () => ({
+  getSetting: async () => ConflictDetectionSettingsSchema.parse({}),
+}))
+
+import { EndUserDeduplicator } from './end-user-dedupe'
+
+let created = 0
+function endUser(id: string, company_name: string, contact_email: string) {
+  created++
+  return {
+    id,
+    company_name,
+    contact_name: 'Contact',
+    contact_email,
+    territory: 'Northeast US',
+    created_at: `2026-01-${String(created).padStart(2, '0')}T00:00:00Z`,
+  }
+}
+
+const clusterIds = async () =>
+  (await new EndUserDeduplicator().findClusters()).map(cluster => cluster.members.map(member => member.id))
+
+describe('EndUserDeduplicator', () => {
+  beforeEach(() => {
+    rpc.mockClear()
+    created = 0
+    dealCounts = []
+  })
+
+  it('groups end users whose normalized company names are similar', async () => {
+    endUsers = [
+      endUser('a', 'Siemens AG', 'anna@siemens.com'),
+      endUser('b', 'Siemens Inc.', 'bob@siemens-usa.com'),
+      endUser('c', 'Initech', 'carol@initech.com'),
+    ]
+
+    const clusters = await new EndUserDeduplicator().findClusters()
+
+    expect(clusters.map(cluster => cluster.members.map(member => member.id))).toEqual([['a', 'b']])
+    expect(clusters[0].reasons).toEqual(['Similar company names'])
+  })
+
+  it('groups contacts on the same corporate email domain', async () => {
+    endUsers = [
+      endUser('a', 'Siemens AG', 'anna@siemens.com'),
+      endUser('b', 'Healthineers', 'bob@SIEMENS.com'),
+    ]
+
+    const clusters = await new EndUserDeduplicator().findClusters()
+
+    expect(clusters[0].reasons).toEqual(['Shared email domain siemens.com'])
+  })
+
+  it('never groups on a free email domain', async () => {
+    endUsers = [
+      endUser('a', 'Globex', 'anna@gmail.com'),
+      endUser('b', 'Initech', 'bob@gmail.com'),
+    ]
+
+    expect(await clusterIds()).toEqual([])
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('links pairs transitively into one cluster', async () => {
+    endUsers = [
+      endUser('a', 'Siemens AG', 'anna@siemens.com'),
+      endUser('b', 'Siemens Inc.', 'bob@siemens-usa.com'),
+      endUser('c', 'Healthineers', 'carol@siemens-usa.com'),
+    ]
+
+    const clusters = await new EndUserDeduplicator().findClusters()
+
+    expect(clusters.map(cluster => cluster.members.map(member => member.id))).toEqual([['a', 'b', 'c']])
+    expect(clusters[0].reasons).toEqual(['Similar company names', 'Shared email domain siemens-usa.com'])
+  })
+
+  it('lists members oldest first with their deal counts, largest clusters first', async () => {
+    endUsers = [
+      endUser('initech-1', 'Initech', 'peter@initech.com'),
+      endUser('siemens-1', 'Siemens AG', 'anna@siemens.com'),
+      endUser('initech-2', 'Initech LLC', 'bill@initech.com'),
+      endUser('siemens-2', 'Siemens', 'bob@siemens.com'),
+      endUser('siemens-3', 'Siemens Inc.', 'carol@siemens.com'),
+    ]
+    dealCounts = [
+      { end_user_id: 'siemens-1', deal_count: 4 },
+      { end_user_id: 'initech-2', deal_count: 1 },
+    ]
+
+    const clusters = await new EndUserDeduplicator().findClusters()
+
+    expect(clusters.map(cluster => cluster.members.map(member => [member.id, member.deal_count]))).toEqual([
+      [['siemens-1', 4], ['siemens-2', 0], ['siemens-3', 0]],
+      [['initech-1', 0], ['initech-2', 1]],
+    ])
+  })
+})
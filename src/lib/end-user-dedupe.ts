@@ -0,0 +1,150 @@
+import { createAdminClient } from './supabase'
+import { getSetting } from './settings'
+import { normalizeCompanyName } from './company-names'
+import { calculateSimilarity, getCorporateEmailDomain } from './utils'
+import type { EndUser } from './types'
+
+// Supabase caps a single select, so end users are read in pages
+const PAGE_SIZE = 1000
+
+type StoredEndUser = EndUser & { id: string; created_at: string }
+
+export type DuplicateMember = StoredEndUser & { deal_count: number }
+
+export interface DuplicateCluster {
+  members: DuplicateMember[]
+  // Why the members were grouped, e.g. "Similar company names, shared email domain acme.com"
+  reasons: string[]
+}
+
+// Groups end users that are likely the same customer, using the thresholds conflict detection
+// already applies to deals: company names at least `company_name_threshold` similar once
+// normalized, or contacts on the same corporate email domain. Pairs are linked transitively,
+// so A~B and B~C puts all three in one cluster.
+export class EndUserDeduplicator {
+  private supabase = createAdminClient()
+
+  async findClusters(): Promise<DuplicateCluster[]> {
+    const settings = await getSetting('conflict_detection')
+    const endUsers = await this.loadEndUsers()
+
+    const parent = new Map(endUsers.map(endUser => [endUser.id, endUser.id]))
+    const find = (id: string): string => {
+      const root = parent.get(id) as string
+      if (root === id) return id
+      const found = find(root)
+      parent.set(id, found)
+      return found
+    }
+    const reasons = new Map<string, Set<string>>()
+    const link = (a: string, b: string, reason: string) => {
+      parent.set(find(a), find(b))
+      const key = [a, b].sort().join(':')
+      reasons.set(key, (reasons.get(key) || new Set()).add(reason))
+    }
+
+    const normalized = new Map(endUsers.map(endUser => [endUser.id, normalizeCompanyName(endUser.company_name)]))
+
+    // Names are only compared within the same leading characters, which keeps this far from
+    // quadratic; a typo in the first letters is left for the email-domain match to catch
+    const byPrefix = new Map<string, StoredEndUser[]>()
+    for (const endUser of endUsers) {
+      const prefix = (normalized.get(endUser.id) || '').slice(0, 3)
+      if (!prefix) continue
+      byPrefix.set(prefix, [...(byPrefix.get(prefix) || []), endUser])
+    }
+
+    for (const group of byPrefix.values()) {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const similarity = calculateSimilarity(
+            normalized.get(group[i].id) as string,
+            normalized.get(group[j].id) as string
+          )
+          if (similarity >= settings.company_name_threshold) {
+            link(group[i].id, group[j].id, 'Similar company names')
+          }
+        }
+      }
+    }
+
+    const byDomain = new Map<string, StoredEndUser[]>()
+    for (const endUser of endUsers) {
+      const domain = getCorporateEmailDomain(endUser.contact_email, settings.free_email_domains)
+      if (!domain) continue
+      byDomain.set(domain, [...(byDomain.get(domain) || []), endUser])
+    }
+
+    for (const [domain, group] of byDomain) {
+      for (let i = 1; i < group.length; i++) {
+        link(group[0].id, group[i].id, `Shared email domain ${domain}`)
+      }
+    }
+
+    const clusters = new Map<string, StoredEndUser[]>()
+    for (const endUser of endUsers) {
+      const root = find(endUser.id)
+      clusters.set(root, [...(clusters.get(root) || []), endUser])
+    }
+
+    const duplicates = [...clusters.values()].filter(members => members.length > 1)
+    const dealCounts = await this.countDeals(duplicates.flat().map(endUser => endUser.id))
+
+    return duplicates
+      .map(members => {
+        const ids = new Set(members.map(member => member.id))
+        const clusterReasons = new Set<string>()
+        for (const [key, pairReasons] of reasons) {
+          const [a, b] = key.split(':')
+          if (ids.has(a) && ids.has(b)) pairReasons.forEach(reason => clusterReasons.add(reason))
+        }
+
+        return {
+          // Oldest first: the original record is the usual survivor
+          members: members
+            .map(member => ({ ...member, deal_count: dealCounts.get(member.id) || 0 }))
+            .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+          reasons: [...clusterReasons],
+        }
+      })
+      .sort((a, b) => b.members.length - a.members.length)
+  }
+
+  private async loadEndUsers(): Promise<StoredEndUser[]> {
+    const endUsers: StoredEndUser[] = []
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('end_users')
+        .select('*')
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching end users:', error)
+        throw error
+      }
+
+      endUsers.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) return endUsers
+    }
+  }
+
+  private async countDeals(endUserIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>()
+    if (endUserIds.length === 0) return counts
+
+    const { data, error } = await this.supabase
+      .rpc('count_end_user_deals', { p_end_user_ids: endUserIds })
+
+    if (error) {
+      console.error('Error counting deals per end user:', error)
+      throw error
+    }
+
+    for (const row of (data || []) as { end_user_id: string; deal_count: number }[]) {
+      counts.set(row.end_user_id, Number(row.deal_count))
+    }
+    return counts
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { ambiguousMentions, extractMentions, isHandleFor, mentionHandle, splitMentions } from './mentions'
+
+const staff = [
+  { id: 'jane-company', email: 'jane@company.com' },
+  { id: 'jane-partner', email: 'Jane@partner.com' },
+  { id: 'bob', email: 'bob.smith@company.com' },
+]
+
+describe('mentionHandle', () => {
+  it('uses the local part when nobody else shares it', () => {
+    expect(mentionHandle('bob.smith@company.com', staff)).toBe('bob.smith')
+  })
+
+  it('falls back to the full email when the local part is shared', () => {
+    expect(mentionHandle('jane@company.com', staff)).toBe('jane@company.com')
+    expect(mentionHandle('Jane@partner.com', staff)).toBe('jane@partner.com')
+  })
+})
+
+describe('isHandleFor', () => {
+  it('matches the local part or the full email', () => {
+    expect(isHandleFor('bob.smith@company.com', 'bob.smith')).toBe(true)
+    expect(isHandleFor('bob.smith@company.com', 'bob.smith@company.com')).toBe(true)
+    expect(isHandleFor('bob.smith@company.com', 'bob')).toBe(false)
+  })
+})
+
+describe('extractMentions', () => {
+  it('returns staff ids in order of first mention, once each', () => {
+    expect(extractMentions('@bob.smith please check with @jane@partner.com and @Bob.Smith', staff))
+      .toEqual(['bob', 'jane-partner'])
+  })
+
+  it('keeps trailing punctuation out of the handle', () => {
+    expect(extractMentions('Thanks @bob.smith.', staff)).toEqual(['bob'])
+    expect(extractMentions('Over to @jane@company.com.', staff)).toEqual(['jane-company'])
+  })
+
+  it('ignores email addresses and unknown handles', () => {
+    expect(extractMentions('Mail bob@company.com or ask @nobody', staff)).toEqual([])
+  })
+
+  it('ignores a handle that matches more than one colleague', () => {
+    expect(extractMentions('@jane can you look?', staff)).toEqual([])
+  })
+})
+
+describe('ambiguousMentions', () => {
+  it('lists each handle shared by several colleagues once', () => {
+    expect(ambiguousMentions('@jane and @JANE, with @bob.smith', staff)).toEqual(['jane'])
+  })
+
+  it('accepts the full email of a colleague with a shared local part', () => {
+    expect(ambiguousMentions('@jane@company.com', staff)).toEqual([])
+  })
+})
+
+describe('splitMentions', () => {
+  it('splits text and handles for rendering', () => {
+    expect(splitMentions('Ask @jane@partner.com, then @bob.smith.')).toEqual([
+      { text: 'Ask ', handle: null },
+      { text: '@jane@partner.com', handle: 'jane@partner.com' },
+      { text: ', then ', handle: null },
+      { text: '@bob.smith', handle: 'bob.smith' },
+      { text: '.', handle: null },
+    ])
+  })
+})
@@ -0,0 +1,65 @@
+// Staff are mentioned by the local part of their email, e.g. @jane.doe for jane.doe@company.com.
+// Names are not unique and contain spaces, so they make poor handles. When colleagues share a
+// local part, each is mentioned by the full email instead, e.g. @jane@partner.com.
+const MENTION_PATTERN = /(^|[^\w.@])@([\w][\w.-]*(?:@[\w-]+(?:\.[\w-]+)+)?)/g
+
+type Mentionable = { id: string; email: string }
+
+export type CommentSegment = { text: string; handle: string | null }
+
+function localPart(email: string): string {
+  return email.split('@')[0].toLowerCase()
+}
+
+// The handle to insert when mentioning a colleague
+export function mentionHandle(email: string, staff: Mentionable[]): string {
+  const local = localPart(email)
+  const shared = staff.filter(member => localPart(member.email) === local).length > 1
+  return shared ? email.toLowerCase() : local
+}
+
+// A handle refers to a colleague through their full email or their email's local part
+export function isHandleFor(email: string, handle: string): boolean {
+  return handle === email.toLowerCase() || handle === localPart(email)
+}
+
+// A handle at the end of a sentence keeps its trailing punctuation out of the match
+function handles(body: string): string[] {
+  return [...body.matchAll(MENTION_PATTERN)].map(match => match[2].replace(/[.-]+$/, '').toLowerCase())
+}
+
+function matchingStaff(handle: string, staff: Mentionable[]): Mentionable[] {
+  return staff.filter(member => isHandleFor(member.email, handle))
+}
+
+// Ids of the staff mentioned in a comment, in order of first mention. Unknown and
+// ambiguous handles are ignored.
+export function extractMentions(body: string, staff: Mentionable[]): string[] {
+  const ids = handles(body)
+    .map(handle => matchingStaff(handle, staff))
+    .filter(matches => matches.length === 1)
+    .map(([member]) => member.id)
+  return [...new Set(ids)]
+}
+
+// Handles that match more than one colleague; the API refuses comments containing them
+export function ambiguousMentions(body: string, staff: Mentionable[]): string[] {
+  return [...new Set(handles(body).filter(handle => matchingStaff(handle, staff).length > 1))]
+}
+
+// Splits a comment into plain text and @handle segments for rendering
+export function splitMentions(body: string): CommentSegment[] {
+  const segments: CommentSegment[] = []
+  let cursor = 0
+
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const handle = match[2].replace(/[.-]+$/, '')
+    const start = (match.index ?? 0) + match[1].length
+    if (start > cursor) segments.push({ text: body.slice(cursor, start), handle: null })
+    segments.push({ text: `@${handle}`, handle: handle.toLowerCase() })
+    cursor = start + handle.length + 1
+  }
+
+  if (cursor < body.length) segments.push({ text: body.slice(cursor), handle: null })
+  return segments
+}
@@ -0,0 +1,78 @@
+import type { StaffRole } from './types'
+import { z } from 'zod'
+
+type Role = z.infer<typeof StaffRole>
+
+// Higher rank inherits everything a lower rank may do
+export const ROLE_RANK: Record<Role, number> = {
+  staff: 1,
+  manager: 2,
+  admin: 3,
+}
+
+// Minimum role required for each API action
+export const PERMISSIONS = {
+  'dashboard:read': 'staff',
+  'deals:read': 'staff',
+  'deals:create': 'staff',
+  'deals:update': 'staff',
+  'deals:withdraw': 'staff',
+  'deals:assign': 'manager',
+  'deals:decide': 'manager',
+  'conflicts:read': 'staff',
+  'conflicts:update': 'manager',
+  'conflicts:comment': 'staff',
+  'conflicts:rescan': 'admin',
+  'resellers:read': 'staff',
+  'resellers:manage': 'manager',
+  'end_users:read': 'staff',
+  'end_users:manage': 'staff',
+  'end_users:merge': 'manager',
+  'products:read': 'staff',
+  'products:manage': 'admin',
+  'rules:read': 'staff',
+  'rules:manage': 'manager',
+  'territories:read': 'staff',
+  'territories:manage': 'admin',
+  'staff:read': 'staff',
+  'staff:manage': 'admin',
+  'settings:read': 'staff',
+  'settings:manage': 'admin',
+  'audit:read': 'manager',
+} as const satisfies Record<string, Role>
+
+export type Permission = keyof typeof PERMISSIONS
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'dashboard:read': 'View dashboard',
+  'deals:read': 'View deals',
+  'deals:create': 'Register deals',
+  'deals:update': 'Edit deal line items',
+  'deals:withdraw': 'Withdraw deals',
+  'deals:assign': 'Assign deals',
+  'deals:decide': 'Approve and reject deals',
+  'conflicts:read': 'View conflicts',
+  'conflicts:update': 'Resolve and assign conflicts',
+  'conflicts:comment': 'Add notes to conflicts',
+  'conflicts:rescan': 'Re-scan open deals for conflicts',
+  'resellers:read': 'View resellers',
+  'resellers:manage': 'Manage resellers',
+  'end_users:read': 'View end users',
+  'end_users:manage': 'Manage end users',
+  'end_users:merge': 'Merge duplicate end users',
+  'products:read': 'View products',
+  'products:manage': 'Manage products',
+  'rules:read': 'View eligibility rules',
+  'rules:manage': 'Manage eligibility rules',
+  'territories:read': 'View territories',
+  'territories:manage': 'Manage the territory hierarchy',
+  'staff:read': 'View staff and their conflict load',
+  'staff:manage': 'Manage staff territory expertise',
+  'settings:read': 'View system settings',
+  'settings:manage': 'Change system settings',
+  'audit:read': 'View audit log',
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[PERMISSIONS[permission]]
+}
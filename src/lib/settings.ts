@@ -0,0 +1,92 @@
+import { createAdminClient } from './supabase'
+import {
+  AuditLoggingSettingsSchema,
+  ConflictDetectionSettingsSchema,
+  ConflictSlaSettingsSchema,
+  ConflictAutoResolutionSettingsSchema,
+  ConflictAssignmentSettingsSchema,
+  DealProtectionSettingsSchema,
+} from './types'
+import type { SettingVersion } from './types'
+import { z } from 'zod'
+
+// Every configurable key and the schema its stored value must satisfy
+export const SETTING_SCHEMAS = {
+  audit_logging: AuditLoggingSettingsSchema,
+  conflict_detection: ConflictDetectionSettingsSchema,
+  conflict_sla: ConflictSlaSettingsSchema,
+  conflict_auto_resolution: ConflictAutoResolutionSettingsSchema,
+  conflict_assignment: ConflictAssignmentSettingsSchema,
+  deal_protection: DealProtectionSettingsSchema,
+} as const
+
+export type SettingKey = keyof typeof SETTING_SCHEMAS
+export type SettingValue<K extends SettingKey> = z.infer<(typeof SETTING_SCHEMAS)[K]>
+
+export function isSettingKey(key: string): key is SettingKey {
+  return key in SETTING_SCHEMAS
+}
+
+// Reads a setting, falling back to the schema defaults when it is missing or invalid
+export async function getSetting<K extends SettingKey>(key: K): Promise<SettingValue<K>> {
+  const schema = SETTING_SCHEMAS[key]
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error fetching setting "${key}":`, error)
+  }
+
+  const parsed = schema.safeParse(data?.value ?? {})
+  if (!parsed.success) {
+    console.error(`Invalid stored value for setting "${key}":`, parsed.error.issues)
+    return schema.parse({}) as SettingValue<K>
+  }
+
+  return parsed.data as SettingValue<K>
+}
+
+export async function updateSetting<K extends SettingKey>(
+  key: K,
+  value: SettingValue<K>,
+  updatedBy: string | null
+): Promise<SettingValue<K>> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('system_settings')
+    .upsert({ key, value, updated_by: updatedBy })
+    .select('value')
+    .single()
+
+  if (error) {
+    console.error(`Error updating setting "${key}":`, error)
+    throw error
+  }
+
+  return data.value
+}
+
+// Every value the setting has held, newest first
+export async function getSettingHistory(key: SettingKey, limit = 20): Promise<SettingVersion[]> {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('system_setting_versions')
+    .select('*')
+    .eq('key', key)
+    .order('version', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error(`Error fetching history for setting "${key}":`, error)
+    throw error
+  }
+
+  return data || []
+}
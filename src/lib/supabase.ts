@@ -38,12 +38,36 @@ export const createAdminClient = () => {
 export type Database = {
   public: {
     Tables: {
+      territories: {
+        Row: {
+          id: string
+          name: string
+          parent_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          parent_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          parent_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
       resellers: {
         Row: {
           id: string
           name: string
           email: string
           territory: string
+          territory_id: string | null
           tier: 'gold' | 'silver' | 'bronze'
           status: 'active' | 'inactive'
           created_at: string
@@ -54,6 +78,7 @@ export type Database = {
           name: string
           email: string
           territory: string
+          territory_id?: string | null
           tier: 'gold' | 'silver' | 'bronze'
           status?: 'active' | 'inactive'
           created_at?: string
@@ -64,6 +89,7 @@ export type Database = {
           name?: string
           email?: string
           territory?: string
+          territory_id?: string | null
           tier?: 'gold' | 'silver' | 'bronze'
           status?: 'active' | 'inactive'
           created_at?: string
@@ -74,27 +100,33 @@ export type Database = {
         Row: {
           id: string
           company_name: string
+          normalized_company_name: string
           contact_name: string
           contact_email: string
           territory: string
+          territory_id: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           company_name: string
+          normalized_company_name?: string
           contact_name: string
           contact_email: string
           territory: string
+          territory_id?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           company_name?: string
+          normalized_company_name?: string
           contact_name?: string
           contact_email?: string
           territory?: string
+          territory_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -131,10 +163,13 @@ export type Database = {
           reseller_id: string
           end_user_id: string
           assigned_reseller_id: string | null
-          status: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected'
+          status: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected' | 'expired' | 'withdrawn'
           total_value: number
           submission_date: string
           assignment_date: string | null
+          expires_at: string | null
+          resubmission_of: string | null
+          eligibility_flags: { rule_id: string; rule_name: string; rule_type: string; action: 'reject' | 'flag'; reason: string }[]
           created_at: string
           updated_at: string
         }
@@ -143,10 +178,13 @@ export type Database = {
           reseller_id: string
           end_user_id: string
           assigned_reseller_id?: string | null
-          status?: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected'
+          status?: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected' | 'expired' | 'withdrawn'
           total_value: number
           submission_date?: string
           assignment_date?: string | null
+          expires_at?: string | null
+          resubmission_of?: string | null
+          eligibility_flags?: { rule_id: string; rule_name: string; rule_type: string; action: 'reject' | 'flag'; reason: string }[]
           created_at?: string
           updated_at?: string
         }
@@ -155,10 +193,13 @@ export type Database = {
           reseller_id?: string
           end_user_id?: string
           assigned_reseller_id?: string | null
-          status?: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected'
+          status?: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected' | 'expired' | 'withdrawn'
           total_value?: number
           submission_date?: string
           assignment_date?: string | null
+          expires_at?: string | null
+          resubmission_of?: string | null
+          eligibility_flags?: { rule_id: string; rule_name: string; rule_type: string; action: 'reject' | 'flag'; reason: string }[]
           created_at?: string
           updated_at?: string
         }
@@ -194,9 +235,20 @@ export type Database = {
           id: string
           deal_id: string
           competing_deal_id: string
-          conflict_type: 'duplicate_end_user' | 'territory_overlap' | 'timing_conflict'
+          conflict_type: 'duplicate_end_user' | 'territory_overlap' | 'timing_conflict' | 'product_overlap'
+          severity: 'high' | 'medium' | 'low' | null
+          similarity_score: number | null
+          reason: string | null
           resolution_status: 'pending' | 'resolved' | 'dismissed'
+          winning_deal_id: string | null
+          losing_deal_status: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected' | 'expired' | 'withdrawn' | null
+          resolution_reason: 'first_to_register' | 'existing_relationship' | 'territory_ownership' | 'partner_tier' | 'customer_preference' | 'duplicate_submission' | 'other' | null
+          resolution_rationale: string | null
+          resolved_by: string | null
+          resolved_at: string | null
+          auto_resolution_policy: 'first_registration' | 'higher_tier' | 'incumbent_reseller' | null
           assigned_to_staff: string | null
+          updated_by: string | null
           created_at: string
           updated_at: string
         }
@@ -204,9 +256,20 @@ export type Database = {
           id?: string
           deal_id: string
           competing_deal_id: string
-          conflict_type: 'duplicate_end_user' | 'territory_overlap' | 'timing_conflict'
+          conflict_type: 'duplicate_end_user' | 'territory_overlap' | 'timing_conflict' | 'product_overlap'
+          severity?: 'high' | 'medium' | 'low' | null
+          similarity_score?: number | null
+          reason?: string | null
           resolution_status?: 'pending' | 'resolved' | 'dismissed'
+          winning_deal_id?: string | null
+          losing_deal_status?: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected' | 'expired' | 'withdrawn' | null
+          resolution_reason?: 'first_to_register' | 'existing_relationship' | 'territory_ownership' | 'partner_tier' | 'customer_preference' | 'duplicate_submission' | 'other' | null
+          resolution_rationale?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          auto_resolution_policy?: 'first_registration' | 'higher_tier' | 'incumbent_reseller' | null
           assigned_to_staff?: string | null
+          updated_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -214,9 +277,20 @@ export type Database = {
           id?: string
           deal_id?: string
           competing_deal_id?: string
-          conflict_type?: 'duplicate_end_user' | 'territory_overlap' | 'timing_conflict'
+          conflict_type?: 'duplicate_end_user' | 'territory_overlap' | 'timing_conflict' | 'product_overlap'
+          severity?: 'high' | 'medium' | 'low' | null
+          similarity_score?: number | null
+          reason?: string | null
           resolution_status?: 'pending' | 'resolved' | 'dismissed'
+          winning_deal_id?: string | null
+          losing_deal_status?: 'pending' | 'assigned' | 'disputed' | 'approved' | 'rejected' | 'expired' | 'withdrawn' | null
+          resolution_reason?: 'first_to_register' | 'existing_relationship' | 'territory_ownership' | 'partner_tier' | 'customer_preference' | 'duplicate_submission' | 'other' | null
+          resolution_rationale?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          auto_resolution_policy?: 'first_registration' | 'higher_tier' | 'incumbent_reseller' | null
           assigned_to_staff?: string | null
+          updated_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -227,6 +301,7 @@ export type Database = {
           email: string
           name: string
           role: 'admin' | 'manager' | 'staff'
+          last_conflict_assigned_at: string | null
           created_at: string
           updated_at: string
         }
@@ -235,6 +310,7 @@ export type Database = {
           email: string
           name: string
           role?: 'admin' | 'manager' | 'staff'
+          last_conflict_assigned_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -243,6 +319,7 @@ export type Database = {
           email?: string
           name?: string
           role?: 'admin' | 'manager' | 'staff'
+          last_conflict_assigned_at?: string | null
           created_at?: string
           updated_at?: string
         }
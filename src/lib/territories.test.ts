@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { TerritoryHierarchy } from './territories'
+
+const GLOBAL = '00000000-0000-4000-8000-000000000001'
+const NORTH_AMERICA = '00000000-0000-4000-8000-000000000002'
+const NORTHEAST_US = '00000000-0000-4000-8000-000000000003'
+const WEST_COAST = '00000000-0000-4000-8000-000000000004'
+const EMEA = '00000000-0000-4000-8000-000000000005'
+
+const hierarchy = new TerritoryHierarchy([
+  { id: GLOBAL, name: 'Global', parent_id: null },
+  { id: NORTH_AMERICA, name: 'North America', parent_id: GLOBAL },
+  { id: NORTHEAST_US, name: 'Northeast US', parent_id: NORTH_AMERICA },
+  { id: WEST_COAST, name: 'West Coast', parent_id: NORTH_AMERICA },
+  { id: EMEA, name: 'EMEA', parent_id: GLOBAL },
+])
+
+describe('TerritoryHierarchy', () => {
+  it('finds territories by id or by name, ignoring case and spacing', () => {
+    expect(hierarchy.find(NORTHEAST_US)?.name).toBe('Northeast US')
+    expect(hierarchy.find('  northeast us ')?.id).toBe(NORTHEAST_US)
+    expect(hierarchy.find('Atlantis')).toBeNull()
+    expect(hierarchy.find(null)).toBeNull()
+  })
+
+  it('lists the lineage from the territory up to the root', () => {
+    expect(hierarchy.lineage('Northeast US').map(t => t.name)).toEqual(['Northeast US', 'North America', 'Global'])
+  })
+
+  it('stops the lineage at a cycle', () => {
+    const cyclic = new TerritoryHierarchy([
+      { id: GLOBAL, name: 'A', parent_id: NORTH_AMERICA },
+      { id: NORTH_AMERICA, name: 'B', parent_id: GLOBAL },
+    ])
+
+    expect(cyclic.lineage('A').map(t => t.name)).toEqual(['A', 'B'])
+  })
+
+  it.each([
+    ['Global', 'Northeast US', true],
+    ['North America', 'Northeast US', true],
+    ['Northeast US', 'Northeast US', true],
+    ['Northeast US', 'North America', false],
+    ['EMEA', 'Northeast US', false],
+    ['Atlantis', 'Northeast US', false],
+    ['Global', null, false],
+  ] as const)('%s contains %s: %s', (outer, inner, expected) => {
+    expect(hierarchy.contains(outer, inner)).toBe(expected)
+  })
+
+  it('treats overlap as containment in either direction', () => {
+    expect(hierarchy.overlaps('Northeast US', 'Global')).toBe(true)
+    expect(hierarchy.overlaps('Global', 'Northeast US')).toBe(true)
+    expect(hierarchy.overlaps('Northeast US', 'West Coast')).toBe(false)
+    expect(hierarchy.overlaps('West Coast', 'EMEA')).toBe(false)
+  })
+
+  it('flattens the tree depth-first with siblings sorted by name', () => {
+    expect(hierarchy.flatten().map(t => [t.name, t.depth])).toEqual([
+      ['Global', 0],
+      ['EMEA', 1],
+      ['North America', 1],
+      ['Northeast US', 2],
+      ['West Coast', 2],
+    ])
+  })
+})
@@ -0,0 +1,109 @@
+import { createAdminClient } from './supabase'
+import type { Territory } from './types'
+
+export type TerritoryNode = Territory & {
+  id: string
+  depth: number
+  children: TerritoryNode[]
+}
+
+type StoredTerritory = Territory & { id: string }
+
+// In-memory view of the territories table. Two territories overlap when one is the
+// other or one of its ancestors, e.g. Global overlaps Northeast US through North America.
+export class TerritoryHierarchy {
+  private byId = new Map<string, StoredTerritory>()
+  private byName = new Map<string, StoredTerritory>()
+
+  constructor(territories: Territory[]) {
+    for (const territory of territories) {
+      if (!territory.id) continue
+      const stored = territory as StoredTerritory
+      this.byId.set(stored.id, stored)
+      this.byName.set(stored.name.toLowerCase().trim(), stored)
+    }
+  }
+
+  static async load(): Promise<TerritoryHierarchy> {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('territories')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching territories:', error)
+      throw error
+    }
+
+    return new TerritoryHierarchy(data || [])
+  }
+
+  // Accepts a territory id or name
+  find(reference: string | null | undefined): StoredTerritory | null {
+    if (!reference) return null
+    return this.byId.get(reference) || this.byName.get(reference.toLowerCase().trim()) || null
+  }
+
+  // The territory itself followed by its parents up to the root
+  lineage(reference: string | null | undefined): StoredTerritory[] {
+    const lineage: StoredTerritory[] = []
+    let current = this.find(reference)
+
+    // The visited check guards against a cycle slipping into the table
+    while (current && !lineage.includes(current)) {
+      lineage.push(current)
+      current = current.parent_id ? this.byId.get(current.parent_id) || null : null
+    }
+
+    return lineage
+  }
+
+  // True when `inner` is `outer` or lies anywhere beneath it
+  contains(outer: string | null | undefined, inner: string | null | undefined): boolean {
+    const outerTerritory = this.find(outer)
+    return !!outerTerritory && this.lineage(inner).includes(outerTerritory)
+  }
+
+  overlaps(a: string | null | undefined, b: string | null | undefined): boolean {
+    return this.contains(a, b) || this.contains(b, a)
+  }
+
+  tree(): TerritoryNode[] {
+    const nodes = new Map<string, TerritoryNode>()
+    for (const territory of this.byId.values()) {
+      nodes.set(territory.id, { ...territory, depth: 0, children: [] })
+    }
+
+    const roots: TerritoryNode[] = []
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined
+      if (parent) {
+        parent.children.push(node)
+      } else {
+        roots.push(node)
+      }
+    }
+
+    const setDepth = (node: TerritoryNode, depth: number) => {
+      node.depth = depth
+      node.children.sort((a, b) => a.name.localeCompare(b.name))
+      node.children.forEach(child => setDepth(child, depth + 1))
+    }
+    roots.sort((a, b) => a.name.localeCompare(b.name))
+    roots.forEach(root => setDepth(root, 0))
+
+    return roots
+  }
+
+  // Depth-first listing of the tree, handy for indented selects
+  flatten(): TerritoryNode[] {
+    const result: TerritoryNode[] = []
+    const walk = (node: TerritoryNode) => {
+      result.push(node)
+      node.children.forEach(walk)
+    }
+    this.tree().forEach(walk)
+    return result
+  }
+}
@@ -3,17 +3,45 @@ import { z } from 'zod'
 // Enums
 export const ResellerTier = z.enum(['gold', 'silver', 'bronze'])
 export const UserStatus = z.enum(['active', 'inactive'])
-export const DealStatus = z.enum(['pending', 'assigned', 'disputed', 'approved', 'rejected'])
-export const ConflictType = z.enum(['duplicate_end_user', 'territory_overlap', 'timing_conflict'])
+export const DealStatus = z.enum(['pending', 'assigned', 'disputed', 'approved', 'rejected', 'expired', 'withdrawn'])
+export const ConflictType = z.enum(['duplicate_end_user', 'territory_overlap', 'timing_conflict', 'product_overlap'])
+export const ConflictSeverity = z.enum(['high', 'medium', 'low'])
+export const ConflictPriority = z.enum(['high', 'medium', 'low'])
+export const AutoResolutionPolicyType = z.enum(['first_registration', 'higher_tier', 'incumbent_reseller'])
 export const ResolutionStatus = z.enum(['pending', 'resolved', 'dismissed'])
+export const ResolutionReason = z.enum([
+  'first_to_register',
+  'existing_relationship',
+  'territory_ownership',
+  'partner_tier',
+  'customer_preference',
+  'duplicate_submission',
+  'other',
+])
 export const StaffRole = z.enum(['admin', 'manager', 'staff'])
+export const EligibilityRuleType = z.enum(['territory', 'product', 'deal_size', 'partner_tier'])
+export const EligibilityAction = z.enum(['reject', 'flag'])
+export const AuditEntityType = z.enum(['deal', 'conflict', 'reseller', 'end_user', 'product', 'eligibility_rule', 'setting', 'territory', 'conflict_rescan_job', 'staff_user', 'conflict_comment', 'end_user_merge'])
+export const RescanJobStatus = z.enum(['running', 'completed', 'failed'])
+export const ConflictAssignmentStrategy = z.enum(['round_robin', 'least_loaded'])
 
 // Base schemas
+export const TerritorySchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().trim().min(1, 'Territory name is required'),
+  parent_id: z.string().uuid().nullable(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+})
+
+// `territory` holds the territory name; the database resolves it to territory_id and
+// keeps the two in sync
 export const ResellerSchema = z.object({
   id: z.string().uuid().optional(),
   name: z.string().min(1, 'Reseller name is required'),
   email: z.string().email('Valid email is required'),
   territory: z.string().min(1, 'Territory is required'),
+  territory_id: z.string().uuid().nullable().optional(),
   tier: ResellerTier,
   status: UserStatus.default('active'),
   created_at: z.string().optional(),
@@ -26,6 +54,7 @@ export const EndUserSchema = z.object({
   contact_name: z.string().min(1, 'Contact name is required'),
   contact_email: z.string().email('Valid email is required'),
   territory: z.string().min(1, 'Territory is required'),
+  territory_id: z.string().uuid().nullable().optional(),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 })
@@ -48,6 +77,15 @@ export const DealProductSchema = z.object({
   created_at: z.string().optional(),
 })
 
+// An eligibility rule a deal breaks, with the reason shown to the submitter and reviewers
+export const RuleViolationSchema = z.object({
+  rule_id: z.string(),
+  rule_name: z.string(),
+  rule_type: EligibilityRuleType,
+  action: EligibilityAction,
+  reason: z.string(),
+})
+
 export const DealSchema = z.object({
   id: z.string().uuid().optional(),
   reseller_id: z.string().uuid(),
@@ -57,6 +95,9 @@ export const DealSchema = z.object({
   total_value: z.number().positive('Total value must be positive'),
   submission_date: z.string().optional(),
   assignment_date: z.string().nullable().optional(),
+  expires_at: z.string().nullable().optional(),
+  resubmission_of: z.string().uuid().nullable().optional(),
+  eligibility_flags: z.array(RuleViolationSchema).default([]),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 })
@@ -66,17 +107,228 @@ export const DealConflictSchema = z.object({
   deal_id: z.string().uuid(),
   competing_deal_id: z.string().uuid(),
   conflict_type: ConflictType,
+  severity: ConflictSeverity.nullable().optional(),
+  similarity_score: z.number().min(0).max(1).nullable().optional(),
+  reason: z.string().nullable().optional(),
   resolution_status: ResolutionStatus.default('pending'),
+  winning_deal_id: z.string().uuid().nullable().optional(),
+  losing_deal_status: DealStatus.nullable().optional(),
+  resolution_reason: ResolutionReason.nullable().optional(),
+  resolution_rationale: z.string().nullable().optional(),
+  resolved_by: z.string().uuid().nullable().optional(),
+  resolved_at: z.string().nullable().optional(),
+  auto_resolution_policy: AutoResolutionPolicyType.nullable().optional(),
   assigned_to_staff: z.string().uuid().nullable().optional(),
+  updated_by: z.string().uuid().nullable().optional(),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 })
 
+export const ConflictCommentSchema = z.object({
+  id: z.string().uuid().optional(),
+  conflict_id: z.string().uuid(),
+  parent_id: z.string().uuid().nullable().optional(),
+  author_id: z.string().uuid().nullable(),
+  body: z.string(),
+  mentions: z.array(z.string().uuid()).default([]),
+  edited_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+})
+
+export const AssignmentHistorySchema = z.object({
+  id: z.string().uuid().optional(),
+  deal_id: z.string().uuid(),
+  old_reseller_id: z.string().uuid().nullable(),
+  new_reseller_id: z.string().uuid().nullable(),
+  assigned_by: z.string().uuid().nullable(),
+  reason: z.string().nullable(),
+  created_at: z.string().optional(),
+})
+
+export const DealStatusHistorySchema = z.object({
+  id: z.string().uuid().optional(),
+  deal_id: z.string().uuid(),
+  from_status: DealStatus.nullable(),
+  to_status: DealStatus,
+  reason: z.string().nullable(),
+  changed_by: z.string().uuid().nullable().optional(),
+  created_at: z.string().optional(),
+})
+
+export const AuditEventSchema = z.object({
+  id: z.string().uuid().optional(),
+  actor_id: z.string().uuid().nullable(),
+  entity_type: AuditEntityType,
+  entity_id: z.string(),
+  action: z.string(),
+  before: z.record(z.string(), z.unknown()).nullable(),
+  after: z.record(z.string(), z.unknown()).nullable(),
+  changes: z.record(z.string(), z.object({ from: z.unknown(), to: z.unknown() })).nullable(),
+  created_at: z.string().optional(),
+})
+
 export const StaffUserSchema = z.object({
   id: z.string().uuid().optional(),
   email: z.string().email('Valid email is required'),
   name: z.string().min(1, 'Name is required'),
   role: StaffRole.default('staff'),
+  last_conflict_assigned_at: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+})
+
+// Eligibility rule conditions, one shape per rule_type.
+// `action` decides whether a violation blocks the submission or only flags it.
+export const TerritoryRuleConditionsSchema = z.object({
+  // Territory ids, so a rename can't break the rule; 'match_reseller_territory' requires the
+  // end user to sit in the reseller's own territory
+  allowed_territories: z
+    .array(z.union([z.literal('match_reseller_territory'), z.string().uuid('Territories are referenced by id')]))
+    .min(1, 'At least one territory is required'),
+  action: EligibilityAction.default('reject'),
+})
+
+export const ProductRuleConditionsSchema = z.object({
+  blocked_categories: z.array(z.string().min(1)).default([]),
+  blocked_product_ids: z.array(z.string().uuid()).default([]),
+  applies_to_tiers: z.array(ResellerTier).optional(),
+  action: EligibilityAction.default('reject'),
+})
+
+export const DealSizeRuleConditionsSchema = z.object({
+  min_value: z.number().nonnegative().nullable().optional(),
+  max_value: z.number().positive().nullable().optional(),
+  applies_to_tiers: z.array(ResellerTier).optional(),
+  action: EligibilityAction.default('reject'),
+})
+
+export const PartnerTierRuleConditionsSchema = z.object({
+  // Resellers at or above min_tier may register deals up to max_deal_value (null = unlimited)
+  min_tier: ResellerTier,
+  max_deal_value: z.number().positive().nullable(),
+  action: EligibilityAction.default('reject'),
+})
+
+export const EligibilityRuleConditionsSchemas = {
+  territory: TerritoryRuleConditionsSchema,
+  product: ProductRuleConditionsSchema,
+  deal_size: DealSizeRuleConditionsSchema,
+  partner_tier: PartnerTierRuleConditionsSchema,
+} as const
+
+export const EligibilityRuleSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().min(1, 'Rule name is required'),
+  description: z.string().nullable().optional(),
+  rule_type: EligibilityRuleType,
+  conditions: z.record(z.string(), z.unknown()),
+  is_active: z.boolean().default(true),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+})
+
+// System settings, one schema per key. Defaults apply when a key has never been saved.
+export const AuditLoggingSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+})
+
+export const DEFAULT_FREE_EMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'aol.com', 'icloud.com', 'me.com', 'mac.com', 'proton.me', 'protonmail.com',
+  'gmx.com', 'gmx.de', 'mail.com', 'yandex.com', 'zoho.com', 'qq.com', '163.com',
+]
+
+// Similarity values are 0-1 ratios; value_tolerance is the allowed relative difference in deal value.
+// Addresses at free_email_domains never count as a shared corporate domain.
+export const ConflictDetectionSettingsSchema = z.object({
+  company_name_threshold: z.number().min(0).max(1).default(0.85),
+  duplicate_threshold: z.number().min(0).max(1).default(0.95),
+  related_company_threshold: z.number().min(0).max(1).default(0.7),
+  candidate_similarity_threshold: z.number().min(0).max(1).default(0.3),
+  product_overlap_threshold: z.number().min(0).max(1).default(0.5),
+  timing_window_days: z.number().int().positive().default(90),
+  value_tolerance: z.number().min(0).max(1).default(0.2),
+  free_email_domains: z.array(z.string().trim().toLowerCase().min(1)).default(DEFAULT_FREE_EMAIL_DOMAINS),
+}).refine(
+  settings => settings.duplicate_threshold >= settings.company_name_threshold,
+  { message: 'Duplicate threshold must not be lower than the company name threshold', path: ['duplicate_threshold'] }
+)
+
+// Hours a pending conflict of each priority may wait in the queue before it breaches its SLA
+export const ConflictSlaSettingsSchema = z.object({
+  high_hours: z.number().int().positive().default(24),
+  medium_hours: z.number().int().positive().default(72),
+  low_hours: z.number().int().positive().default(168),
+})
+
+// A policy only decides a pair of deals when every pending conflict between them has one of
+// its conflict types and severities. Policies are tried in list order; the first that picks
+// a winner resolves the pair.
+export const AutoResolutionPolicySchema = z.object({
+  policy: AutoResolutionPolicyType,
+  enabled: z.boolean().default(false),
+  conflict_types: z.array(ConflictType).default(['duplicate_end_user', 'territory_overlap', 'timing_conflict', 'product_overlap']),
+  severities: z.array(ConflictSeverity).default(['low', 'medium']),
+})
+
+export const ConflictAutoResolutionSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  losing_deal_status: z.enum(['rejected', 'disputed']).default('disputed'),
+  policies: z.array(AutoResolutionPolicySchema).default(
+    AutoResolutionPolicyType.options.map(policy => AutoResolutionPolicySchema.parse({ policy }))
+  ),
+}).refine(
+  settings => new Set(settings.policies.map(p => p.policy)).size === settings.policies.length,
+  { message: 'Each policy can only be listed once', path: ['policies'] }
+)
+
+// New conflicts are routed to staff who can resolve them. With territory expertise on, only
+// staff covering one of the end users' territories are considered, falling back to everyone.
+export const ConflictAssignmentSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  strategy: ConflictAssignmentStrategy.default('least_loaded'),
+  use_territory_expertise: z.boolean().default(false),
+})
+
+// Days an approved registration protects its reseller. A product category listed in
+// category_days overrides the reseller's tier (the longest applies when a deal spans several);
+// approved deals within expiring_soon_days of their expiry are flagged on the deals list.
+export const DealProtectionSettingsSchema = z.object({
+  tier_days: z.object({
+    gold: z.number().int().positive().default(90),
+    silver: z.number().int().positive().default(60),
+    bronze: z.number().int().positive().default(45),
+  }).default({ gold: 90, silver: 60, bronze: 45 }),
+  category_days: z.record(z.string().min(1), z.number().int().positive()).default({}),
+  expiring_soon_days: z.number().int().positive().default(14),
+})
+
+export const UpdateStaffTerritoriesSchema = z.object({
+  territory_ids: z.array(z.string().uuid()),
+})
+
+export const SettingVersionSchema = z.object({
+  id: z.string().uuid().optional(),
+  key: z.string(),
+  version: z.number().int(),
+  value: z.unknown(),
+  updated_by: z.string().uuid().nullable(),
+  created_at: z.string().optional(),
+})
+
+export const ConflictRescanJobSchema = z.object({
+  id: z.string().uuid().optional(),
+  status: RescanJobStatus.default('running'),
+  total_deals: z.number().int().min(0),
+  processed_deals: z.number().int().min(0),
+  last_deal_id: z.string().uuid().nullable(),
+  new_conflicts: z.number().int().min(0),
+  unchanged_conflicts: z.number().int().min(0),
+  stale_conflicts: z.number().int().min(0),
+  error: z.string().nullable(),
+  started_by: z.string().uuid().nullable(),
+  completed_at: z.string().nullable(),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 })
@@ -96,24 +348,167 @@ export const CreateDealSchema = z.object({
     quantity: z.number().int().positive('Quantity must be positive'),
     price: z.number().positive('Price must be positive'),
   })).min(1, 'At least one product is required'),
+  // An earlier deal from the same reseller that this submission replaces
+  resubmission_of: z.string().uuid().optional(),
+})
+
+const EligibilityRuleFields = {
+  name: z.string().min(1, 'Rule name is required'),
+  description: z.string().nullable().optional(),
+  is_active: z.boolean().default(true),
+}
+
+export const CreateEligibilityRuleSchema = z.discriminatedUnion('rule_type', [
+  z.object({ ...EligibilityRuleFields, rule_type: z.literal('territory'), conditions: TerritoryRuleConditionsSchema }),
+  z.object({ ...EligibilityRuleFields, rule_type: z.literal('product'), conditions: ProductRuleConditionsSchema }),
+  z.object({ ...EligibilityRuleFields, rule_type: z.literal('deal_size'), conditions: DealSizeRuleConditionsSchema }),
+  z.object({ ...EligibilityRuleFields, rule_type: z.literal('partner_tier'), conditions: PartnerTierRuleConditionsSchema }),
+])
+
+// Conditions are validated against the rule's (new or existing) rule_type by the route
+export const UpdateEligibilityRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name is required').optional(),
+  description: z.string().nullable().optional(),
+  is_active: z.boolean().optional(),
+  rule_type: EligibilityRuleType.optional(),
+  conditions: z.record(z.string(), z.unknown()).optional(),
+})
+
+export const UpdateDealProductsSchema = z.object({
+  products: CreateDealSchema.shape.products,
+})
+
+export const CreateTerritorySchema = z.object({
+  name: TerritorySchema.shape.name,
+  parent_id: TerritorySchema.shape.parent_id.default(null),
+})
+
+export const UpdateTerritorySchema = z.object({
+  name: TerritorySchema.shape.name.optional(),
+  parent_id: TerritorySchema.shape.parent_id.optional(),
+})
+
+// Conflict preview payload: a deal that is still being filled in may not have line items yet
+export const CheckConflictsSchema = CreateDealSchema.extend({
+  products: z.array(CreateDealSchema.shape.products.element),
 })
 
+export const DealDecisionSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required'),
+})
+
+// A deal flagged by eligibility rules is only approved once the reviewer has seen the flags
+export const ApproveDealSchema = DealDecisionSchema.extend({
+  acknowledge_flags: z.boolean().default(false),
+})
+
+// The losing deal is either rejected outright or left disputed for a later decision
+export const ResolveConflictSchema = z.object({
+  winning_deal_id: z.string().uuid('Please select the winning deal'),
+  losing_deal_status: z.enum(['rejected', 'disputed']).default('rejected'),
+  reason_code: ResolutionReason,
+  rationale: z.string().trim().min(1, 'A rationale is required'),
+})
+
+export const CreateConflictCommentSchema = z.object({
+  body: z.string().trim().min(1, 'A comment cannot be empty').max(5000, 'Comments are limited to 5000 characters'),
+  parent_id: z.string().uuid().nullable().optional(),
+})
+
+export const UpdateConflictCommentSchema = CreateConflictCommentSchema.pick({ body: true })
+
+export const EndUserMergeSchema = z.object({
+  id: z.string().uuid().optional(),
+  survivor_id: z.string().uuid(),
+  survivor_before: EndUserSchema,
+  merged_end_users: z.array(EndUserSchema),
+  moved_deals: z.array(z.object({ deal_id: z.string().uuid(), end_user_id: z.string().uuid() })),
+  merged_by: z.string().uuid().nullable(),
+  undone_at: z.string().nullable().optional(),
+  undone_by: z.string().uuid().nullable().optional(),
+  created_at: z.string().optional(),
+})
+
+// Field values default to the survivor's own; any may be taken from one of the duplicates
+export const MergeEndUsersSchema = z.object({
+  survivor_id: z.string().uuid('Please select the record to keep'),
+  merged_ids: z.array(z.string().uuid()).min(1, 'Select at least one duplicate to merge'),
+  values: EndUserSchema.pick({
+    company_name: true,
+    contact_name: true,
+    contact_email: true,
+    territory: true,
+  }).partial().default({}),
+}).refine(
+  merge => !merge.merged_ids.includes(merge.survivor_id),
+  { message: 'The record to keep cannot also be merged away', path: ['merged_ids'] }
+)
+
+// Resolving records an outcome, so it goes through POST /api/conflicts/[id]/resolve instead
+export const UpdateConflictSchema = z.object({
+  conflict_id: z.string().uuid('Conflict ID is required'),
+  resolution_status: ResolutionStatus.exclude(['resolved'], {
+    error: 'Use POST /api/conflicts/[id]/resolve to resolve a conflict',
+  }).optional(),
+  assigned_to_staff: z.string().uuid().nullable().optional(),
+})
+
+// Assigning a deal resolves its pending conflicts in its favour, with the same outcome
+// fields a manual resolution records. Competing deals are left disputed for a later decision
+// unless the caller asks for them to be rejected.
 export const AssignDealSchema = z.object({
   deal_id: z.string().uuid(),
   assigned_reseller_id: z.string().uuid(),
   reason: z.string().optional(),
+  losing_deal_status: z.enum(['rejected', 'disputed']).default('disputed'),
+  reason_code: ResolutionReason.default('other'),
 })
 
 // Type exports
+export type Territory = z.infer<typeof TerritorySchema>
+export type CreateTerritory = z.infer<typeof CreateTerritorySchema>
+export type UpdateTerritory = z.infer<typeof UpdateTerritorySchema>
 export type Reseller = z.infer<typeof ResellerSchema>
 export type EndUser = z.infer<typeof EndUserSchema>
 export type Product = z.infer<typeof ProductSchema>
 export type Deal = z.infer<typeof DealSchema>
+export type RuleViolation = z.infer<typeof RuleViolationSchema>
 export type DealProduct = z.infer<typeof DealProductSchema>
 export type DealConflict = z.infer<typeof DealConflictSchema>
 export type StaffUser = z.infer<typeof StaffUserSchema>
 export type CreateDeal = z.infer<typeof CreateDealSchema>
 export type AssignDeal = z.infer<typeof AssignDealSchema>
+export type UpdateConflict = z.infer<typeof UpdateConflictSchema>
+export type EndUserMerge = z.infer<typeof EndUserMergeSchema>
+export type MergeEndUsers = z.infer<typeof MergeEndUsersSchema>
+export type ResolveConflict = z.infer<typeof ResolveConflictSchema>
+export type UpdateDealProducts = z.infer<typeof UpdateDealProductsSchema>
+export type ConflictComment = z.infer<typeof ConflictCommentSchema>
+export type CreateConflictComment = z.infer<typeof CreateConflictCommentSchema>
+export type UpdateConflictComment = z.infer<typeof UpdateConflictCommentSchema>
+export type AssignmentHistory = z.infer<typeof AssignmentHistorySchema>
+export type DealStatusHistory = z.infer<typeof DealStatusHistorySchema>
+export type AuditEvent = z.infer<typeof AuditEventSchema>
+export type AuditLoggingSettings = z.infer<typeof AuditLoggingSettingsSchema>
+export type ConflictDetectionSettings = z.infer<typeof ConflictDetectionSettingsSchema>
+export type ConflictSlaSettings = z.infer<typeof ConflictSlaSettingsSchema>
+export type AutoResolutionPolicy = z.infer<typeof AutoResolutionPolicySchema>
+export type ConflictAutoResolutionSettings = z.infer<typeof ConflictAutoResolutionSettingsSchema>
+export type ConflictAssignmentSettings = z.infer<typeof ConflictAssignmentSettingsSchema>
+export type DealProtectionSettings = z.infer<typeof DealProtectionSettingsSchema>
+export type UpdateStaffTerritories = z.infer<typeof UpdateStaffTerritoriesSchema>
+export type SettingVersion = z.infer<typeof SettingVersionSchema>
+export type ConflictRescanJob = z.infer<typeof ConflictRescanJobSchema>
+export type CheckConflicts = z.infer<typeof CheckConflictsSchema>
+export type DealDecision = z.infer<typeof DealDecisionSchema>
+export type ApproveDeal = z.infer<typeof ApproveDealSchema>
+export type EligibilityRule = z.infer<typeof EligibilityRuleSchema>
+export type CreateEligibilityRule = z.infer<typeof CreateEligibilityRuleSchema>
+export type UpdateEligibilityRule = z.infer<typeof UpdateEligibilityRuleSchema>
+export type TerritoryRuleConditions = z.infer<typeof TerritoryRuleConditionsSchema>
+export type ProductRuleConditions = z.infer<typeof ProductRuleConditionsSchema>
+export type DealSizeRuleConditions = z.infer<typeof DealSizeRuleConditionsSchema>
+export type PartnerTierRuleConditions = z.infer<typeof PartnerTierRuleConditionsSchema>
 
 // Extended types with relationships
 export type DealWithRelations = Deal & {
@@ -124,6 +519,16 @@ export type DealWithRelations = Deal & {
   conflicts: (DealConflict & { competing_deal: Deal })[]
 }
 
+export type DealDetail = Omit<DealWithRelations, 'conflicts'> & {
+  conflicts: (DealConflict & { competing_deal: Deal & { reseller: Reseller; end_user: EndUser } })[]
+  assignment_history: (AssignmentHistory & {
+    old_reseller?: Reseller | null
+    new_reseller?: Reseller | null
+    assigned_by_staff?: StaffUser | null
+  })[]
+  status_history: (DealStatusHistory & { changed_by_staff?: StaffUser | null })[]
+}
+
 export type ConflictWithRelations = DealConflict & {
   deal: DealWithRelations
   competing_deal: DealWithRelations
@@ -155,6 +560,19 @@ export type DealFilters = {
   has_conflicts?: boolean
 }
 
+export type AuditEventWithActor = AuditEvent & {
+  actor?: StaffUser | null
+}
+
+export type AuditFilters = {
+  entity_type?: string
+  entity_id?: string
+  actor_id?: string
+  action?: string
+  date_from?: string
+  date_to?: string
+}
+
 export type ConflictFilters = {
   resolution_status?: string[]
   conflict_type?: string[]
@@ -31,6 +31,14 @@ export function formatDateTime(date: string | Date): string {
   }).format(new Date(date))
 }
 
+// Whole hours as e.g. "2d 5h"
+export function formatDuration(hours: number): string {
+  const days = Math.floor(Math.abs(hours) / 24)
+  const remainder = Math.abs(hours) % 24
+  if (days === 0) return `${remainder}h`
+  return remainder === 0 ? `${days}d` : `${days}d ${remainder}h`
+}
+
 
 
 // String utilities
@@ -85,37 +93,51 @@ function levenshteinDistance(str1: string, str2: string): number {
   return matrix[str2.length][str1.length]
 }
 
-// Company name normalization for better matching
-export function normalizeCompanyName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\b(inc|corp|corporation|ltd|limited|llc|co)\b\.?/g, '')
-    .replace(/[^\w\s]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim()
-}
-
-// Territory overlap detection
-export function checkTerritoryOverlap(territory1: string, territory2: string): boolean {
-  const t1 = territory1.toLowerCase().trim()
-  const t2 = territory2.toLowerCase().trim()
-  
-  // Exact match
-  if (t1 === t2) return true
-  
-  // Check for common territory patterns
-  const patterns = [
-    /^(north|south|east|west)\s*(america|us|usa|united states)$/,
-    /^(northeast|northwest|southeast|southwest)\s*(region|territory)?$/,
-    /^(global|worldwide|international)$/,
-    /^(enterprise|commercial|federal)$/,
-  ]
-  
-  for (const pattern of patterns) {
-    if (pattern.test(t1) && pattern.test(t2)) return true
+// Second-level labels that sit under a country code, e.g. acme.co.uk
+const COUNTRY_SECOND_LEVEL_LABELS = ['co', 'com', 'net', 'org', 'ac', 'gov', 'edu']
+
+// Registrable domain of an email address (mail.acme.co.uk -> acme.co.uk),
+// or null when the address has no domain or uses a free-mail provider
+export function getCorporateEmailDomain(email: string, freeEmailDomains: string[] = []): string | null {
+  const domain = email.toLowerCase().trim().split('@')[1]
+  if (!domain || !domain.includes('.')) return null
+
+  const labels = domain.split('.')
+  const keep = labels.length > 2 &&
+    labels[labels.length - 1].length === 2 &&
+    COUNTRY_SECOND_LEVEL_LABELS.includes(labels[labels.length - 2])
+    ? 3
+    : 2
+  const corporateDomain = labels.slice(-keep).join('.')
+
+  const free = freeEmailDomains.map(d => d.toLowerCase().trim())
+  if (free.includes(domain) || free.includes(corporateDomain)) return null
+
+  return corporateDomain
+}
+
+// Quantity-weighted Jaccard overlap of two sets of line items (0 = nothing shared, 1 = identical).
+// Quantities of repeated product ids are summed first.
+export function calculateProductOverlap(
+  products1: { product_id: string; quantity: number }[],
+  products2: { product_id: string; quantity: number }[]
+): number {
+  const totals = (products: { product_id: string; quantity: number }[]) =>
+    products.reduce((map, p) => map.set(p.product_id, (map.get(p.product_id) || 0) + p.quantity), new Map<string, number>())
+
+  const q1 = totals(products1)
+  const q2 = totals(products2)
+  let intersection = 0
+  let union = 0
+
+  for (const productId of new Set([...q1.keys(), ...q2.keys()])) {
+    const a = q1.get(productId) || 0
+    const b = q2.get(productId) || 0
+    intersection += Math.min(a, b)
+    union += Math.max(a, b)
   }
-  
-  return false
+
+  return union === 0 ? 0 : intersection / union
 }
 
 // Deal value comparison with tolerance
@@ -217,7 +239,7 @@ export function calculateConflictPriority(
   else score += 1
   
   // Conflict type weight
-  if (conflictType === 'duplicate_end_user') score += 3
+  if (conflictType === 'duplicate_end_user' || conflictType === 'product_overlap') score += 3
   else if (conflictType === 'territory_overlap') score += 2
   else score += 1
   
@@ -0,0 +1,32 @@
+-- Deal status history
+-- Records every lifecycle transition of a deal, and the staff member behind each
+-- conflict change. The deal submission functions in the next migration write to it.
+
+BEGIN;
+
+-- Deal Status History table (audit trail of lifecycle transitions)
+CREATE TABLE deal_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    from_status deal_status,
+    to_status deal_status NOT NULL,
+    reason TEXT,
+    changed_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE deal_conflicts
+    ADD COLUMN updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_deal_status_history_deal_id ON deal_status_history(deal_id);
+
+ALTER TABLE deal_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Deal status history policies (read-only for audit)
+CREATE POLICY "Staff can view deal status history" ON deal_status_history
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff can create deal status history" ON deal_status_history
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+COMMIT;
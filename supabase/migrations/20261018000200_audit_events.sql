@@ -0,0 +1,32 @@
+-- Audit log
+-- Every mutating action is recorded with before/after snapshots.
+
+BEGIN;
+
+-- Audit Events table (every mutating action, with before/after snapshots)
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    entity_type TEXT NOT NULL, -- 'deal', 'conflict', 'reseller', 'end_user', 'product', 'eligibility_rule', 'setting'
+    entity_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    before JSONB,
+    after JSONB,
+    changes JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX idx_audit_events_actor_id ON audit_events(actor_id);
+CREATE INDEX idx_audit_events_created_at ON audit_events(created_at);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Audit events policies (append-only)
+CREATE POLICY "Staff can view audit events" ON audit_events
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff can create audit events" ON audit_events
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+COMMIT;
@@ -0,0 +1,78 @@
+-- Versioned system settings
+-- Runtime configuration stored as one JSON value per key. Every value a setting has held is
+-- kept in system_setting_versions. Seeds the audit logging and conflict detection defaults.
+
+BEGIN;
+
+-- System Settings table (runtime configuration, one JSON value per key)
+CREATE TABLE system_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- System Setting Versions table (every value a setting has held)
+CREATE TABLE system_setting_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    key TEXT REFERENCES system_settings(key) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    value JSONB NOT NULL,
+    updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(key, version)
+);
+
+CREATE INDEX idx_system_setting_versions_key ON system_setting_versions(key);
+
+CREATE TRIGGER update_system_settings_updated_at BEFORE UPDATE ON system_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Settings are versioned: each update bumps the version and keeps a copy of the new value
+CREATE OR REPLACE FUNCTION version_system_setting()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        NEW.version = OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_system_setting_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO system_setting_versions (key, version, value, updated_by)
+    VALUES (NEW.key, NEW.version, NEW.value, NEW.updated_by);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER version_system_settings BEFORE UPDATE ON system_settings FOR EACH ROW EXECUTE FUNCTION version_system_setting();
+CREATE TRIGGER record_system_settings_version AFTER INSERT OR UPDATE ON system_settings FOR EACH ROW EXECUTE FUNCTION record_system_setting_version();
+
+ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE system_setting_versions ENABLE ROW LEVEL SECURITY;
+
+-- System settings policies (admin only)
+CREATE POLICY "Staff can view system settings" ON system_settings
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage system settings" ON system_settings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM staff_users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Staff can view system setting versions" ON system_setting_versions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+INSERT INTO system_settings (key, value) VALUES
+    ('audit_logging', '{"enabled": true}'),
+    ('conflict_detection', '{"company_name_threshold": 0.85, "duplicate_threshold": 0.95, "related_company_threshold": 0.7, "candidate_similarity_threshold": 0.3, "product_overlap_threshold": 0.5, "timing_window_days": 90, "value_tolerance": 0.2, "free_email_domains": ["gmail.com", "googlemail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com", "msn.com", "aol.com", "icloud.com", "me.com", "mac.com", "proton.me", "protonmail.com", "gmx.com", "gmx.de", "mail.com", "yandex.com", "zoho.com", "qq.com", "163.com"]}')
+ON CONFLICT (key) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- Conflict candidate search
+-- Replaces detect_deal_conflicts with a trigram candidate search over the full deal history;
+-- detailed scoring happens in the application. Contacts on the same corporate email domain
+-- are candidates whatever their company name.
+
+BEGIN;
+
+DROP FUNCTION IF EXISTS detect_deal_conflicts(UUID);
+
+CREATE INDEX idx_end_users_email_domain ON end_users(lower(split_part(contact_email, '@', 2)));
+
+-- Candidate deals for conflict detection: every non-rejected deal whose end user name
+-- is trigram-similar to the submitted one, across the full history. The % operator lets
+-- the GIN trigram index on end_users.company_name do the filtering; detailed scoring
+-- happens in the application. Deals whose contact shares p_email_domain (a corporate
+-- domain, or a subdomain of it) are candidates whatever their name.
+-- p_exclude_deal_id keeps a stored deal from matching itself.
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    p_company_name TEXT,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 500,
+    p_exclude_deal_id UUID DEFAULT NULL,
+    p_email_domain TEXT DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, true);
+
+    RETURN QUERY
+    SELECT d.*
+    FROM deals d
+    JOIN end_users eu ON d.end_user_id = eu.id
+    WHERE (
+        eu.company_name % p_company_name
+        OR lower(split_part(eu.contact_email, '@', 2)) = p_email_domain
+        OR lower(split_part(eu.contact_email, '@', 2)) LIKE '%.' || p_email_domain
+    )
+    AND d.status <> 'rejected'
+    AND (p_exclude_deal_id IS NULL OR d.id <> p_exclude_deal_id)
+    ORDER BY similarity(eu.company_name, p_company_name) DESC, d.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
@@ -0,0 +1,5 @@
+-- Product overlap conflicts
+-- Deals for the same customer that share line items are reported as product_overlap.
+-- ADD VALUE runs outside a transaction block so later migrations can use the new value.
+
+ALTER TYPE conflict_type ADD VALUE IF NOT EXISTS 'product_overlap';
@@ -0,0 +1,142 @@
+-- Territory hierarchy
+-- Replaces free-text territories on resellers and end users with references into a
+-- territories tree. Every existing territory string is mapped onto a territory: known
+-- names land in the seeded Global > North America tree, anything else is created
+-- beneath Global so an admin can move it to the right place in the tree editor.
+
+BEGIN;
+
+CREATE TABLE territories (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    parent_id UUID REFERENCES territories(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_territories_name ON territories(lower(name));
+CREATE INDEX idx_territories_parent_id ON territories(parent_id);
+
+CREATE TRIGGER update_territories_updated_at BEFORE UPDATE ON territories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A territory can't be moved beneath itself or one of its descendants
+CREATE OR REPLACE FUNCTION prevent_territory_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL AND EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM territories WHERE id = NEW.parent_id
+            UNION
+            SELECT t.id, t.parent_id FROM territories t JOIN ancestors a ON t.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'Territory "%" cannot be placed beneath itself', NEW.name
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_territories_cycle BEFORE INSERT OR UPDATE OF parent_id ON territories FOR EACH ROW EXECUTE FUNCTION prevent_territory_cycle();
+
+-- Base hierarchy
+INSERT INTO territories (name) VALUES ('Global');
+
+INSERT INTO territories (name, parent_id)
+SELECT child.name, parent.id
+FROM territories parent
+CROSS JOIN (VALUES ('North America'), ('International')) AS child(name)
+WHERE parent.name = 'Global';
+
+INSERT INTO territories (name, parent_id)
+SELECT child.name, parent.id
+FROM territories parent
+CROSS JOIN (VALUES ('Northeast US'), ('Southeast US'), ('Midwest US'), ('West Coast')) AS child(name)
+WHERE parent.name = 'North America';
+
+-- Territory strings in use that the base hierarchy doesn't cover
+INSERT INTO territories (name, parent_id)
+SELECT DISTINCT ON (lower(used.name)) used.name, (SELECT id FROM territories WHERE name = 'Global')
+FROM (
+    SELECT trim(territory) AS name FROM resellers
+    UNION ALL
+    SELECT trim(territory) AS name FROM end_users
+) AS used
+WHERE used.name <> ''
+AND NOT EXISTS (SELECT 1 FROM territories t WHERE lower(t.name) = lower(used.name))
+ORDER BY lower(used.name), used.name;
+
+-- Point resellers and end users at their territory
+ALTER TABLE resellers ADD COLUMN territory_id UUID REFERENCES territories(id) ON DELETE RESTRICT;
+ALTER TABLE end_users ADD COLUMN territory_id UUID REFERENCES territories(id) ON DELETE RESTRICT;
+
+UPDATE resellers r
+SET territory_id = t.id, territory = t.name
+FROM territories t
+WHERE lower(t.name) = lower(trim(r.territory));
+
+UPDATE end_users eu
+SET territory_id = t.id, territory = t.name
+FROM territories t
+WHERE lower(t.name) = lower(trim(eu.territory));
+
+CREATE INDEX idx_resellers_territory_id ON resellers(territory_id);
+CREATE INDEX idx_end_users_territory_id ON end_users(territory_id);
+
+-- Resellers and end users reference a territory and carry its name in the territory column.
+-- Writes may set either: an id fills in the name, a name is resolved to its territory.
+CREATE OR REPLACE FUNCTION sync_territory_reference()
+RETURNS TRIGGER AS $$
+DECLARE
+    resolved territories%ROWTYPE;
+BEGIN
+    IF NEW.territory_id IS NOT NULL
+       AND (TG_OP = 'INSERT' OR NEW.territory_id IS DISTINCT FROM OLD.territory_id) THEN
+        SELECT * INTO resolved FROM territories WHERE id = NEW.territory_id;
+    ELSE
+        SELECT * INTO resolved FROM territories WHERE lower(name) = lower(trim(NEW.territory));
+    END IF;
+
+    IF resolved.id IS NULL THEN
+        RAISE EXCEPTION 'Unknown territory: %', COALESCE(NEW.territory_id::TEXT, NEW.territory)
+            USING ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    NEW.territory_id = resolved.id;
+    NEW.territory = resolved.name;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_resellers_territory BEFORE INSERT OR UPDATE ON resellers FOR EACH ROW EXECUTE FUNCTION sync_territory_reference();
+CREATE TRIGGER sync_end_users_territory BEFORE INSERT OR UPDATE ON end_users FOR EACH ROW EXECUTE FUNCTION sync_territory_reference();
+
+-- Renaming a territory renames it on every reseller and end user that references it
+CREATE OR REPLACE FUNCTION propagate_territory_rename()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE resellers SET territory = NEW.name WHERE territory_id = NEW.id;
+    UPDATE end_users SET territory = NEW.name WHERE territory_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER propagate_territories_rename AFTER UPDATE OF name ON territories FOR EACH ROW
+    WHEN (OLD.name IS DISTINCT FROM NEW.name) EXECUTE FUNCTION propagate_territory_rename();
+
+-- Territories policies (staff can view, admins manage the hierarchy)
+ALTER TABLE territories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view territories" ON territories
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage territories" ON territories
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM staff_users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+COMMIT;
@@ -0,0 +1,110 @@
+-- Conflict scoring
+-- Stores the severity, similarity score and reason the detection engine assigns to each
+-- conflict so reviewers can triage the queue without re-running detection. Rows recorded
+-- before this migration keep NULL values and are shown as unscored.
+
+BEGIN;
+
+CREATE TYPE conflict_severity AS ENUM ('low', 'medium', 'high'); -- declared in ascending order so it sorts by severity
+
+ALTER TABLE deal_conflicts ADD COLUMN severity conflict_severity;
+ALTER TABLE deal_conflicts ADD COLUMN similarity_score DECIMAL(5,4);
+ALTER TABLE deal_conflicts ADD COLUMN reason TEXT;
+
+CREATE INDEX idx_deal_conflicts_severity ON deal_conflicts(severity);
+
+-- Atomic deal submission: end user upsert, deal, line items and conflict rows
+-- are written in a single transaction so a failure never leaves partial data behind
+CREATE OR REPLACE FUNCTION create_deal_submission(
+    p_reseller_id UUID,
+    p_end_user JSONB,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_end_user_id UUID;
+    v_deal_id UUID;
+BEGIN
+    INSERT INTO end_users (id, company_name, contact_name, contact_email, territory)
+    VALUES (
+        COALESCE((p_end_user->>'id')::UUID, uuid_generate_v4()),
+        p_end_user->>'company_name',
+        p_end_user->>'contact_name',
+        p_end_user->>'contact_email',
+        p_end_user->>'territory'
+    )
+    ON CONFLICT (id) DO UPDATE SET
+        company_name = EXCLUDED.company_name,
+        contact_name = EXCLUDED.contact_name,
+        contact_email = EXCLUDED.contact_email,
+        territory = EXCLUDED.territory
+    RETURNING id INTO v_end_user_id;
+
+    INSERT INTO deals (reseller_id, end_user_id, total_value, status)
+    SELECT p_reseller_id, v_end_user_id, SUM(p.quantity * p.price), p_status
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL)
+    RETURNING id INTO v_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT v_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT v_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (v_deal_id, NULL, p_status, 'Deal submitted', p_changed_by);
+
+    RETURN v_deal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomic line item edit: replaces the deal's products and its pending conflicts.
+-- Pairs that were already resolved or dismissed are not re-opened.
+CREATE OR REPLACE FUNCTION replace_deal_products(
+    p_deal_id UUID,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM deal_products WHERE deal_id = p_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT p_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    DELETE FROM deal_conflicts
+    WHERE deal_id = p_deal_id AND resolution_status = 'pending';
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT p_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE c.competing_deal_id <> p_deal_id
+    AND NOT EXISTS (
+        SELECT 1 FROM deal_conflicts dc
+        WHERE dc.deal_id = p_deal_id
+        AND dc.competing_deal_id = c.competing_deal_id
+        AND dc.conflict_type = c.conflict_type
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    SELECT id, status, p_status, 'Line items edited', p_changed_by
+    FROM deals
+    WHERE id = p_deal_id AND status IS DISTINCT FROM p_status;
+
+    UPDATE deals SET status = p_status WHERE id = p_deal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
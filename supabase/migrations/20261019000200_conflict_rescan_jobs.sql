@@ -0,0 +1,45 @@
+-- Conflict rescan jobs
+-- Tracks admin-triggered re-scans of open deals. A job walks the deals in id order, one
+-- batch per API call, and keeps running totals of new, unchanged and stale conflicts.
+
+BEGIN;
+
+CREATE TYPE rescan_job_status AS ENUM ('running', 'completed', 'failed');
+
+CREATE TABLE conflict_rescan_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    status rescan_job_status DEFAULT 'running',
+    total_deals INTEGER NOT NULL DEFAULT 0,
+    processed_deals INTEGER NOT NULL DEFAULT 0,
+    last_deal_id UUID, -- deals are walked in id order; the last one scanned
+    new_conflicts INTEGER NOT NULL DEFAULT 0,
+    unchanged_conflicts INTEGER NOT NULL DEFAULT 0,
+    stale_conflicts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one rescan job can run at a time
+CREATE UNIQUE INDEX idx_conflict_rescan_jobs_running ON conflict_rescan_jobs((status)) WHERE status = 'running';
+CREATE INDEX idx_conflict_rescan_jobs_created_at ON conflict_rescan_jobs(created_at);
+
+CREATE TRIGGER update_conflict_rescan_jobs_updated_at BEFORE UPDATE ON conflict_rescan_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Conflict rescan jobs policies (admin only)
+ALTER TABLE conflict_rescan_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view conflict rescan jobs" ON conflict_rescan_jobs
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage conflict rescan jobs" ON conflict_rescan_jobs
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM staff_users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+COMMIT;
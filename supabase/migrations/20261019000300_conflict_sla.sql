@@ -0,0 +1,6 @@
+-- Conflict SLA targets
+-- Hours a pending conflict of each priority may wait in the triage queue.
+
+INSERT INTO system_settings (key, value) VALUES
+    ('conflict_sla', '{"high_hours": 24, "medium_hours": 72, "low_hours": 168}')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,20 @@
+-- Conflict resolution outcomes
+-- Records which deal won a resolved conflict, the status the losing deal was moved to,
+-- a reason code and free-text rationale. Conflicts resolved before this migration keep
+-- NULL outcome columns.
+
+BEGIN;
+
+CREATE TYPE resolution_reason AS ENUM ('first_to_register', 'existing_relationship', 'territory_ownership', 'partner_tier', 'customer_preference', 'duplicate_submission', 'other');
+
+ALTER TABLE deal_conflicts ADD COLUMN winning_deal_id UUID REFERENCES deals(id) ON DELETE SET NULL;
+ALTER TABLE deal_conflicts ADD COLUMN losing_deal_status deal_status;
+ALTER TABLE deal_conflicts ADD COLUMN resolution_reason resolution_reason;
+ALTER TABLE deal_conflicts ADD COLUMN resolution_rationale TEXT;
+ALTER TABLE deal_conflicts ADD COLUMN resolved_by UUID REFERENCES staff_users(id) ON DELETE SET NULL;
+ALTER TABLE deal_conflicts ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE deal_conflicts ADD CONSTRAINT deal_conflicts_winning_deal_check
+    CHECK (winning_deal_id IS NULL OR winning_deal_id IN (deal_id, competing_deal_id));
+
+COMMIT;
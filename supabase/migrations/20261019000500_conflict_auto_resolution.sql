@@ -0,0 +1,12 @@
+-- Automatic conflict tie-break policies
+-- Records which policy decided an automatically resolved conflict and seeds the
+-- (disabled) policy settings.
+
+CREATE TYPE auto_resolution_policy AS ENUM ('first_registration', 'higher_tier', 'incumbent_reseller');
+
+ALTER TABLE deal_conflicts
+    ADD COLUMN auto_resolution_policy auto_resolution_policy;
+
+INSERT INTO system_settings (key, value) VALUES
+    ('conflict_auto_resolution', '{"enabled": false, "losing_deal_status": "disputed", "policies": [{"policy": "first_registration", "enabled": false, "conflict_types": ["duplicate_end_user", "territory_overlap", "timing_conflict", "product_overlap"], "severities": ["low", "medium"]}, {"policy": "higher_tier", "enabled": false, "conflict_types": ["duplicate_end_user", "territory_overlap", "timing_conflict", "product_overlap"], "severities": ["low", "medium"]}, {"policy": "incumbent_reseller", "enabled": false, "conflict_types": ["duplicate_end_user", "territory_overlap", "timing_conflict", "product_overlap"], "severities": ["low", "medium"]}]}')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,32 @@
+-- Conflict assignment to staff
+-- Adds the round-robin cursor, staff territory expertise and the (disabled) assignment settings.
+
+ALTER TABLE staff_users
+    ADD COLUMN last_conflict_assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE staff_territories (
+    staff_id UUID NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE,
+    territory_id UUID NOT NULL REFERENCES territories(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (staff_id, territory_id)
+);
+
+CREATE INDEX idx_staff_territories_territory_id ON staff_territories(territory_id);
+CREATE INDEX idx_deal_conflicts_assigned_to_staff ON deal_conflicts(assigned_to_staff);
+
+ALTER TABLE staff_territories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view staff territories" ON staff_territories
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage staff territories" ON staff_territories
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM staff_users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+INSERT INTO system_settings (key, value) VALUES
+    ('conflict_assignment', '{"enabled": false, "strategy": "least_loaded", "use_territory_expertise": false}')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,101 @@
+-- Conflict discussion threads
+-- Internal notes on a conflict with @mentions of staff; they stay with the conflict after it is
+-- resolved. Line item edits no longer delete pending conflicts that are still detected.
+
+CREATE TABLE conflict_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conflict_id UUID NOT NULL REFERENCES deal_conflicts(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES conflict_comments(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    mentions UUID[] NOT NULL DEFAULT '{}',
+    edited_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (parent_id IS NULL OR parent_id != id)
+);
+
+CREATE INDEX idx_conflict_comments_conflict_id ON conflict_comments(conflict_id, created_at);
+CREATE INDEX idx_conflict_comments_mentions ON conflict_comments USING gin(mentions);
+
+CREATE TRIGGER update_conflict_comments_updated_at BEFORE UPDATE ON conflict_comments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE conflict_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view conflict comments" ON conflict_comments
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff can create conflict comments" ON conflict_comments
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authors can edit their conflict comments" ON conflict_comments
+    FOR UPDATE USING (author_id = auth.uid());
+
+-- Atomic line item edit: replaces the deal's products and its pending conflicts.
+-- Pairs that were already resolved or dismissed are not re-opened. Pending conflicts
+-- that are still detected keep their row, and with it their notes and assignee; a
+-- cleared conflict that staff have written notes on is dismissed instead of deleted.
+CREATE OR REPLACE FUNCTION replace_deal_products(
+    p_deal_id UUID,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM deal_products WHERE deal_id = p_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT p_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    UPDATE deal_conflicts dc
+    SET severity = c.severity, similarity_score = c.similarity_score, reason = c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND dc.competing_deal_id = c.competing_deal_id
+    AND dc.conflict_type = c.conflict_type;
+
+    UPDATE deal_conflicts dc
+    SET resolution_status = 'dismissed', updated_by = p_changed_by
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND EXISTS (SELECT 1 FROM conflict_comments cc WHERE cc.conflict_id = dc.id)
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    DELETE FROM deal_conflicts dc
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT p_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE c.competing_deal_id <> p_deal_id
+    AND NOT EXISTS (
+        SELECT 1 FROM deal_conflicts dc
+        WHERE dc.deal_id = p_deal_id
+        AND dc.competing_deal_id = c.competing_deal_id
+        AND dc.conflict_type = c.conflict_type
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    SELECT id, status, p_status, 'Line items edited', p_changed_by
+    FROM deals
+    WHERE id = p_deal_id AND status IS DISTINCT FROM p_status;
+
+    UPDATE deals SET status = p_status WHERE id = p_deal_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,135 @@
+-- End user merge and deduplication
+-- Records merges of duplicate end users with enough of a snapshot to undo them.
+
+CREATE TABLE end_user_merges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    survivor_id UUID NOT NULL REFERENCES end_users(id) ON DELETE RESTRICT,
+    survivor_before JSONB NOT NULL, -- survivor row before merged field values were applied
+    merged_end_users JSONB NOT NULL, -- rows of the absorbed end users, deleted by the merge
+    moved_deals JSONB NOT NULL DEFAULT '[]', -- [{deal_id, end_user_id}] re-pointed to the survivor
+    merged_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    undone_at TIMESTAMP WITH TIME ZONE,
+    undone_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_end_user_merges_survivor_id ON end_user_merges(survivor_id);
+CREATE INDEX idx_end_user_merges_created_at ON end_user_merges(created_at);
+
+ALTER TABLE end_user_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view end user merges" ON end_user_merges
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers and admins can manage end user merges" ON end_user_merges
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM staff_users
+            WHERE id = auth.uid() AND role IN ('admin', 'manager')
+        )
+    );
+
+-- Folds duplicate end users into a survivor: their deals are re-pointed, the survivor takes
+-- any field values chosen from the duplicates, and the duplicates are deleted. Everything
+-- the merge changes is snapshotted in end_user_merges so undo_end_user_merge can reverse it.
+CREATE OR REPLACE FUNCTION merge_end_users(
+    p_survivor_id UUID,
+    p_merged_ids UUID[],
+    p_values JSONB DEFAULT '{}'::JSONB,
+    p_merged_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_survivor end_users%ROWTYPE;
+    v_merge_id UUID;
+BEGIN
+    SELECT * INTO v_survivor FROM end_users WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Surviving end user not found';
+    END IF;
+
+    IF p_survivor_id = ANY(p_merged_ids) THEN
+        RAISE EXCEPTION 'An end user cannot be merged into itself';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM end_users WHERE id = ANY(p_merged_ids)) <> cardinality(p_merged_ids) THEN
+        RAISE EXCEPTION 'One or more end users to merge no longer exist';
+    END IF;
+
+    INSERT INTO end_user_merges (survivor_id, survivor_before, merged_end_users, moved_deals, merged_by)
+    VALUES (
+        p_survivor_id,
+        to_jsonb(v_survivor),
+        (SELECT jsonb_agg(to_jsonb(eu)) FROM end_users eu WHERE eu.id = ANY(p_merged_ids)),
+        (SELECT COALESCE(jsonb_agg(jsonb_build_object('deal_id', d.id, 'end_user_id', d.end_user_id)), '[]'::JSONB)
+         FROM deals d WHERE d.end_user_id = ANY(p_merged_ids)),
+        p_merged_by
+    )
+    RETURNING id INTO v_merge_id;
+
+    UPDATE deals SET end_user_id = p_survivor_id WHERE end_user_id = ANY(p_merged_ids);
+
+    UPDATE end_users SET
+        company_name = COALESCE(p_values->>'company_name', company_name),
+        contact_name = COALESCE(p_values->>'contact_name', contact_name),
+        contact_email = COALESCE(p_values->>'contact_email', contact_email),
+        territory = COALESCE(p_values->>'territory', territory)
+    WHERE id = p_survivor_id;
+
+    DELETE FROM end_users WHERE id = ANY(p_merged_ids);
+
+    RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reverses a merge: the absorbed end users come back with their original ids, their deals
+-- are pointed back at them and the survivor's fields are restored. Only a survivor's latest
+-- merge can be undone, and only while the survivor still exists.
+CREATE OR REPLACE FUNCTION undo_end_user_merge(
+    p_merge_id UUID,
+    p_undone_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_merge end_user_merges%ROWTYPE;
+BEGIN
+    SELECT * INTO v_merge FROM end_user_merges WHERE id = p_merge_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Merge not found';
+    END IF;
+
+    IF v_merge.undone_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This merge has already been undone';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM end_users WHERE id = v_merge.survivor_id) THEN
+        RAISE EXCEPTION 'The surviving end user has since been merged away; undo that merge first';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM end_user_merges
+        WHERE survivor_id = v_merge.survivor_id
+        AND undone_at IS NULL
+        AND created_at > v_merge.created_at
+    ) THEN
+        RAISE EXCEPTION 'A later merge into the same end user must be undone first';
+    END IF;
+
+    INSERT INTO end_users
+    SELECT * FROM jsonb_populate_recordset(NULL::end_users, v_merge.merged_end_users);
+
+    UPDATE deals d SET end_user_id = m.end_user_id
+    FROM jsonb_to_recordset(v_merge.moved_deals) AS m(deal_id UUID, end_user_id UUID)
+    WHERE d.id = m.deal_id AND d.end_user_id = v_merge.survivor_id;
+
+    UPDATE end_users SET
+        company_name = v_merge.survivor_before->>'company_name',
+        contact_name = v_merge.survivor_before->>'contact_name',
+        contact_email = v_merge.survivor_before->>'contact_email',
+        territory = v_merge.survivor_before->>'territory',
+        territory_id = (v_merge.survivor_before->>'territory_id')::UUID
+    WHERE id = v_merge.survivor_id;
+
+    UPDATE end_user_merges SET undone_at = NOW(), undone_by = p_undone_by WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,53 @@
+-- Registration expiry
+-- Approved deals protect their reseller for a period set by tier or product category, then
+-- move to the new 'expired' status and stop competing in conflict detection.
+
+ALTER TYPE deal_status ADD VALUE IF NOT EXISTS 'expired';
+
+ALTER TABLE deals
+    ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE; -- end of the protection period, set on approval
+
+CREATE INDEX idx_deals_expires_at ON deals(expires_at) WHERE status = 'approved';
+
+INSERT INTO system_settings (key, value) VALUES
+    ('deal_protection', '{"tier_days": {"gold": 90, "silver": 60, "bronze": 45}, "category_days": {}, "expiring_soon_days": 14}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Deals approved before protection periods existed get a full period from today rather than
+-- from their approval date, so nothing expires the moment this ships
+UPDATE deals d SET expires_at = NOW() + make_interval(days => CASE r.tier
+        WHEN 'gold' THEN 90
+        WHEN 'silver' THEN 60
+        ELSE 45
+    END)
+FROM resellers r
+WHERE r.id = COALESCE(d.assigned_reseller_id, d.reseller_id)
+AND d.status = 'approved'
+AND d.expires_at IS NULL;
+
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    p_company_name TEXT,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 500,
+    p_exclude_deal_id UUID DEFAULT NULL,
+    p_email_domain TEXT DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, true);
+
+    RETURN QUERY
+    SELECT d.*
+    FROM deals d
+    JOIN end_users eu ON d.end_user_id = eu.id
+    WHERE (
+        eu.company_name % p_company_name
+        OR lower(split_part(eu.contact_email, '@', 2)) = p_email_domain
+        OR lower(split_part(eu.contact_email, '@', 2)) LIKE '%.' || p_email_domain
+    )
+    AND d.status NOT IN ('rejected', 'expired')
+    AND (p_exclude_deal_id IS NULL OR d.id <> p_exclude_deal_id)
+    ORDER BY similarity(eu.company_name, p_company_name) DESC, d.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,59 @@
+-- Session-scoped policies
+-- API routes now query as the signed-in user rather than through the anon client, so role
+-- checks in policies must find staff the way the API does: by auth id, then by email.
+
+BEGIN;
+
+-- The caller's staff_users row, matched on the auth user id first and then on email the
+-- same way the API resolves it. SECURITY DEFINER so policies on staff_users can use them
+-- without recursing into their own table.
+CREATE OR REPLACE FUNCTION current_staff_user_id()
+RETURNS UUID AS $$
+    SELECT id FROM staff_users
+    WHERE id = auth.uid() OR email = auth.jwt()->>'email'
+    ORDER BY (id = auth.uid()) DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS staff_role AS $$
+    SELECT role FROM staff_users WHERE id = current_staff_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Admins can manage staff users" ON staff_users;
+CREATE POLICY "Admins can manage staff users" ON staff_users
+    FOR ALL USING (current_staff_role() = 'admin');
+
+DROP POLICY "Admins can manage staff territories" ON staff_territories;
+CREATE POLICY "Admins can manage staff territories" ON staff_territories
+    FOR ALL USING (current_staff_role() = 'admin');
+
+DROP POLICY "Admins can manage territories" ON territories;
+CREATE POLICY "Admins can manage territories" ON territories
+    FOR ALL USING (current_staff_role() = 'admin');
+
+DROP POLICY "Managers and admins can manage products" ON products;
+CREATE POLICY "Managers and admins can manage products" ON products
+    FOR ALL USING (current_staff_role() IN ('admin', 'manager'));
+
+DROP POLICY "Managers and admins can manage eligibility rules" ON eligibility_rules;
+CREATE POLICY "Managers and admins can manage eligibility rules" ON eligibility_rules
+    FOR ALL USING (current_staff_role() IN ('admin', 'manager'));
+
+DROP POLICY "Admins can manage system settings" ON system_settings;
+CREATE POLICY "Admins can manage system settings" ON system_settings
+    FOR ALL USING (current_staff_role() = 'admin');
+
+DROP POLICY "Authors can edit their conflict comments" ON conflict_comments;
+CREATE POLICY "Authors can edit their conflict comments" ON conflict_comments
+    FOR UPDATE USING (author_id = current_staff_user_id());
+
+DROP POLICY "Managers and admins can manage end user merges" ON end_user_merges;
+CREATE POLICY "Managers and admins can manage end user merges" ON end_user_merges
+    FOR ALL USING (current_staff_role() IN ('admin', 'manager'));
+
+DROP POLICY "Admins can manage conflict rescan jobs" ON conflict_rescan_jobs;
+CREATE POLICY "Admins can manage conflict rescan jobs" ON conflict_rescan_jobs
+    FOR ALL USING (current_staff_role() = 'admin');
+
+COMMIT;
@@ -0,0 +1,208 @@
+-- Normalized company names
+-- Conflict candidates are matched on the normalized end user name, so "Siemens AG" and
+-- "Siemens Aktiengesellschaft" find each other. The application writes the normalized name.
+-- Existing rows start from a lowercased copy, which matches the way candidates were found
+-- before; the next conflict re-scan refreshes the end users of every open deal.
+
+ALTER TABLE end_users ADD COLUMN normalized_company_name TEXT;
+
+UPDATE end_users SET normalized_company_name = lower(trim(company_name));
+
+ALTER TABLE end_users ALTER COLUMN normalized_company_name SET NOT NULL;
+
+CREATE INDEX idx_end_users_normalized_company_name_gin ON end_users USING gin(normalized_company_name gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION default_normalized_company_name()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.normalized_company_name IS NULL
+       OR (TG_OP = 'UPDATE'
+           AND NEW.company_name IS DISTINCT FROM OLD.company_name
+           AND NEW.normalized_company_name IS NOT DISTINCT FROM OLD.normalized_company_name) THEN
+        NEW.normalized_company_name = lower(trim(NEW.company_name));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER default_end_users_normalized_company_name BEFORE INSERT OR UPDATE ON end_users FOR EACH ROW EXECUTE FUNCTION default_normalized_company_name();
+
+CREATE OR REPLACE FUNCTION create_deal_submission(
+    p_reseller_id UUID,
+    p_end_user JSONB,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_end_user_id UUID;
+    v_deal_id UUID;
+BEGIN
+    INSERT INTO end_users (id, company_name, normalized_company_name, contact_name, contact_email, territory)
+    VALUES (
+        COALESCE((p_end_user->>'id')::UUID, uuid_generate_v4()),
+        p_end_user->>'company_name',
+        p_end_user->>'normalized_company_name',
+        p_end_user->>'contact_name',
+        p_end_user->>'contact_email',
+        p_end_user->>'territory'
+    )
+    ON CONFLICT (id) DO UPDATE SET
+        company_name = EXCLUDED.company_name,
+        normalized_company_name = EXCLUDED.normalized_company_name,
+        contact_name = EXCLUDED.contact_name,
+        contact_email = EXCLUDED.contact_email,
+        territory = EXCLUDED.territory
+    RETURNING id INTO v_end_user_id;
+
+    INSERT INTO deals (reseller_id, end_user_id, total_value, status)
+    SELECT p_reseller_id, v_end_user_id, SUM(p.quantity * p.price), p_status
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL)
+    RETURNING id INTO v_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT v_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT v_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (v_deal_id, NULL, p_status, 'Deal submitted', p_changed_by);
+
+    RETURN v_deal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION merge_end_users(
+    p_survivor_id UUID,
+    p_merged_ids UUID[],
+    p_values JSONB DEFAULT '{}'::JSONB,
+    p_merged_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_survivor end_users%ROWTYPE;
+    v_merge_id UUID;
+BEGIN
+    SELECT * INTO v_survivor FROM end_users WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Surviving end user not found';
+    END IF;
+
+    IF p_survivor_id = ANY(p_merged_ids) THEN
+        RAISE EXCEPTION 'An end user cannot be merged into itself';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM end_users WHERE id = ANY(p_merged_ids)) <> cardinality(p_merged_ids) THEN
+        RAISE EXCEPTION 'One or more end users to merge no longer exist';
+    END IF;
+
+    INSERT INTO end_user_merges (survivor_id, survivor_before, merged_end_users, moved_deals, merged_by)
+    VALUES (
+        p_survivor_id,
+        to_jsonb(v_survivor),
+        (SELECT jsonb_agg(to_jsonb(eu)) FROM end_users eu WHERE eu.id = ANY(p_merged_ids)),
+        (SELECT COALESCE(jsonb_agg(jsonb_build_object('deal_id', d.id, 'end_user_id', d.end_user_id)), '[]'::JSONB)
+         FROM deals d WHERE d.end_user_id = ANY(p_merged_ids)),
+        p_merged_by
+    )
+    RETURNING id INTO v_merge_id;
+
+    UPDATE deals SET end_user_id = p_survivor_id WHERE end_user_id = ANY(p_merged_ids);
+
+    UPDATE end_users SET
+        company_name = COALESCE(p_values->>'company_name', company_name),
+        normalized_company_name = COALESCE(p_values->>'normalized_company_name', normalized_company_name),
+        contact_name = COALESCE(p_values->>'contact_name', contact_name),
+        contact_email = COALESCE(p_values->>'contact_email', contact_email),
+        territory = COALESCE(p_values->>'territory', territory)
+    WHERE id = p_survivor_id;
+
+    DELETE FROM end_users WHERE id = ANY(p_merged_ids);
+
+    RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION undo_end_user_merge(
+    p_merge_id UUID,
+    p_undone_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_merge end_user_merges%ROWTYPE;
+BEGIN
+    SELECT * INTO v_merge FROM end_user_merges WHERE id = p_merge_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Merge not found';
+    END IF;
+
+    IF v_merge.undone_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This merge has already been undone';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM end_users WHERE id = v_merge.survivor_id) THEN
+        RAISE EXCEPTION 'The surviving end user has since been merged away; undo that merge first';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM end_user_merges
+        WHERE survivor_id = v_merge.survivor_id
+        AND undone_at IS NULL
+        AND created_at > v_merge.created_at
+    ) THEN
+        RAISE EXCEPTION 'A later merge into the same end user must be undone first';
+    END IF;
+
+    INSERT INTO end_users
+    SELECT * FROM jsonb_populate_recordset(NULL::end_users, v_merge.merged_end_users);
+
+    UPDATE deals d SET end_user_id = m.end_user_id
+    FROM jsonb_to_recordset(v_merge.moved_deals) AS m(deal_id UUID, end_user_id UUID)
+    WHERE d.id = m.deal_id AND d.end_user_id = v_merge.survivor_id;
+
+    UPDATE end_users SET
+        company_name = v_merge.survivor_before->>'company_name',
+        normalized_company_name = v_merge.survivor_before->>'normalized_company_name',
+        contact_name = v_merge.survivor_before->>'contact_name',
+        contact_email = v_merge.survivor_before->>'contact_email',
+        territory = v_merge.survivor_before->>'territory',
+        territory_id = (v_merge.survivor_before->>'territory_id')::UUID
+    WHERE id = v_merge.survivor_id;
+
+    UPDATE end_user_merges SET undone_at = NOW(), undone_by = p_undone_by WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    p_company_name TEXT,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 500,
+    p_exclude_deal_id UUID DEFAULT NULL,
+    p_email_domain TEXT DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, true);
+
+    RETURN QUERY
+    SELECT d.*
+    FROM deals d
+    JOIN end_users eu ON d.end_user_id = eu.id
+    WHERE (
+        eu.normalized_company_name % p_company_name
+        OR lower(split_part(eu.contact_email, '@', 2)) = p_email_domain
+        OR lower(split_part(eu.contact_email, '@', 2)) LIKE '%.' || p_email_domain
+    )
+    AND d.status NOT IN ('rejected', 'expired')
+    AND (p_exclude_deal_id IS NULL OR d.id <> p_exclude_deal_id)
+    ORDER BY similarity(eu.normalized_company_name, p_company_name) DESC, d.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,105 @@
+-- Deal re-submissions
+-- A re-submitted deal records the earlier revision it replaces, and conflict detection no
+-- longer reports a deal as conflicting with any revision of itself.
+
+ALTER TABLE deals
+    ADD COLUMN resubmission_of UUID REFERENCES deals(id) ON DELETE SET NULL; -- earlier revision this deal re-submits
+
+CREATE INDEX idx_deals_resubmission_of ON deals(resubmission_of);
+
+-- Every revision of a deal: the deal itself plus the deals linked to it through
+-- resubmission_of in either direction, however long the chain
+CREATE OR REPLACE FUNCTION deal_revision_ids(p_deal_id UUID)
+RETURNS SETOF UUID AS $$
+    WITH RECURSIVE revisions AS (
+        SELECT p_deal_id AS id
+        UNION
+        SELECT linked.id
+        FROM revisions r
+        JOIN deals revision ON revision.id = r.id
+        JOIN deals linked ON linked.id = revision.resubmission_of OR linked.resubmission_of = revision.id
+    )
+    SELECT id FROM revisions;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS create_deal_submission(UUID, JSONB, JSONB, JSONB, deal_status, UUID);
+
+CREATE OR REPLACE FUNCTION create_deal_submission(
+    p_reseller_id UUID,
+    p_end_user JSONB,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL,
+    p_resubmission_of UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_end_user_id UUID;
+    v_deal_id UUID;
+BEGIN
+    INSERT INTO end_users (id, company_name, normalized_company_name, contact_name, contact_email, territory)
+    VALUES (
+        COALESCE((p_end_user->>'id')::UUID, uuid_generate_v4()),
+        p_end_user->>'company_name',
+        p_end_user->>'normalized_company_name',
+        p_end_user->>'contact_name',
+        p_end_user->>'contact_email',
+        p_end_user->>'territory'
+    )
+    ON CONFLICT (id) DO UPDATE SET
+        company_name = EXCLUDED.company_name,
+        normalized_company_name = EXCLUDED.normalized_company_name,
+        contact_name = EXCLUDED.contact_name,
+        contact_email = EXCLUDED.contact_email,
+        territory = EXCLUDED.territory
+    RETURNING id INTO v_end_user_id;
+
+    INSERT INTO deals (reseller_id, end_user_id, total_value, status, resubmission_of)
+    SELECT p_reseller_id, v_end_user_id, SUM(p.quantity * p.price), p_status, p_resubmission_of
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL)
+    RETURNING id INTO v_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT v_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT v_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (v_deal_id, NULL, p_status, 'Deal submitted', p_changed_by);
+
+    RETURN v_deal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    p_company_name TEXT,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 500,
+    p_exclude_deal_id UUID DEFAULT NULL,
+    p_email_domain TEXT DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, true);
+
+    RETURN QUERY
+    SELECT d.*
+    FROM deals d
+    JOIN end_users eu ON d.end_user_id = eu.id
+    WHERE (
+        eu.normalized_company_name % p_company_name
+        OR lower(split_part(eu.contact_email, '@', 2)) = p_email_domain
+        OR lower(split_part(eu.contact_email, '@', 2)) LIKE '%.' || p_email_domain
+    )
+    AND d.status NOT IN ('rejected', 'expired')
+    AND (p_exclude_deal_id IS NULL OR d.id NOT IN (SELECT deal_revision_ids(p_exclude_deal_id)))
+    ORDER BY similarity(eu.normalized_company_name, p_company_name) DESC, d.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
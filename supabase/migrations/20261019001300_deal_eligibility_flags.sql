@@ -0,0 +1,62 @@
+-- Stored eligibility flags
+-- Flag rules a deal broke at submission are kept with the deal so reviewers see them on the
+-- deal and when approving it, not only the submitter in the submission response.
+
+ALTER TABLE deals
+    ADD COLUMN eligibility_flags JSONB NOT NULL DEFAULT '[]'; -- [{rule_id, rule_name, rule_type, action, reason}] from flag rules
+
+DROP FUNCTION IF EXISTS create_deal_submission(UUID, JSONB, JSONB, JSONB, deal_status, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION create_deal_submission(
+    p_reseller_id UUID,
+    p_end_user JSONB,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL,
+    p_resubmission_of UUID DEFAULT NULL,
+    p_eligibility_flags JSONB DEFAULT '[]'::JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_end_user_id UUID;
+    v_deal_id UUID;
+BEGIN
+    INSERT INTO end_users (id, company_name, normalized_company_name, contact_name, contact_email, territory)
+    VALUES (
+        COALESCE((p_end_user->>'id')::UUID, uuid_generate_v4()),
+        p_end_user->>'company_name',
+        p_end_user->>'normalized_company_name',
+        p_end_user->>'contact_name',
+        p_end_user->>'contact_email',
+        p_end_user->>'territory'
+    )
+    ON CONFLICT (id) DO UPDATE SET
+        company_name = EXCLUDED.company_name,
+        normalized_company_name = EXCLUDED.normalized_company_name,
+        contact_name = EXCLUDED.contact_name,
+        contact_email = EXCLUDED.contact_email,
+        territory = EXCLUDED.territory
+    RETURNING id INTO v_end_user_id;
+
+    INSERT INTO deals (reseller_id, end_user_id, total_value, status, resubmission_of, eligibility_flags)
+    SELECT p_reseller_id, v_end_user_id, SUM(p.quantity * p.price), p_status, p_resubmission_of, p_eligibility_flags
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL)
+    RETURNING id INTO v_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT v_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT v_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (v_deal_id, NULL, p_status, 'Deal submitted', p_changed_by);
+
+    RETURN v_deal_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,72 @@
+-- Line item edits without a status change
+-- replace_deal_products no longer sets the deal's status; the API moves the deal through the
+-- usual status transitions after the edit. It now refuses decided deals itself, and replaces
+-- the deal's eligibility flags, which are re-evaluated on every edit.
+
+DROP FUNCTION IF EXISTS replace_deal_products(UUID, JSONB, JSONB, deal_status, UUID);
+
+CREATE OR REPLACE FUNCTION replace_deal_products(
+    p_deal_id UUID,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_eligibility_flags JSONB DEFAULT '[]'::JSONB,
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    -- The lock keeps a decision from landing between the caller's status check and the edit
+    PERFORM 1 FROM deals WHERE id = p_deal_id AND status IN ('pending', 'disputed') FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deal can no longer be edited';
+    END IF;
+
+    DELETE FROM deal_products WHERE deal_id = p_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT p_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    UPDATE deal_conflicts dc
+    SET severity = c.severity, similarity_score = c.similarity_score, reason = c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND dc.competing_deal_id = c.competing_deal_id
+    AND dc.conflict_type = c.conflict_type;
+
+    UPDATE deal_conflicts dc
+    SET resolution_status = 'dismissed', updated_by = p_changed_by
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND EXISTS (SELECT 1 FROM conflict_comments cc WHERE cc.conflict_id = dc.id)
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    DELETE FROM deal_conflicts dc
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT p_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE c.competing_deal_id <> p_deal_id
+    AND NOT EXISTS (
+        SELECT 1 FROM deal_conflicts dc
+        WHERE dc.deal_id = p_deal_id
+        AND dc.competing_deal_id = c.competing_deal_id
+        AND dc.conflict_type = c.conflict_type
+    );
+
+    UPDATE deals SET eligibility_flags = p_eligibility_flags WHERE id = p_deal_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,123 @@
+-- Atomic conflict resolution
+-- Assigning the winner, moving the loser and closing the pair's conflicts happen in one
+-- transaction, so a failure part-way can no longer leave the deals and conflicts disagreeing.
+
+-- Atomic conflict resolution: assigns the winner to its own reseller when p_assign_winner
+-- is set, moves the loser to p_losing_deal_status, and closes every pending conflict
+-- between the two deals, whichever side each row was recorded from. The caller checks the
+-- status transitions against the statuses it read (p_winner_from, p_loser_from); if either
+-- deal has moved on since, nothing is written. Returns the resolved conflicts, their prior
+-- rows and the before/after rows of any deal that changed.
+CREATE OR REPLACE FUNCTION resolve_deal_conflict(
+    p_conflict_id UUID,
+    p_winning_deal_id UUID,
+    p_winner_from deal_status,
+    p_loser_from deal_status,
+    p_assign_winner BOOLEAN,
+    p_losing_deal_status deal_status,
+    p_reason_code resolution_reason,
+    p_rationale TEXT,
+    p_winner_reason TEXT,
+    p_loser_reason TEXT,
+    p_resolved_by UUID DEFAULT NULL,
+    p_auto_resolution_policy auto_resolution_policy DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_conflict deal_conflicts%ROWTYPE;
+    v_losing_deal_id UUID;
+    v_winner_before deals%ROWTYPE;
+    v_loser_before deals%ROWTYPE;
+    v_winner JSONB;
+    v_loser JSONB;
+    v_previous JSONB;
+    v_resolved JSONB;
+BEGIN
+    SELECT * INTO v_conflict FROM deal_conflicts WHERE id = p_conflict_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conflict not found';
+    END IF;
+
+    IF v_conflict.resolution_status <> 'pending' THEN
+        RAISE EXCEPTION 'Conflict is already %', v_conflict.resolution_status;
+    END IF;
+
+    IF p_winning_deal_id NOT IN (v_conflict.deal_id, v_conflict.competing_deal_id) THEN
+        RAISE EXCEPTION 'The winning deal must be one of the two deals in the conflict';
+    END IF;
+
+    v_losing_deal_id = CASE WHEN v_conflict.deal_id = p_winning_deal_id
+        THEN v_conflict.competing_deal_id ELSE v_conflict.deal_id END;
+
+    SELECT * INTO v_winner_before FROM deals WHERE id = p_winning_deal_id FOR UPDATE;
+    SELECT * INTO v_loser_before FROM deals WHERE id = v_losing_deal_id FOR UPDATE;
+
+    IF v_winner_before.status <> p_winner_from OR v_loser_before.status <> p_loser_from THEN
+        RAISE EXCEPTION 'Deal status was changed by another request';
+    END IF;
+
+    IF p_assign_winner THEN
+        UPDATE deals SET
+            status = 'assigned',
+            assigned_reseller_id = reseller_id,
+            assignment_date = NOW()
+        WHERE id = p_winning_deal_id;
+
+        INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+        VALUES (p_winning_deal_id, v_winner_before.status, 'assigned', p_winner_reason, p_resolved_by);
+
+        INSERT INTO assignment_history (deal_id, old_reseller_id, new_reseller_id, assigned_by, reason)
+        VALUES (
+            p_winning_deal_id,
+            v_winner_before.assigned_reseller_id,
+            v_winner_before.reseller_id,
+            p_resolved_by,
+            'Conflict resolution: ' || p_rationale
+        );
+
+        SELECT jsonb_build_object('previous', to_jsonb(v_winner_before), 'deal', to_jsonb(d))
+        INTO v_winner FROM deals d WHERE d.id = p_winning_deal_id;
+    END IF;
+
+    IF v_loser_before.status <> p_losing_deal_status THEN
+        UPDATE deals SET status = p_losing_deal_status WHERE id = v_losing_deal_id;
+
+        INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+        VALUES (v_losing_deal_id, v_loser_before.status, p_losing_deal_status, p_loser_reason, p_resolved_by);
+
+        SELECT jsonb_build_object('previous', to_jsonb(v_loser_before), 'deal', to_jsonb(d))
+        INTO v_loser FROM deals d WHERE d.id = v_losing_deal_id;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(dc)), '[]'::JSONB) INTO v_previous
+    FROM deal_conflicts dc
+    WHERE dc.resolution_status = 'pending'
+    AND ((dc.deal_id = p_winning_deal_id AND dc.competing_deal_id = v_losing_deal_id)
+        OR (dc.deal_id = v_losing_deal_id AND dc.competing_deal_id = p_winning_deal_id));
+
+    WITH resolved AS (
+        UPDATE deal_conflicts dc SET
+            resolution_status = 'resolved',
+            winning_deal_id = p_winning_deal_id,
+            losing_deal_status = p_losing_deal_status,
+            resolution_reason = p_reason_code,
+            resolution_rationale = p_rationale,
+            resolved_by = p_resolved_by,
+            resolved_at = NOW(),
+            auto_resolution_policy = p_auto_resolution_policy,
+            updated_by = p_resolved_by
+        WHERE dc.resolution_status = 'pending'
+        AND ((dc.deal_id = p_winning_deal_id AND dc.competing_deal_id = v_losing_deal_id)
+            OR (dc.deal_id = v_losing_deal_id AND dc.competing_deal_id = p_winning_deal_id))
+        RETURNING dc.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(resolved)), '[]'::JSONB) INTO v_resolved FROM resolved;
+
+    RETURN jsonb_build_object(
+        'conflicts', v_resolved,
+        'previous_conflicts', v_previous,
+        'winner', v_winner,
+        'loser', v_loser
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,24 @@
+-- Territory rules reference territories by id
+-- allowed_territories held territory names, so renaming a territory silently broke every rule
+-- naming it. Names are swapped for the matching territory's id. A name matching no territory
+-- never allowed anything, so it is dropped; rules left with nothing to allow keep their
+-- entries and are skipped as invalid until they are fixed in the settings.
+
+WITH converted AS (
+    SELECT r.id,
+           jsonb_agg(
+               CASE WHEN e.value = 'match_reseller_territory' THEN e.value ELSE t.id::TEXT END
+               ORDER BY e.ordinality
+           ) FILTER (WHERE e.value = 'match_reseller_territory' OR t.id IS NOT NULL) AS allowed_territories
+    FROM eligibility_rules r
+    CROSS JOIN LATERAL jsonb_array_elements_text(r.conditions->'allowed_territories') WITH ORDINALITY AS e(value, ordinality)
+    LEFT JOIN territories t ON t.id::TEXT = e.value OR lower(t.name) = lower(trim(e.value))
+    WHERE r.rule_type = 'territory'
+      AND jsonb_typeof(r.conditions->'allowed_territories') = 'array'
+    GROUP BY r.id
+)
+UPDATE eligibility_rules r
+SET conditions = jsonb_set(r.conditions, '{allowed_territories}', c.allowed_territories)
+FROM converted c
+WHERE c.id = r.id
+  AND c.allowed_territories IS NOT NULL;
@@ -0,0 +1,92 @@
+-- Conflict queue ranked in the database
+-- The queue API loaded every pending conflict and ranked it in memory. conflict_queue()
+-- ranks, filters and pages the queue in SQL and returns one page with the queue summary.
+
+CREATE OR REPLACE FUNCTION conflict_queue(
+    p_high_hours INTEGER,
+    p_medium_hours INTEGER,
+    p_low_hours INTEGER,
+    p_priority TEXT DEFAULT NULL,
+    p_overdue BOOLEAN DEFAULT false,
+    p_sort TEXT DEFAULT 'priority',
+    p_limit INTEGER DEFAULT 25,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+    WITH scored AS (
+        SELECT dc.id,
+               dc.created_at,
+               (CASE
+                    WHEN GREATEST(d.total_value, cd.total_value) > 100000 THEN 3
+                    WHEN GREATEST(d.total_value, cd.total_value) > 50000 THEN 2
+                    ELSE 1
+                END
+                + CASE
+                    WHEN dc.conflict_type IN ('duplicate_end_user', 'product_overlap') THEN 3
+                    WHEN dc.conflict_type = 'territory_overlap' THEN 2
+                    ELSE 1
+                END
+                + CASE
+                    WHEN NOW() - COALESCE(GREATEST(d.submission_date, cd.submission_date), dc.created_at) >= INTERVAL '8 days' THEN 2
+                    WHEN NOW() - COALESCE(GREATEST(d.submission_date, cd.submission_date), dc.created_at) >= INTERVAL '4 days' THEN 1
+                    ELSE 0
+                END) AS score
+        FROM deal_conflicts dc
+        JOIN deals d ON d.id = dc.deal_id
+        JOIN deals cd ON cd.id = dc.competing_deal_id
+        WHERE dc.resolution_status = 'pending'
+    ),
+    prioritized AS (
+        SELECT id, created_at,
+               CASE WHEN score >= 7 THEN 'high' WHEN score >= 4 THEN 'medium' ELSE 'low' END AS priority,
+               CASE WHEN score >= 7 THEN 3 WHEN score >= 4 THEN 2 ELSE 1 END AS priority_rank,
+               CASE WHEN score >= 7 THEN p_high_hours WHEN score >= 4 THEN p_medium_hours ELSE p_low_hours END AS sla_hours
+        FROM scored
+    ),
+    entries AS (
+        SELECT id, created_at, priority, priority_rank, sla_hours,
+               created_at + make_interval(hours => sla_hours) AS due_at,
+               NOW() > created_at + make_interval(hours => sla_hours) AS overdue,
+               floor(extract(epoch FROM NOW() - created_at) / 3600)::INTEGER AS age_hours
+        FROM prioritized
+    ),
+    filtered AS (
+        SELECT * FROM entries
+        WHERE (p_priority IS NULL OR priority = p_priority)
+          AND (NOT p_overdue OR overdue)
+    ),
+    page AS (
+        SELECT * FROM filtered
+        ORDER BY
+            CASE WHEN p_sort = 'oldest' THEN NULL ELSE priority_rank END DESC,
+            CASE WHEN p_sort = 'oldest' THEN created_at ELSE due_at END ASC,
+            id
+        LIMIT p_limit OFFSET p_offset
+    )
+    SELECT jsonb_build_object(
+        'entries', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'conflict_id', id,
+                'priority', priority,
+                'sla_hours', sla_hours,
+                'age_hours', age_hours,
+                'due_at', due_at,
+                'overdue', overdue
+            ) ORDER BY
+                CASE WHEN p_sort = 'oldest' THEN NULL ELSE priority_rank END DESC,
+                CASE WHEN p_sort = 'oldest' THEN created_at ELSE due_at END ASC,
+                id)
+            FROM page
+        ), '[]'::JSONB),
+        'total', (SELECT COUNT(*) FROM filtered),
+        'summary', (
+            SELECT jsonb_build_object(
+                'high', COUNT(*) FILTER (WHERE priority = 'high'),
+                'medium', COUNT(*) FILTER (WHERE priority = 'medium'),
+                'low', COUNT(*) FILTER (WHERE priority = 'low'),
+                'overdue', COUNT(*) FILTER (WHERE overdue)
+            )
+            FROM entries
+        )
+    );
+$$ LANGUAGE sql STABLE;
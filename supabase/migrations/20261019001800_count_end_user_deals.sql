@@ -0,0 +1,10 @@
+-- Deal counts per end user in the database
+-- The duplicate review counted deals by fetching every deal row through one huge id filter.
+
+CREATE OR REPLACE FUNCTION count_end_user_deals(p_end_user_ids UUID[])
+RETURNS TABLE (end_user_id UUID, deal_count BIGINT) AS $$
+    SELECT d.end_user_id, COUNT(*)
+    FROM deals d
+    WHERE d.end_user_id = ANY(p_end_user_ids)
+    GROUP BY d.end_user_id;
+$$ LANGUAGE sql STABLE;
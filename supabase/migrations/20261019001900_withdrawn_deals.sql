@@ -0,0 +1,97 @@
+-- Withdrawn deals
+-- Withdrawing a deal deleted it, and the cascade took its conflicts and their discussion
+-- threads with it. Deals now move to the new 'withdrawn' status instead: they stay on record
+-- with their conflicts, which are dismissed, and stop competing in conflict detection.
+
+ALTER TYPE deal_status ADD VALUE IF NOT EXISTS 'withdrawn';
+
+-- Withdraws an undecided deal. The deal is kept, with its conflicts and their discussion,
+-- so nothing recorded about it is lost; its pending conflicts are dismissed since there is
+-- nothing left to decide. Returns the deal and its dismissed conflicts, before and after.
+CREATE OR REPLACE FUNCTION withdraw_deal(
+    p_deal_id UUID,
+    p_reason TEXT,
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_before deals%ROWTYPE;
+    v_deal JSONB;
+    v_previous JSONB;
+    v_dismissed JSONB;
+BEGIN
+    SELECT * INTO v_before FROM deals WHERE id = p_deal_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deal not found';
+    END IF;
+
+    IF v_before.status NOT IN ('pending', 'disputed') THEN
+        RAISE EXCEPTION 'Deals in % status can no longer be withdrawn', v_before.status;
+    END IF;
+
+    UPDATE deals SET status = 'withdrawn' WHERE id = p_deal_id
+    RETURNING to_jsonb(deals.*) INTO v_deal;
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (p_deal_id, v_before.status, 'withdrawn', p_reason, p_changed_by);
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(dc)), '[]'::JSONB) INTO v_previous
+    FROM deal_conflicts dc
+    WHERE dc.resolution_status = 'pending'
+    AND (dc.deal_id = p_deal_id OR dc.competing_deal_id = p_deal_id);
+
+    WITH dismissed AS (
+        UPDATE deal_conflicts dc SET
+            resolution_status = 'dismissed',
+            resolution_rationale = p_reason,
+            resolved_by = p_changed_by,
+            resolved_at = NOW(),
+            updated_by = p_changed_by
+        WHERE dc.resolution_status = 'pending'
+        AND (dc.deal_id = p_deal_id OR dc.competing_deal_id = p_deal_id)
+        RETURNING dc.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(dismissed)), '[]'::JSONB) INTO v_dismissed FROM dismissed;
+
+    RETURN jsonb_build_object(
+        'previous', to_jsonb(v_before),
+        'deal', v_deal,
+        'conflicts', v_dismissed,
+        'previous_conflicts', v_previous
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Candidate deals for conflict detection: every deal that is not rejected, expired or
+-- withdrawn whose normalized end user name is trigram-similar to the submitted one
+-- (p_company_name, normalized by the caller), across the full history. The % operator
+-- lets the GIN trigram index on end_users.normalized_company_name do the filtering;
+-- detailed scoring happens in the application. Deals whose contact shares p_email_domain (a corporate
+-- domain, or a subdomain of it) are candidates whatever their name.
+-- p_exclude_deal_id keeps a deal, and every other revision of it, from matching itself.
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    p_company_name TEXT,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 500,
+    p_exclude_deal_id UUID DEFAULT NULL,
+    p_email_domain TEXT DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, true);
+
+    RETURN QUERY
+    SELECT d.*
+    FROM deals d
+    JOIN end_users eu ON d.end_user_id = eu.id
+    WHERE (
+        eu.normalized_company_name % p_company_name
+        OR lower(split_part(eu.contact_email, '@', 2)) = p_email_domain
+        OR lower(split_part(eu.contact_email, '@', 2)) LIKE '%.' || p_email_domain
+    )
+    AND d.status NOT IN ('rejected', 'expired', 'withdrawn')
+    AND (p_exclude_deal_id IS NULL OR d.id NOT IN (SELECT deal_revision_ids(p_exclude_deal_id)))
+    ORDER BY similarity(eu.normalized_company_name, p_company_name) DESC, d.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
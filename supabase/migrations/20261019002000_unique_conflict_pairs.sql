@@ -0,0 +1,27 @@
+-- One conflict row per pair and type
+-- Overlapping conflict re-scan steps could both insert the same pair. Existing duplicates are
+-- folded into one row, preferring a decided row and then the oldest, and their discussion
+-- moves with them; the unique index then lets the re-scan skip pairs that already exist.
+
+WITH ranked AS (
+    SELECT id,
+           first_value(id) OVER pair AS keeper_id,
+           row_number() OVER pair AS position
+    FROM deal_conflicts
+    WINDOW pair AS (
+        PARTITION BY deal_id, competing_deal_id, conflict_type
+        ORDER BY (resolution_status = 'pending'), created_at, id
+    )
+),
+moved AS (
+    UPDATE conflict_comments cc
+    SET conflict_id = r.keeper_id
+    FROM ranked r
+    WHERE cc.conflict_id = r.id AND r.position > 1
+    RETURNING cc.id
+)
+DELETE FROM deal_conflicts dc
+USING ranked r
+WHERE dc.id = r.id AND r.position > 1;
+
+CREATE UNIQUE INDEX idx_deal_conflicts_pair ON deal_conflicts(deal_id, competing_deal_id, conflict_type);
@@ -0,0 +1,88 @@
+-- Atomic line item edits
+-- Editing a deal saved its line items and then changed its status in a second request, so a
+-- failed status change left the edit saved under the old status. replace_deal_products now
+-- takes the status the edit leads to (p_status) and moves the deal, with its history row, in
+-- the same transaction.
+
+DROP FUNCTION IF EXISTS replace_deal_products(UUID, JSONB, JSONB, JSONB, UUID);
+
+-- Atomic line item edit: replaces the deal's products, its pending conflicts and its
+-- eligibility flags. Pairs that were already resolved or dismissed are not re-opened.
+-- Pending conflicts that are still detected keep their row, and with it their notes and
+-- assignee; a cleared conflict that staff have written notes on is dismissed instead of
+-- deleted. The deal moves to p_status (pending or disputed, as the edited conflicts call for)
+-- in the same transaction, with its status history row.
+CREATE OR REPLACE FUNCTION replace_deal_products(
+    p_deal_id UUID,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_eligibility_flags JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_from deal_status;
+BEGIN
+    IF p_status NOT IN ('pending', 'disputed') THEN
+        RAISE EXCEPTION 'An edited deal can only be pending or disputed';
+    END IF;
+
+    -- The lock keeps a decision from landing between the caller's status check and the edit
+    SELECT status INTO v_from FROM deals WHERE id = p_deal_id AND status IN ('pending', 'disputed') FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deal can no longer be edited';
+    END IF;
+
+    DELETE FROM deal_products WHERE deal_id = p_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT p_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    UPDATE deal_conflicts dc
+    SET severity = c.severity, similarity_score = c.similarity_score, reason = c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND dc.competing_deal_id = c.competing_deal_id
+    AND dc.conflict_type = c.conflict_type;
+
+    UPDATE deal_conflicts dc
+    SET resolution_status = 'dismissed', updated_by = p_changed_by
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND EXISTS (SELECT 1 FROM conflict_comments cc WHERE cc.conflict_id = dc.id)
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    DELETE FROM deal_conflicts dc
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT p_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE c.competing_deal_id <> p_deal_id
+    ON CONFLICT (deal_id, competing_deal_id, conflict_type) DO NOTHING;
+
+    UPDATE deals SET eligibility_flags = p_eligibility_flags WHERE id = p_deal_id;
+
+    IF v_from <> p_status THEN
+        UPDATE deals SET status = p_status WHERE id = p_deal_id;
+
+        INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+        VALUES (p_deal_id, v_from, p_status, 'Line items edited', p_changed_by);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
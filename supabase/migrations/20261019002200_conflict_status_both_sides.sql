@@ -0,0 +1,60 @@
+-- Dismissing a conflict closes both sides
+-- Dismissing a conflict through the API only changed the row it was given, leaving the same
+-- pair recorded from the competing deal's side pending. set_conflict_status changes both.
+
+-- Dismisses or re-opens a conflict together with its mirror row (the same pair and type
+-- recorded from the competing deal's side), so both deals show the same state. Resolved
+-- rows are never changed here. Returns the changed rows, before and after.
+CREATE OR REPLACE FUNCTION set_conflict_status(
+    p_conflict_id UUID,
+    p_status resolution_status,
+    p_updated_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_conflict deal_conflicts%ROWTYPE;
+    v_previous JSONB;
+    v_updated JSONB;
+BEGIN
+    IF p_status = 'resolved' THEN
+        RAISE EXCEPTION 'Conflicts are resolved through resolve_deal_conflict';
+    END IF;
+
+    SELECT * INTO v_conflict FROM deal_conflicts WHERE id = p_conflict_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conflict not found';
+    END IF;
+
+    IF v_conflict.resolution_status = 'resolved' THEN
+        RAISE EXCEPTION 'A resolved conflict cannot be re-opened or dismissed';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(dc)), '[]'::JSONB) INTO v_previous
+    FROM deal_conflicts dc
+    WHERE dc.id = p_conflict_id
+    OR (dc.deal_id = v_conflict.competing_deal_id
+        AND dc.competing_deal_id = v_conflict.deal_id
+        AND dc.conflict_type = v_conflict.conflict_type
+        AND dc.resolution_status <> 'resolved');
+
+    WITH updated AS (
+        UPDATE deal_conflicts dc SET
+            resolution_status = p_status,
+            resolved_by = CASE WHEN p_status = 'dismissed' THEN p_updated_by END,
+            resolved_at = CASE WHEN p_status = 'dismissed' THEN NOW() END,
+            updated_by = p_updated_by
+        WHERE dc.id = p_conflict_id
+        OR (dc.deal_id = v_conflict.competing_deal_id
+            AND dc.competing_deal_id = v_conflict.deal_id
+            AND dc.conflict_type = v_conflict.conflict_type
+            AND dc.resolution_status <> 'resolved')
+        RETURNING dc.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(updated)), '[]'::JSONB) INTO v_updated FROM updated;
+
+    RETURN jsonb_build_object(
+        'conflicts', v_updated,
+        'previous_conflicts', v_previous
+    );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,13 @@
+-- Open conflict counts per assignee in the database
+-- Automatic assignment counted each staff member's open conflicts by fetching every pending
+-- assigned conflict, which the API's row limit cuts short on a large backlog.
+
+-- Pending conflicts per assignee, the load the least_loaded assignment strategy balances
+CREATE OR REPLACE FUNCTION count_open_conflicts_per_staff()
+RETURNS TABLE (staff_id UUID, conflict_count BIGINT) AS $$
+    SELECT dc.assigned_to_staff, COUNT(*)
+    FROM deal_conflicts dc
+    WHERE dc.resolution_status = 'pending'
+    AND dc.assigned_to_staff IS NOT NULL
+    GROUP BY dc.assigned_to_staff;
+$$ LANGUAGE sql STABLE;
@@ -8,10 +8,14 @@ CREATE EXTENSION IF NOT EXISTS "pg_trgm";
 -- Create custom types
 CREATE TYPE reseller_tier AS ENUM ('gold', 'silver', 'bronze');
 CREATE TYPE user_status AS ENUM ('active', 'inactive');
-CREATE TYPE deal_status AS ENUM ('pending', 'assigned', 'disputed', 'approved', 'rejected');
-CREATE TYPE conflict_type AS ENUM ('duplicate_end_user', 'territory_overlap', 'timing_conflict');
+CREATE TYPE deal_status AS ENUM ('pending', 'assigned', 'disputed', 'approved', 'rejected', 'expired', 'withdrawn');
+CREATE TYPE conflict_type AS ENUM ('duplicate_end_user', 'territory_overlap', 'timing_conflict', 'product_overlap');
+CREATE TYPE conflict_severity AS ENUM ('low', 'medium', 'high'); -- declared in ascending order so it sorts by severity
 CREATE TYPE resolution_status AS ENUM ('pending', 'resolved', 'dismissed');
+CREATE TYPE auto_resolution_policy AS ENUM ('first_registration', 'higher_tier', 'incumbent_reseller');
+CREATE TYPE resolution_reason AS ENUM ('first_to_register', 'existing_relationship', 'territory_ownership', 'partner_tier', 'customer_preference', 'duplicate_submission', 'other');
 CREATE TYPE staff_role AS ENUM ('admin', 'manager', 'staff');
+CREATE TYPE rescan_job_status AS ENUM ('running', 'completed', 'failed');
 
 -- Staff Users table (for authentication and role management)
 CREATE TABLE staff_users (
@@ -19,16 +23,35 @@ CREATE TABLE staff_users (
     email TEXT UNIQUE NOT NULL,
     name TEXT NOT NULL,
     role staff_role DEFAULT 'staff',
+    last_conflict_assigned_at TIMESTAMP WITH TIME ZONE, -- round-robin cursor for conflict assignment
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Territories table (hierarchy, e.g. Global > North America > Northeast US)
+CREATE TABLE territories (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    parent_id UUID REFERENCES territories(id) ON DELETE RESTRICT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Staff Territories table (territories a staff member handles conflicts for, including their children)
+CREATE TABLE staff_territories (
+    staff_id UUID NOT NULL REFERENCES staff_users(id) ON DELETE CASCADE,
+    territory_id UUID NOT NULL REFERENCES territories(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (staff_id, territory_id)
+);
+
 -- Resellers table
 CREATE TABLE resellers (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     name TEXT NOT NULL,
     email TEXT UNIQUE NOT NULL,
-    territory TEXT NOT NULL,
+    territory TEXT NOT NULL, -- name of territory_id, kept in sync by trigger
+    territory_id UUID REFERENCES territories(id) ON DELETE RESTRICT,
     tier reseller_tier DEFAULT 'bronze',
     status user_status DEFAULT 'active',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -39,9 +62,11 @@ CREATE TABLE resellers (
 CREATE TABLE end_users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     company_name TEXT NOT NULL,
+    normalized_company_name TEXT NOT NULL, -- normalizeCompanyName() of company_name, written by the application
     contact_name TEXT NOT NULL,
     contact_email TEXT NOT NULL,
-    territory TEXT NOT NULL,
+    territory TEXT NOT NULL, -- name of territory_id, kept in sync by trigger
+    territory_id UUID REFERENCES territories(id) ON DELETE RESTRICT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -66,6 +91,9 @@ CREATE TABLE deals (
     total_value DECIMAL(12,2) NOT NULL CHECK (total_value > 0),
     submission_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     assignment_date TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE, -- end of the protection period, set on approval
+    resubmission_of UUID REFERENCES deals(id) ON DELETE SET NULL, -- earlier revision this deal re-submits
+    eligibility_flags JSONB NOT NULL DEFAULT '[]', -- [{rule_id, rule_name, rule_type, action, reason}] from flag rules
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -87,11 +115,23 @@ CREATE TABLE deal_conflicts (
     deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
     competing_deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
     conflict_type conflict_type NOT NULL,
+    severity conflict_severity,
+    similarity_score DECIMAL(5,4),
+    reason TEXT,
     resolution_status resolution_status DEFAULT 'pending',
+    winning_deal_id UUID REFERENCES deals(id) ON DELETE SET NULL,
+    losing_deal_status deal_status,
+    resolution_reason resolution_reason,
+    resolution_rationale TEXT,
+    resolved_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    auto_resolution_policy auto_resolution_policy, -- set when a tie-break policy resolved the conflict
     assigned_to_staff UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    CHECK (deal_id != competing_deal_id)
+    CHECK (deal_id != competing_deal_id),
+    CHECK (winning_deal_id IS NULL OR winning_deal_id IN (deal_id, competing_deal_id))
 );
 
 -- Assignment History table (audit trail)
@@ -105,6 +145,95 @@ CREATE TABLE assignment_history (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Deal Status History table (audit trail of lifecycle transitions)
+CREATE TABLE deal_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+    from_status deal_status,
+    to_status deal_status NOT NULL,
+    reason TEXT,
+    changed_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Audit Events table (every mutating action, with before/after snapshots)
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor_id UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    entity_type TEXT NOT NULL, -- 'deal', 'conflict', 'reseller', 'end_user', 'product', 'eligibility_rule', 'setting', 'territory', 'conflict_rescan_job', 'staff_user', 'conflict_comment', 'end_user_merge'
+    entity_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    before JSONB,
+    after JSONB,
+    changes JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- System Settings table (runtime configuration, one JSON value per key)
+CREATE TABLE system_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- System Setting Versions table (every value a setting has held)
+CREATE TABLE system_setting_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    key TEXT REFERENCES system_settings(key) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    value JSONB NOT NULL,
+    updated_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(key, version)
+);
+
+-- Conflict Comments table (internal notes on a conflict; replies hang off a top-level comment)
+CREATE TABLE conflict_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conflict_id UUID NOT NULL REFERENCES deal_conflicts(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES conflict_comments(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    mentions UUID[] NOT NULL DEFAULT '{}', -- staff_users mentioned with @handle
+    edited_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (parent_id IS NULL OR parent_id != id)
+);
+
+-- Conflict Rescan Jobs table (admin-triggered re-evaluation of open deals, run in batches)
+CREATE TABLE conflict_rescan_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    status rescan_job_status DEFAULT 'running',
+    total_deals INTEGER NOT NULL DEFAULT 0,
+    processed_deals INTEGER NOT NULL DEFAULT 0,
+    last_deal_id UUID, -- deals are walked in id order; the last one scanned
+    new_conflicts INTEGER NOT NULL DEFAULT 0,
+    unchanged_conflicts INTEGER NOT NULL DEFAULT 0,
+    stale_conflicts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- End User Merges table (duplicate end users folded into a survivor; snapshots allow undo)
+CREATE TABLE end_user_merges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    survivor_id UUID NOT NULL REFERENCES end_users(id) ON DELETE RESTRICT,
+    survivor_before JSONB NOT NULL, -- survivor row before merged field values were applied
+    merged_end_users JSONB NOT NULL, -- rows of the absorbed end users, deleted by the merge
+    moved_deals JSONB NOT NULL DEFAULT '[]', -- [{deal_id, end_user_id}] re-pointed to the survivor
+    merged_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    undone_at TIMESTAMP WITH TIME ZONE,
+    undone_by UUID REFERENCES staff_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Eligibility Rules table (configurable business rules)
 CREATE TABLE eligibility_rules (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -118,32 +247,64 @@ CREATE TABLE eligibility_rules (
 );
 
 -- Create indexes for performance
+CREATE UNIQUE INDEX idx_territories_name ON territories(lower(name));
+CREATE INDEX idx_territories_parent_id ON territories(parent_id);
+CREATE INDEX idx_staff_territories_territory_id ON staff_territories(territory_id);
+
 CREATE INDEX idx_resellers_territory ON resellers(territory);
+CREATE INDEX idx_resellers_territory_id ON resellers(territory_id);
 CREATE INDEX idx_resellers_tier ON resellers(tier);
 CREATE INDEX idx_resellers_status ON resellers(status);
 
 CREATE INDEX idx_end_users_company_name ON end_users(company_name);
 CREATE INDEX idx_end_users_territory ON end_users(territory);
+CREATE INDEX idx_end_users_territory_id ON end_users(territory_id);
 CREATE INDEX idx_end_users_contact_email ON end_users(contact_email);
+CREATE INDEX idx_end_users_email_domain ON end_users(lower(split_part(contact_email, '@', 2)));
 
 CREATE INDEX idx_deals_reseller_id ON deals(reseller_id);
 CREATE INDEX idx_deals_end_user_id ON deals(end_user_id);
 CREATE INDEX idx_deals_assigned_reseller_id ON deals(assigned_reseller_id);
 CREATE INDEX idx_deals_status ON deals(status);
 CREATE INDEX idx_deals_submission_date ON deals(submission_date);
+CREATE INDEX idx_deals_expires_at ON deals(expires_at) WHERE status = 'approved';
 CREATE INDEX idx_deals_total_value ON deals(total_value);
+CREATE INDEX idx_deals_resubmission_of ON deals(resubmission_of);
 
 CREATE INDEX idx_deal_products_deal_id ON deal_products(deal_id);
 CREATE INDEX idx_deal_products_product_id ON deal_products(product_id);
 
+CREATE INDEX idx_deal_status_history_deal_id ON deal_status_history(deal_id);
+
+CREATE INDEX idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX idx_audit_events_actor_id ON audit_events(actor_id);
+CREATE INDEX idx_audit_events_created_at ON audit_events(created_at);
+
+CREATE INDEX idx_system_setting_versions_key ON system_setting_versions(key);
+
+-- Only one rescan job can run at a time
+CREATE UNIQUE INDEX idx_conflict_rescan_jobs_running ON conflict_rescan_jobs((status)) WHERE status = 'running';
+CREATE INDEX idx_conflict_rescan_jobs_created_at ON conflict_rescan_jobs(created_at);
+
+-- A pair is recorded once per direction and conflict type, so overlapping re-scan steps can't duplicate it
+CREATE UNIQUE INDEX idx_deal_conflicts_pair ON deal_conflicts(deal_id, competing_deal_id, conflict_type);
 CREATE INDEX idx_deal_conflicts_deal_id ON deal_conflicts(deal_id);
 CREATE INDEX idx_deal_conflicts_competing_deal_id ON deal_conflicts(competing_deal_id);
+CREATE INDEX idx_deal_conflicts_severity ON deal_conflicts(severity);
 CREATE INDEX idx_deal_conflicts_resolution_status ON deal_conflicts(resolution_status);
 CREATE INDEX idx_deal_conflicts_conflict_type ON deal_conflicts(conflict_type);
+CREATE INDEX idx_deal_conflicts_assigned_to_staff ON deal_conflicts(assigned_to_staff);
+
+CREATE INDEX idx_conflict_comments_conflict_id ON conflict_comments(conflict_id, created_at);
+CREATE INDEX idx_conflict_comments_mentions ON conflict_comments USING gin(mentions);
+
+CREATE INDEX idx_end_user_merges_survivor_id ON end_user_merges(survivor_id);
+CREATE INDEX idx_end_user_merges_created_at ON end_user_merges(created_at);
 
 -- Full-text search indexes
 CREATE INDEX idx_resellers_name_gin ON resellers USING gin(name gin_trgm_ops);
 CREATE INDEX idx_end_users_company_name_gin ON end_users USING gin(company_name gin_trgm_ops);
+CREATE INDEX idx_end_users_normalized_company_name_gin ON end_users USING gin(normalized_company_name gin_trgm_ops);
 CREATE INDEX idx_products_name_gin ON products USING gin(name gin_trgm_ops);
 
 -- Create updated_at trigger function
@@ -156,6 +317,7 @@ END;
 $$ language 'plpgsql';
 
 -- Apply updated_at triggers to all tables
+CREATE TRIGGER update_territories_updated_at BEFORE UPDATE ON territories FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_staff_users_updated_at BEFORE UPDATE ON staff_users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_resellers_updated_at BEFORE UPDATE ON resellers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_end_users_updated_at BEFORE UPDATE ON end_users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -163,6 +325,112 @@ CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products FOR EACH ROW
 CREATE TRIGGER update_deals_updated_at BEFORE UPDATE ON deals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_deal_conflicts_updated_at BEFORE UPDATE ON deal_conflicts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_eligibility_rules_updated_at BEFORE UPDATE ON eligibility_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_system_settings_updated_at BEFORE UPDATE ON system_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_conflict_rescan_jobs_updated_at BEFORE UPDATE ON conflict_rescan_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_conflict_comments_updated_at BEFORE UPDATE ON conflict_comments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A territory can't be moved beneath itself or one of its descendants
+CREATE OR REPLACE FUNCTION prevent_territory_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL AND EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM territories WHERE id = NEW.parent_id
+            UNION
+            SELECT t.id, t.parent_id FROM territories t JOIN ancestors a ON t.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'Territory "%" cannot be placed beneath itself', NEW.name
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_territories_cycle BEFORE INSERT OR UPDATE OF parent_id ON territories FOR EACH ROW EXECUTE FUNCTION prevent_territory_cycle();
+
+-- Resellers and end users reference a territory and carry its name in the territory column.
+-- Writes may set either: an id fills in the name, a name is resolved to its territory.
+CREATE OR REPLACE FUNCTION sync_territory_reference()
+RETURNS TRIGGER AS $$
+DECLARE
+    resolved territories%ROWTYPE;
+BEGIN
+    IF NEW.territory_id IS NOT NULL
+       AND (TG_OP = 'INSERT' OR NEW.territory_id IS DISTINCT FROM OLD.territory_id) THEN
+        SELECT * INTO resolved FROM territories WHERE id = NEW.territory_id;
+    ELSE
+        SELECT * INTO resolved FROM territories WHERE lower(name) = lower(trim(NEW.territory));
+    END IF;
+
+    IF resolved.id IS NULL THEN
+        RAISE EXCEPTION 'Unknown territory: %', COALESCE(NEW.territory_id::TEXT, NEW.territory)
+            USING ERRCODE = 'foreign_key_violation';
+    END IF;
+
+    NEW.territory_id = resolved.id;
+    NEW.territory = resolved.name;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_resellers_territory BEFORE INSERT OR UPDATE ON resellers FOR EACH ROW EXECUTE FUNCTION sync_territory_reference();
+CREATE TRIGGER sync_end_users_territory BEFORE INSERT OR UPDATE ON end_users FOR EACH ROW EXECUTE FUNCTION sync_territory_reference();
+
+-- Company names are normalized in the application (legal forms, stopwords and diacritics are
+-- handled in src/lib/company-names.ts). Writes that don't supply the normalized name, or
+-- change the company name without it, get a lowercased copy until the application refreshes it.
+CREATE OR REPLACE FUNCTION default_normalized_company_name()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.normalized_company_name IS NULL
+       OR (TG_OP = 'UPDATE'
+           AND NEW.company_name IS DISTINCT FROM OLD.company_name
+           AND NEW.normalized_company_name IS NOT DISTINCT FROM OLD.normalized_company_name) THEN
+        NEW.normalized_company_name = lower(trim(NEW.company_name));
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER default_end_users_normalized_company_name BEFORE INSERT OR UPDATE ON end_users FOR EACH ROW EXECUTE FUNCTION default_normalized_company_name();
+
+-- Renaming a territory renames it on every reseller and end user that references it
+CREATE OR REPLACE FUNCTION propagate_territory_rename()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE resellers SET territory = NEW.name WHERE territory_id = NEW.id;
+    UPDATE end_users SET territory = NEW.name WHERE territory_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER propagate_territories_rename AFTER UPDATE OF name ON territories FOR EACH ROW
+    WHEN (OLD.name IS DISTINCT FROM NEW.name) EXECUTE FUNCTION propagate_territory_rename();
+
+-- Settings are versioned: each update bumps the version and keeps a copy of the new value
+CREATE OR REPLACE FUNCTION version_system_setting()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        NEW.version = OLD.version + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_system_setting_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO system_setting_versions (key, version, value, updated_by)
+    VALUES (NEW.key, NEW.version, NEW.value, NEW.updated_by);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER version_system_settings BEFORE UPDATE ON system_settings FOR EACH ROW EXECUTE FUNCTION version_system_setting();
+CREATE TRIGGER record_system_settings_version AFTER INSERT OR UPDATE ON system_settings FOR EACH ROW EXECUTE FUNCTION record_system_setting_version();
 
 -- Function to calculate deal total value from products
 CREATE OR REPLACE FUNCTION calculate_deal_total(deal_uuid UUID)
@@ -195,52 +463,667 @@ CREATE TRIGGER update_deal_total_on_products_change
     AFTER INSERT OR UPDATE OR DELETE ON deal_products
     FOR EACH ROW EXECUTE FUNCTION update_deal_total();
 
--- Function to detect potential conflicts
-CREATE OR REPLACE FUNCTION detect_deal_conflicts(new_deal_id UUID)
-RETURNS TABLE(
-    conflicting_deal_id UUID,
-    conflict_type_detected conflict_type,
-    similarity_score DECIMAL
-) AS $$
+-- Atomic deal submission: end user upsert, deal, line items and conflict rows
+-- are written in a single transaction so a failure never leaves partial data behind
+CREATE OR REPLACE FUNCTION create_deal_submission(
+    p_reseller_id UUID,
+    p_end_user JSONB,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL,
+    p_resubmission_of UUID DEFAULT NULL,
+    p_eligibility_flags JSONB DEFAULT '[]'::JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    v_end_user_id UUID;
+    v_deal_id UUID;
 BEGIN
-    -- Detect duplicate end user conflicts
-    RETURN QUERY
-    SELECT 
-        d.id as conflicting_deal_id,
-        'duplicate_end_user'::conflict_type as conflict_type_detected,
-        similarity(eu1.company_name, eu2.company_name) as similarity_score
+    INSERT INTO end_users (id, company_name, normalized_company_name, contact_name, contact_email, territory)
+    VALUES (
+        COALESCE((p_end_user->>'id')::UUID, uuid_generate_v4()),
+        p_end_user->>'company_name',
+        p_end_user->>'normalized_company_name',
+        p_end_user->>'contact_name',
+        p_end_user->>'contact_email',
+        p_end_user->>'territory'
+    )
+    ON CONFLICT (id) DO UPDATE SET
+        company_name = EXCLUDED.company_name,
+        normalized_company_name = EXCLUDED.normalized_company_name,
+        contact_name = EXCLUDED.contact_name,
+        contact_email = EXCLUDED.contact_email,
+        territory = EXCLUDED.territory
+    RETURNING id INTO v_end_user_id;
+
+    INSERT INTO deals (reseller_id, end_user_id, total_value, status, resubmission_of, eligibility_flags)
+    SELECT p_reseller_id, v_end_user_id, SUM(p.quantity * p.price), p_status, p_resubmission_of, p_eligibility_flags
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL)
+    RETURNING id INTO v_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT v_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT v_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    );
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (v_deal_id, NULL, p_status, 'Deal submitted', p_changed_by);
+
+    RETURN v_deal_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomic line item edit: replaces the deal's products, its pending conflicts and its
+-- eligibility flags. Pairs that were already resolved or dismissed are not re-opened.
+-- Pending conflicts that are still detected keep their row, and with it their notes and
+-- assignee; a cleared conflict that staff have written notes on is dismissed instead of
+-- deleted. The deal moves to p_status (pending or disputed, as the edited conflicts call for)
+-- in the same transaction, with its status history row.
+CREATE OR REPLACE FUNCTION replace_deal_products(
+    p_deal_id UUID,
+    p_products JSONB,
+    p_conflicts JSONB DEFAULT '[]'::JSONB,
+    p_eligibility_flags JSONB DEFAULT '[]'::JSONB,
+    p_status deal_status DEFAULT 'pending',
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_from deal_status;
+BEGIN
+    IF p_status NOT IN ('pending', 'disputed') THEN
+        RAISE EXCEPTION 'An edited deal can only be pending or disputed';
+    END IF;
+
+    -- The lock keeps a decision from landing between the caller's status check and the edit
+    SELECT status INTO v_from FROM deals WHERE id = p_deal_id AND status IN ('pending', 'disputed') FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deal can no longer be edited';
+    END IF;
+
+    DELETE FROM deal_products WHERE deal_id = p_deal_id;
+
+    INSERT INTO deal_products (deal_id, product_id, quantity, price)
+    SELECT p_deal_id, p.product_id, p.quantity, p.price
+    FROM jsonb_to_recordset(p_products) AS p(product_id UUID, quantity INTEGER, price DECIMAL);
+
+    UPDATE deal_conflicts dc
+    SET severity = c.severity, similarity_score = c.similarity_score, reason = c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND dc.competing_deal_id = c.competing_deal_id
+    AND dc.conflict_type = c.conflict_type;
+
+    UPDATE deal_conflicts dc
+    SET resolution_status = 'dismissed', updated_by = p_changed_by
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND EXISTS (SELECT 1 FROM conflict_comments cc WHERE cc.conflict_id = dc.id)
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    DELETE FROM deal_conflicts dc
+    WHERE dc.deal_id = p_deal_id
+    AND dc.resolution_status = 'pending'
+    AND NOT EXISTS (
+        SELECT 1 FROM jsonb_to_recordset(p_conflicts) AS c(competing_deal_id UUID, conflict_type conflict_type)
+        WHERE c.competing_deal_id = dc.competing_deal_id AND c.conflict_type = dc.conflict_type
+    );
+
+    INSERT INTO deal_conflicts (deal_id, competing_deal_id, conflict_type, severity, similarity_score, reason)
+    SELECT p_deal_id, c.competing_deal_id, c.conflict_type, c.severity, c.similarity_score, c.reason
+    FROM jsonb_to_recordset(p_conflicts) AS c(
+        competing_deal_id UUID, conflict_type conflict_type, severity conflict_severity, similarity_score DECIMAL, reason TEXT
+    )
+    WHERE c.competing_deal_id <> p_deal_id
+    ON CONFLICT (deal_id, competing_deal_id, conflict_type) DO NOTHING;
+
+    UPDATE deals SET eligibility_flags = p_eligibility_flags WHERE id = p_deal_id;
+
+    IF v_from <> p_status THEN
+        UPDATE deals SET status = p_status WHERE id = p_deal_id;
+
+        INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+        VALUES (p_deal_id, v_from, p_status, 'Line items edited', p_changed_by);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomic conflict resolution: assigns the winner to its own reseller when p_assign_winner
+-- is set, moves the loser to p_losing_deal_status, and closes every pending conflict
+-- between the two deals, whichever side each row was recorded from. The caller checks the
+-- status transitions against the statuses it read (p_winner_from, p_loser_from); if either
+-- deal has moved on since, nothing is written. Returns the resolved conflicts, their prior
+-- rows and the before/after rows of any deal that changed.
+CREATE OR REPLACE FUNCTION resolve_deal_conflict(
+    p_conflict_id UUID,
+    p_winning_deal_id UUID,
+    p_winner_from deal_status,
+    p_loser_from deal_status,
+    p_assign_winner BOOLEAN,
+    p_losing_deal_status deal_status,
+    p_reason_code resolution_reason,
+    p_rationale TEXT,
+    p_winner_reason TEXT,
+    p_loser_reason TEXT,
+    p_resolved_by UUID DEFAULT NULL,
+    p_auto_resolution_policy auto_resolution_policy DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_conflict deal_conflicts%ROWTYPE;
+    v_losing_deal_id UUID;
+    v_winner_before deals%ROWTYPE;
+    v_loser_before deals%ROWTYPE;
+    v_winner JSONB;
+    v_loser JSONB;
+    v_previous JSONB;
+    v_resolved JSONB;
+BEGIN
+    SELECT * INTO v_conflict FROM deal_conflicts WHERE id = p_conflict_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conflict not found';
+    END IF;
+
+    IF v_conflict.resolution_status <> 'pending' THEN
+        RAISE EXCEPTION 'Conflict is already %', v_conflict.resolution_status;
+    END IF;
+
+    IF p_winning_deal_id NOT IN (v_conflict.deal_id, v_conflict.competing_deal_id) THEN
+        RAISE EXCEPTION 'The winning deal must be one of the two deals in the conflict';
+    END IF;
+
+    v_losing_deal_id = CASE WHEN v_conflict.deal_id = p_winning_deal_id
+        THEN v_conflict.competing_deal_id ELSE v_conflict.deal_id END;
+
+    SELECT * INTO v_winner_before FROM deals WHERE id = p_winning_deal_id FOR UPDATE;
+    SELECT * INTO v_loser_before FROM deals WHERE id = v_losing_deal_id FOR UPDATE;
+
+    IF v_winner_before.status <> p_winner_from OR v_loser_before.status <> p_loser_from THEN
+        RAISE EXCEPTION 'Deal status was changed by another request';
+    END IF;
+
+    IF p_assign_winner THEN
+        UPDATE deals SET
+            status = 'assigned',
+            assigned_reseller_id = reseller_id,
+            assignment_date = NOW()
+        WHERE id = p_winning_deal_id;
+
+        INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+        VALUES (p_winning_deal_id, v_winner_before.status, 'assigned', p_winner_reason, p_resolved_by);
+
+        INSERT INTO assignment_history (deal_id, old_reseller_id, new_reseller_id, assigned_by, reason)
+        VALUES (
+            p_winning_deal_id,
+            v_winner_before.assigned_reseller_id,
+            v_winner_before.reseller_id,
+            p_resolved_by,
+            'Conflict resolution: ' || p_rationale
+        );
+
+        SELECT jsonb_build_object('previous', to_jsonb(v_winner_before), 'deal', to_jsonb(d))
+        INTO v_winner FROM deals d WHERE d.id = p_winning_deal_id;
+    END IF;
+
+    IF v_loser_before.status <> p_losing_deal_status THEN
+        UPDATE deals SET status = p_losing_deal_status WHERE id = v_losing_deal_id;
+
+        INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+        VALUES (v_losing_deal_id, v_loser_before.status, p_losing_deal_status, p_loser_reason, p_resolved_by);
+
+        SELECT jsonb_build_object('previous', to_jsonb(v_loser_before), 'deal', to_jsonb(d))
+        INTO v_loser FROM deals d WHERE d.id = v_losing_deal_id;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(dc)), '[]'::JSONB) INTO v_previous
+    FROM deal_conflicts dc
+    WHERE dc.resolution_status = 'pending'
+    AND ((dc.deal_id = p_winning_deal_id AND dc.competing_deal_id = v_losing_deal_id)
+        OR (dc.deal_id = v_losing_deal_id AND dc.competing_deal_id = p_winning_deal_id));
+
+    WITH resolved AS (
+        UPDATE deal_conflicts dc SET
+            resolution_status = 'resolved',
+            winning_deal_id = p_winning_deal_id,
+            losing_deal_status = p_losing_deal_status,
+            resolution_reason = p_reason_code,
+            resolution_rationale = p_rationale,
+            resolved_by = p_resolved_by,
+            resolved_at = NOW(),
+            auto_resolution_policy = p_auto_resolution_policy,
+            updated_by = p_resolved_by
+        WHERE dc.resolution_status = 'pending'
+        AND ((dc.deal_id = p_winning_deal_id AND dc.competing_deal_id = v_losing_deal_id)
+            OR (dc.deal_id = v_losing_deal_id AND dc.competing_deal_id = p_winning_deal_id))
+        RETURNING dc.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(resolved)), '[]'::JSONB) INTO v_resolved FROM resolved;
+
+    RETURN jsonb_build_object(
+        'conflicts', v_resolved,
+        'previous_conflicts', v_previous,
+        'winner', v_winner,
+        'loser', v_loser
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Dismisses or re-opens a conflict together with its mirror row (the same pair and type
+-- recorded from the competing deal's side), so both deals show the same state. Resolved
+-- rows are never changed here. Returns the changed rows, before and after.
+CREATE OR REPLACE FUNCTION set_conflict_status(
+    p_conflict_id UUID,
+    p_status resolution_status,
+    p_updated_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_conflict deal_conflicts%ROWTYPE;
+    v_previous JSONB;
+    v_updated JSONB;
+BEGIN
+    IF p_status = 'resolved' THEN
+        RAISE EXCEPTION 'Conflicts are resolved through resolve_deal_conflict';
+    END IF;
+
+    SELECT * INTO v_conflict FROM deal_conflicts WHERE id = p_conflict_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Conflict not found';
+    END IF;
+
+    IF v_conflict.resolution_status = 'resolved' THEN
+        RAISE EXCEPTION 'A resolved conflict cannot be re-opened or dismissed';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(dc)), '[]'::JSONB) INTO v_previous
+    FROM deal_conflicts dc
+    WHERE dc.id = p_conflict_id
+    OR (dc.deal_id = v_conflict.competing_deal_id
+        AND dc.competing_deal_id = v_conflict.deal_id
+        AND dc.conflict_type = v_conflict.conflict_type
+        AND dc.resolution_status <> 'resolved');
+
+    WITH updated AS (
+        UPDATE deal_conflicts dc SET
+            resolution_status = p_status,
+            resolved_by = CASE WHEN p_status = 'dismissed' THEN p_updated_by END,
+            resolved_at = CASE WHEN p_status = 'dismissed' THEN NOW() END,
+            updated_by = p_updated_by
+        WHERE dc.id = p_conflict_id
+        OR (dc.deal_id = v_conflict.competing_deal_id
+            AND dc.competing_deal_id = v_conflict.deal_id
+            AND dc.conflict_type = v_conflict.conflict_type
+            AND dc.resolution_status <> 'resolved')
+        RETURNING dc.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(updated)), '[]'::JSONB) INTO v_updated FROM updated;
+
+    RETURN jsonb_build_object(
+        'conflicts', v_updated,
+        'previous_conflicts', v_previous
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Withdraws an undecided deal. The deal is kept, with its conflicts and their discussion,
+-- so nothing recorded about it is lost; its pending conflicts are dismissed since there is
+-- nothing left to decide. Returns the deal and its dismissed conflicts, before and after.
+CREATE OR REPLACE FUNCTION withdraw_deal(
+    p_deal_id UUID,
+    p_reason TEXT,
+    p_changed_by UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_before deals%ROWTYPE;
+    v_deal JSONB;
+    v_previous JSONB;
+    v_dismissed JSONB;
+BEGIN
+    SELECT * INTO v_before FROM deals WHERE id = p_deal_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deal not found';
+    END IF;
+
+    IF v_before.status NOT IN ('pending', 'disputed') THEN
+        RAISE EXCEPTION 'Deals in % status can no longer be withdrawn', v_before.status;
+    END IF;
+
+    UPDATE deals SET status = 'withdrawn' WHERE id = p_deal_id
+    RETURNING to_jsonb(deals.*) INTO v_deal;
+
+    INSERT INTO deal_status_history (deal_id, from_status, to_status, reason, changed_by)
+    VALUES (p_deal_id, v_before.status, 'withdrawn', p_reason, p_changed_by);
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(dc)), '[]'::JSONB) INTO v_previous
+    FROM deal_conflicts dc
+    WHERE dc.resolution_status = 'pending'
+    AND (dc.deal_id = p_deal_id OR dc.competing_deal_id = p_deal_id);
+
+    WITH dismissed AS (
+        UPDATE deal_conflicts dc SET
+            resolution_status = 'dismissed',
+            resolution_rationale = p_reason,
+            resolved_by = p_changed_by,
+            resolved_at = NOW(),
+            updated_by = p_changed_by
+        WHERE dc.resolution_status = 'pending'
+        AND (dc.deal_id = p_deal_id OR dc.competing_deal_id = p_deal_id)
+        RETURNING dc.*
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(dismissed)), '[]'::JSONB) INTO v_dismissed FROM dismissed;
+
+    RETURN jsonb_build_object(
+        'previous', to_jsonb(v_before),
+        'deal', v_deal,
+        'conflicts', v_dismissed,
+        'previous_conflicts', v_previous
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Folds duplicate end users into a survivor: their deals are re-pointed, the survivor takes
+-- any field values chosen from the duplicates, and the duplicates are deleted. Everything
+-- the merge changes is snapshotted in end_user_merges so undo_end_user_merge can reverse it.
+CREATE OR REPLACE FUNCTION merge_end_users(
+    p_survivor_id UUID,
+    p_merged_ids UUID[],
+    p_values JSONB DEFAULT '{}'::JSONB,
+    p_merged_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_survivor end_users%ROWTYPE;
+    v_merge_id UUID;
+BEGIN
+    SELECT * INTO v_survivor FROM end_users WHERE id = p_survivor_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Surviving end user not found';
+    END IF;
+
+    IF p_survivor_id = ANY(p_merged_ids) THEN
+        RAISE EXCEPTION 'An end user cannot be merged into itself';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM end_users WHERE id = ANY(p_merged_ids)) <> cardinality(p_merged_ids) THEN
+        RAISE EXCEPTION 'One or more end users to merge no longer exist';
+    END IF;
+
+    INSERT INTO end_user_merges (survivor_id, survivor_before, merged_end_users, moved_deals, merged_by)
+    VALUES (
+        p_survivor_id,
+        to_jsonb(v_survivor),
+        (SELECT jsonb_agg(to_jsonb(eu)) FROM end_users eu WHERE eu.id = ANY(p_merged_ids)),
+        (SELECT COALESCE(jsonb_agg(jsonb_build_object('deal_id', d.id, 'end_user_id', d.end_user_id)), '[]'::JSONB)
+         FROM deals d WHERE d.end_user_id = ANY(p_merged_ids)),
+        p_merged_by
+    )
+    RETURNING id INTO v_merge_id;
+
+    UPDATE deals SET end_user_id = p_survivor_id WHERE end_user_id = ANY(p_merged_ids);
+
+    UPDATE end_users SET
+        company_name = COALESCE(p_values->>'company_name', company_name),
+        normalized_company_name = COALESCE(p_values->>'normalized_company_name', normalized_company_name),
+        contact_name = COALESCE(p_values->>'contact_name', contact_name),
+        contact_email = COALESCE(p_values->>'contact_email', contact_email),
+        territory = COALESCE(p_values->>'territory', territory)
+    WHERE id = p_survivor_id;
+
+    DELETE FROM end_users WHERE id = ANY(p_merged_ids);
+
+    RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reverses a merge: the absorbed end users come back with their original ids, their deals
+-- are pointed back at them and the survivor's fields are restored. Only a survivor's latest
+-- merge can be undone, and only while the survivor still exists.
+CREATE OR REPLACE FUNCTION undo_end_user_merge(
+    p_merge_id UUID,
+    p_undone_by UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_merge end_user_merges%ROWTYPE;
+BEGIN
+    SELECT * INTO v_merge FROM end_user_merges WHERE id = p_merge_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Merge not found';
+    END IF;
+
+    IF v_merge.undone_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This merge has already been undone';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM end_users WHERE id = v_merge.survivor_id) THEN
+        RAISE EXCEPTION 'The surviving end user has since been merged away; undo that merge first';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM end_user_merges
+        WHERE survivor_id = v_merge.survivor_id
+        AND undone_at IS NULL
+        AND created_at > v_merge.created_at
+    ) THEN
+        RAISE EXCEPTION 'A later merge into the same end user must be undone first';
+    END IF;
+
+    INSERT INTO end_users
+    SELECT * FROM jsonb_populate_recordset(NULL::end_users, v_merge.merged_end_users);
+
+    UPDATE deals d SET end_user_id = m.end_user_id
+    FROM jsonb_to_recordset(v_merge.moved_deals) AS m(deal_id UUID, end_user_id UUID)
+    WHERE d.id = m.deal_id AND d.end_user_id = v_merge.survivor_id;
+
+    UPDATE end_users SET
+        company_name = v_merge.survivor_before->>'company_name',
+        normalized_company_name = v_merge.survivor_before->>'normalized_company_name',
+        contact_name = v_merge.survivor_before->>'contact_name',
+        contact_email = v_merge.survivor_before->>'contact_email',
+        territory = v_merge.survivor_before->>'territory',
+        territory_id = (v_merge.survivor_before->>'territory_id')::UUID
+    WHERE id = v_merge.survivor_id;
+
+    UPDATE end_user_merges SET undone_at = NOW(), undone_by = p_undone_by WHERE id = p_merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pending conflicts per assignee, the load the least_loaded assignment strategy balances
+CREATE OR REPLACE FUNCTION count_open_conflicts_per_staff()
+RETURNS TABLE (staff_id UUID, conflict_count BIGINT) AS $$
+    SELECT dc.assigned_to_staff, COUNT(*)
+    FROM deal_conflicts dc
+    WHERE dc.resolution_status = 'pending'
+    AND dc.assigned_to_staff IS NOT NULL
+    GROUP BY dc.assigned_to_staff;
+$$ LANGUAGE sql STABLE;
+
+-- Deals per end user for the duplicate review. The ids travel in the request body, so
+-- any number of end users can be counted in one call.
+CREATE OR REPLACE FUNCTION count_end_user_deals(p_end_user_ids UUID[])
+RETURNS TABLE (end_user_id UUID, deal_count BIGINT) AS $$
+    SELECT d.end_user_id, COUNT(*)
     FROM deals d
-    JOIN end_users eu1 ON d.end_user_id = eu1.id
-    JOIN deals new_deal ON new_deal.id = new_deal_id
-    JOIN end_users eu2 ON new_deal.end_user_id = eu2.id
-    WHERE d.id != new_deal_id
-    AND d.status NOT IN ('rejected')
-    AND similarity(eu1.company_name, eu2.company_name) > 0.7
-    AND d.submission_date > (new_deal.submission_date - INTERVAL '90 days');
-    
-    -- Detect territory overlap conflicts
+    WHERE d.end_user_id = ANY(p_end_user_ids)
+    GROUP BY d.end_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- Every revision of a deal: the deal itself plus the deals linked to it through
+-- resubmission_of in either direction, however long the chain
+CREATE OR REPLACE FUNCTION deal_revision_ids(p_deal_id UUID)
+RETURNS SETOF UUID AS $$
+    WITH RECURSIVE revisions AS (
+        SELECT p_deal_id AS id
+        UNION
+        SELECT linked.id
+        FROM revisions r
+        JOIN deals revision ON revision.id = r.id
+        JOIN deals linked ON linked.id = revision.resubmission_of OR linked.resubmission_of = revision.id
+    )
+    SELECT id FROM revisions;
+$$ LANGUAGE sql STABLE;
+
+-- Candidate deals for conflict detection: every deal that is not rejected, expired or
+-- withdrawn whose normalized end user name is trigram-similar to the submitted one
+-- (p_company_name, normalized by the caller), across the full history. The % operator
+-- lets the GIN trigram index on end_users.normalized_company_name do the filtering;
+-- detailed scoring happens in the application. Deals whose contact shares p_email_domain (a corporate
+-- domain, or a subdomain of it) are candidates whatever their name.
+-- p_exclude_deal_id keeps a deal, and every other revision of it, from matching itself.
+CREATE OR REPLACE FUNCTION find_conflict_candidates(
+    p_company_name TEXT,
+    p_min_similarity REAL DEFAULT 0.3,
+    p_limit INTEGER DEFAULT 500,
+    p_exclude_deal_id UUID DEFAULT NULL,
+    p_email_domain TEXT DEFAULT NULL
+)
+RETURNS SETOF deals AS $$
+BEGIN
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::TEXT, true);
+
     RETURN QUERY
-    SELECT 
-        d.id as conflicting_deal_id,
-        'territory_overlap'::conflict_type as conflict_type_detected,
-        0.8::DECIMAL as similarity_score
+    SELECT d.*
     FROM deals d
-    JOIN end_users eu1 ON d.end_user_id = eu1.id
-    JOIN resellers r1 ON d.reseller_id = r1.id
-    JOIN deals new_deal ON new_deal.id = new_deal_id
-    JOIN end_users eu2 ON new_deal.end_user_id = eu2.id
-    JOIN resellers r2 ON new_deal.reseller_id = r2.id
-    WHERE d.id != new_deal_id
-    AND d.status NOT IN ('rejected')
-    AND r1.id != r2.id
-    AND (eu1.territory = eu2.territory OR r1.territory = r2.territory)
-    AND similarity(eu1.company_name, eu2.company_name) > 0.5;
+    JOIN end_users eu ON d.end_user_id = eu.id
+    WHERE (
+        eu.normalized_company_name % p_company_name
+        OR lower(split_part(eu.contact_email, '@', 2)) = p_email_domain
+        OR lower(split_part(eu.contact_email, '@', 2)) LIKE '%.' || p_email_domain
+    )
+    AND d.status NOT IN ('rejected', 'expired', 'withdrawn')
+    AND (p_exclude_deal_id IS NULL OR d.id NOT IN (SELECT deal_revision_ids(p_exclude_deal_id)))
+    ORDER BY similarity(eu.normalized_company_name, p_company_name) DESC, d.created_at DESC
+    LIMIT p_limit;
 END;
 $$ LANGUAGE plpgsql;
 
+-- One page of the pending conflict queue. Mirrors calculateConflictPriority and the SLA
+-- rules in src/lib/conflict-priority.ts: priority scores the larger deal value, the
+-- conflict type and the days since the later submission; the SLA clock starts when the
+-- conflict was recorded. p_sort 'priority' ranks highest priority first and then the
+-- nearest (or most overdue) SLA; 'oldest' ranks by age. The summary counts the whole queue.
+CREATE OR REPLACE FUNCTION conflict_queue(
+    p_high_hours INTEGER,
+    p_medium_hours INTEGER,
+    p_low_hours INTEGER,
+    p_priority TEXT DEFAULT NULL,
+    p_overdue BOOLEAN DEFAULT false,
+    p_sort TEXT DEFAULT 'priority',
+    p_limit INTEGER DEFAULT 25,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+    WITH scored AS (
+        SELECT dc.id,
+               dc.created_at,
+               (CASE
+                    WHEN GREATEST(d.total_value, cd.total_value) > 100000 THEN 3
+                    WHEN GREATEST(d.total_value, cd.total_value) > 50000 THEN 2
+                    ELSE 1
+                END
+                + CASE
+                    WHEN dc.conflict_type IN ('duplicate_end_user', 'product_overlap') THEN 3
+                    WHEN dc.conflict_type = 'territory_overlap' THEN 2
+                    ELSE 1
+                END
+                + CASE
+                    WHEN NOW() - COALESCE(GREATEST(d.submission_date, cd.submission_date), dc.created_at) >= INTERVAL '8 days' THEN 2
+                    WHEN NOW() - COALESCE(GREATEST(d.submission_date, cd.submission_date), dc.created_at) >= INTERVAL '4 days' THEN 1
+                    ELSE 0
+                END) AS score
+        FROM deal_conflicts dc
+        JOIN deals d ON d.id = dc.deal_id
+        JOIN deals cd ON cd.id = dc.competing_deal_id
+        WHERE dc.resolution_status = 'pending'
+    ),
+    prioritized AS (
+        SELECT id, created_at,
+               CASE WHEN score >= 7 THEN 'high' WHEN score >= 4 THEN 'medium' ELSE 'low' END AS priority,
+               CASE WHEN score >= 7 THEN 3 WHEN score >= 4 THEN 2 ELSE 1 END AS priority_rank,
+               CASE WHEN score >= 7 THEN p_high_hours WHEN score >= 4 THEN p_medium_hours ELSE p_low_hours END AS sla_hours
+        FROM scored
+    ),
+    entries AS (
+        SELECT id, created_at, priority, priority_rank, sla_hours,
+               created_at + make_interval(hours => sla_hours) AS due_at,
+               NOW() > created_at + make_interval(hours => sla_hours) AS overdue,
+               floor(extract(epoch FROM NOW() - created_at) / 3600)::INTEGER AS age_hours
+        FROM prioritized
+    ),
+    filtered AS (
+        SELECT * FROM entries
+        WHERE (p_priority IS NULL OR priority = p_priority)
+          AND (NOT p_overdue OR overdue)
+    ),
+    page AS (
+        SELECT * FROM filtered
+        ORDER BY
+            CASE WHEN p_sort = 'oldest' THEN NULL ELSE priority_rank END DESC,
+            CASE WHEN p_sort = 'oldest' THEN created_at ELSE due_at END ASC,
+            id
+        LIMIT p_limit OFFSET p_offset
+    )
+    SELECT jsonb_build_object(
+        'entries', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'conflict_id', id,
+                'priority', priority,
+                'sla_hours', sla_hours,
+                'age_hours', age_hours,
+                'due_at', due_at,
+                'overdue', overdue
+            ) ORDER BY
+                CASE WHEN p_sort = 'oldest' THEN NULL ELSE priority_rank END DESC,
+                CASE WHEN p_sort = 'oldest' THEN created_at ELSE due_at END ASC,
+                id)
+            FROM page
+        ), '[]'::JSONB),
+        'total', (SELECT COUNT(*) FROM filtered),
+        'summary', (
+            SELECT jsonb_build_object(
+                'high', COUNT(*) FILTER (WHERE priority = 'high'),
+                'medium', COUNT(*) FILTER (WHERE priority = 'medium'),
+                'low', COUNT(*) FILTER (WHERE priority = 'low'),
+                'overdue', COUNT(*) FILTER (WHERE overdue)
+            )
+            FROM entries
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- The caller's staff_users row, matched on the auth user id first and then on email the
+-- same way the API resolves it. SECURITY DEFINER so policies on staff_users can use them
+-- without recursing into their own table.
+CREATE OR REPLACE FUNCTION current_staff_user_id()
+RETURNS UUID AS $$
+    SELECT id FROM staff_users
+    WHERE id = auth.uid() OR email = auth.jwt()->>'email'
+    ORDER BY (id = auth.uid()) DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_staff_role()
+RETURNS staff_role AS $$
+    SELECT role FROM staff_users WHERE id = current_staff_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Row Level Security (RLS) Policies
 -- Enable RLS on all tables
 ALTER TABLE staff_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE territories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE resellers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE end_users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
@@ -248,19 +1131,36 @@ ALTER TABLE deals ENABLE ROW LEVEL SECURITY;
 ALTER TABLE deal_products ENABLE ROW LEVEL SECURITY;
 ALTER TABLE deal_conflicts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE assignment_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deal_status_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE eligibility_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE system_setting_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conflict_rescan_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_territories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conflict_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE end_user_merges ENABLE ROW LEVEL SECURITY;
 
 -- Staff users policies (only authenticated staff can access)
 CREATE POLICY "Staff can view all staff users" ON staff_users
     FOR SELECT USING (auth.role() = 'authenticated');
 
 CREATE POLICY "Admins can manage staff users" ON staff_users
-    FOR ALL USING (
-        EXISTS (
-            SELECT 1 FROM staff_users
-            WHERE id = auth.uid() AND role = 'admin'
-        )
-    );
+    FOR ALL USING (current_staff_role() = 'admin');
+
+-- Staff territories policies (staff can view, admins manage expertise)
+CREATE POLICY "Staff can view staff territories" ON staff_territories
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage staff territories" ON staff_territories
+    FOR ALL USING (current_staff_role() = 'admin');
+
+-- Territories policies (staff can view, admins manage the hierarchy)
+CREATE POLICY "Staff can view territories" ON territories
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage territories" ON territories
+    FOR ALL USING (current_staff_role() = 'admin');
 
 -- Resellers policies (staff can view/manage all)
 CREATE POLICY "Staff can view all resellers" ON resellers
@@ -281,12 +1181,7 @@ CREATE POLICY "Staff can view all products" ON products
     FOR SELECT USING (auth.role() = 'authenticated');
 
 CREATE POLICY "Managers and admins can manage products" ON products
-    FOR ALL USING (
-        EXISTS (
-            SELECT 1 FROM staff_users
-            WHERE id = auth.uid() AND role IN ('admin', 'manager')
-        )
-    );
+    FOR ALL USING (current_staff_role() IN ('admin', 'manager'));
 
 -- Deals policies (staff can view/manage all)
 CREATE POLICY "Staff can view all deals" ON deals
@@ -316,17 +1211,60 @@ CREATE POLICY "Staff can view assignment history" ON assignment_history
 CREATE POLICY "Staff can create assignment history" ON assignment_history
     FOR INSERT WITH CHECK (auth.role() = 'authenticated');
 
+-- Deal status history policies (read-only for audit)
+CREATE POLICY "Staff can view deal status history" ON deal_status_history
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff can create deal status history" ON deal_status_history
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
 -- Eligibility rules policies (admin/manager only)
 CREATE POLICY "Staff can view eligibility rules" ON eligibility_rules
     FOR SELECT USING (auth.role() = 'authenticated');
 
 CREATE POLICY "Managers and admins can manage eligibility rules" ON eligibility_rules
-    FOR ALL USING (
-        EXISTS (
-            SELECT 1 FROM staff_users
-            WHERE id = auth.uid() AND role IN ('admin', 'manager')
-        )
-    );
+    FOR ALL USING (current_staff_role() IN ('admin', 'manager'));
+
+-- Audit events policies (append-only)
+CREATE POLICY "Staff can view audit events" ON audit_events
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff can create audit events" ON audit_events
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+-- System settings policies (admin only)
+CREATE POLICY "Staff can view system settings" ON system_settings
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage system settings" ON system_settings
+    FOR ALL USING (current_staff_role() = 'admin');
+
+CREATE POLICY "Staff can view system setting versions" ON system_setting_versions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Conflict comments policies (staff can read and add notes, authors edit their own)
+CREATE POLICY "Staff can view conflict comments" ON conflict_comments
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Staff can create conflict comments" ON conflict_comments
+    FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authors can edit their conflict comments" ON conflict_comments
+    FOR UPDATE USING (author_id = current_staff_user_id());
+
+-- End user merges policies (staff can view, managers and admins merge and undo)
+CREATE POLICY "Staff can view end user merges" ON end_user_merges
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Managers and admins can manage end user merges" ON end_user_merges
+    FOR ALL USING (current_staff_role() IN ('admin', 'manager'));
+
+-- Conflict rescan jobs policies (admin only)
+CREATE POLICY "Staff can view conflict rescan jobs" ON conflict_rescan_jobs
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Admins can manage conflict rescan jobs" ON conflict_rescan_jobs
+    FOR ALL USING (current_staff_role() = 'admin');
 
 -- Sample data for testing
 INSERT INTO staff_users (email, name, role) VALUES
@@ -341,6 +1279,20 @@ INSERT INTO products (name, category, list_price) VALUES
     ('Training Program', 'Training', 15000.00),
     ('Hardware Solution', 'Hardware', 75000.00);
 
+INSERT INTO territories (name) VALUES ('Global');
+
+INSERT INTO territories (name, parent_id)
+SELECT child.name, parent.id
+FROM territories parent
+CROSS JOIN (VALUES ('North America'), ('International')) AS child(name)
+WHERE parent.name = 'Global';
+
+INSERT INTO territories (name, parent_id)
+SELECT child.name, parent.id
+FROM territories parent
+CROSS JOIN (VALUES ('Northeast US'), ('Southeast US'), ('Midwest US'), ('West Coast')) AS child(name)
+WHERE parent.name = 'North America';
+
 INSERT INTO resellers (name, email, territory, tier) VALUES
     ('TechPartner Solutions', 'contact@techpartner.com', 'Northeast US', 'gold'),
     ('Channel Pro', 'sales@channelpro.com', 'Southeast US', 'silver'),
@@ -363,3 +1315,12 @@ INSERT INTO eligibility_rules (name, description, rule_type, conditions) VALUES
      '{"min_tier": "gold", "max_deal_value": null}'),
     ('Deal Size Limit', 'Silver and Bronze partners limited to deals under $100k', 'deal_size',
      '{"max_value": 100000, "applies_to_tiers": ["silver", "bronze"]}');
+
+-- Default system settings
+INSERT INTO system_settings (key, value) VALUES
+    ('audit_logging', '{"enabled": true}'),
+    ('conflict_detection', '{"company_name_threshold": 0.85, "duplicate_threshold": 0.95, "related_company_threshold": 0.7, "candidate_similarity_threshold": 0.3, "product_overlap_threshold": 0.5, "timing_window_days": 90, "value_tolerance": 0.2, "free_email_domains": ["gmail.com", "googlemail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com", "msn.com", "aol.com", "icloud.com", "me.com", "mac.com", "proton.me", "protonmail.com", "gmx.com", "gmx.de", "mail.com", "yandex.com", "zoho.com", "qq.com", "163.com"]}'),
+    ('conflict_sla', '{"high_hours": 24, "medium_hours": 72, "low_hours": 168}'),
+    ('conflict_assignment', '{"enabled": false, "strategy": "least_loaded", "use_territory_expertise": false}'),
+    ('deal_protection', '{"tier_days": {"gold": 90, "silver": 60, "bronze": 45}, "category_days": {}, "expiring_soon_days": 14}'),
+    ('conflict_auto_resolution', '{"enabled": false, "losing_deal_status": "disputed", "policies": [{"policy": "first_registration", "enabled": false, "conflict_types": ["duplicate_end_user", "territory_overlap", "timing_conflict", "product_overlap"], "severities": ["low", "medium"]}, {"policy": "higher_tier", "enabled": false, "conflict_types": ["duplicate_end_user", "territory_overlap", "timing_conflict", "product_overlap"], "severities": ["low", "medium"]}, {"policy": "incumbent_reseller", "enabled": false, "conflict_types": ["duplicate_end_user", "territory_overlap", "timing_conflict", "product_overlap"], "severities": ["low", "medium"]}]}');